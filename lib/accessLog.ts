@@ -0,0 +1,241 @@
+// lib/accessLog.ts
+// ============================================
+// 📜 Access logs
+// Real traffic from nginx/Apache or JSON-lines logs, for replays and scenarios
+// ============================================
+
+import { type RequestPlan, REQUEST_PLAN_VERSION } from './plan.ts';
+import { type EndpointDefinition, HTTP_METHODS, type Scenario } from './scenario.ts';
+
+export interface AccessLogEntry {
+  timestamp: number;  // Epoch ms
+  method: string;
+  path: string;       // Path and query string
+  status?: number;    // As logged; replays check their own expectations
+}
+
+export interface ParsedAccessLog {
+  entries: AccessLogEntry[];  // Oldest first
+  skipped: number;            // Lines that are not requests we can send
+}
+
+// Most frequent endpoints kept when a log becomes a scenario
+export const DEFAULT_SCENARIO_ENDPOINTS = 50;
+
+// `host ident user [time] "METHOD target PROTOCOL" status ...`: common and combined formats
+const LOG_LINE = /^\S+ \S+ \S+ \[([^\]]+)\] "(\S+) (\S+)[^"]*" (\d{3})\b/;
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// First present field wins; covers nginx `log_format ... escape=json` setups and common app loggers
+const JSON_FIELDS = {
+  time: ['timestamp', 'time', '@timestamp', 'time_iso8601', 'time_local', 'msec', 'ts'],
+  method: ['method', 'request_method'],
+  path: ['path', 'request_uri', 'uri', 'url'],
+  status: ['status', 'status_code', 'statusCode']
+};
+
+/**
+ * `10/Oct/2000:13:55:36 -0700`, as nginx and Apache write it
+ */
+function parseLogTime(text: string): number | undefined {
+  const match = text.match(/^(\d{2})\/(\w{3})\/(\d{4}):(\d{2}):(\d{2}):(\d{2})(?: ([+-])(\d{2})(\d{2}))?$/);
+  if (!match) return undefined;
+
+  const [, day, month, year, hour, minute, second, sign, offsetHours, offsetMinutes] = match;
+  const monthIndex = MONTHS.indexOf(month);
+  if (monthIndex === -1) return undefined;
+
+  const local = Date.UTC(Number(year), monthIndex, Number(day), Number(hour), Number(minute), Number(second));
+  const offset = sign ? (sign === '-' ? -1 : 1) * (Number(offsetHours) * 60 + Number(offsetMinutes)) * 60_000 : 0;
+  return local - offset;
+}
+
+/**
+ * Log time, ISO 8601, or epoch seconds/milliseconds
+ */
+function parseTimestamp(value: unknown): number | undefined {
+  if (typeof value === 'number') return value < 1e12 ? value * 1000 : value;
+  if (typeof value !== 'string') return undefined;
+  if (/^\d+(?:\.\d+)?$/.test(value)) return parseTimestamp(Number(value));
+
+  const parsed = parseLogTime(value) ?? Date.parse(value);
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
+
+/**
+ * Absolute-form targets (forward proxies) keep only their path and query
+ */
+function normalizeTarget(target: string): string | undefined {
+  if (target.startsWith('/')) return target;
+  try {
+    const url = new URL(target);
+    return url.pathname + url.search;
+  } catch {
+    return undefined;
+  }
+}
+
+function firstField(record: Record<string, unknown>, names: string[]): unknown {
+  return names.map(name => record[name]).find(value => value !== undefined && value !== null && value !== '');
+}
+
+function parseJsonLine(line: string): Partial<AccessLogEntry> | undefined {
+  let record: unknown;
+  try {
+    record = JSON.parse(line);
+  } catch {
+    return undefined;
+  }
+  if (typeof record !== 'object' || record === null || Array.isArray(record)) return undefined;
+  const fields = record as Record<string, unknown>;
+
+  let method = firstField(fields, JSON_FIELDS.method);
+  let target = firstField(fields, JSON_FIELDS.path);
+  // nginx's $request: "GET /path HTTP/1.1"
+  if ((method === undefined || target === undefined) && typeof fields.request === 'string') {
+    [method, target] = fields.request.split(' ');
+  }
+  const status = Number(firstField(fields, JSON_FIELDS.status));
+
+  return {
+    timestamp: parseTimestamp(firstField(fields, JSON_FIELDS.time)),
+    method: typeof method === 'string' ? method : undefined,
+    path: typeof target === 'string' ? normalizeTarget(target) : undefined,
+    ...(Number.isInteger(status) && { status })
+  };
+}
+
+function parseLogLine(line: string): Partial<AccessLogEntry> | undefined {
+  const match = line.match(LOG_LINE);
+  if (!match) return undefined;
+  const [, time, method, target, status] = match;
+  return { timestamp: parseLogTime(time), method, path: normalizeTarget(target), status: Number(status) };
+}
+
+/**
+ * Requests from combined/common format lines or JSON lines, which can be
+ * mixed. Lines without a time, a known method and a path are skipped.
+ */
+export function parseAccessLog(text: string): ParsedAccessLog {
+  const entries: AccessLogEntry[] = [];
+  let skipped = 0;
+
+  for (const line of text.split('\n')) {
+    if (line.trim() === '') continue;
+    const entry = line.trimStart().startsWith('{') ? parseJsonLine(line) : parseLogLine(line);
+    const method = entry?.method?.toUpperCase();
+
+    if (entry?.timestamp === undefined || !entry.path || !method || !HTTP_METHODS.includes(method)) {
+      skipped++;
+      continue;
+    }
+    entries.push({ timestamp: entry.timestamp, method, path: entry.path, ...(entry.status !== undefined && { status: entry.status }) });
+  }
+
+  // Stable, so requests logged in the same second keep their order
+  entries.sort((a, b) => a.timestamp - b.timestamp);
+  return { entries, skipped };
+}
+
+/**
+ * A log file's text; `.gz` files (rotated logs) are decompressed
+ */
+export async function readAccessLog(path: string): Promise<string> {
+  try {
+    if (!path.endsWith('.gz')) return await Deno.readTextFile(path);
+    const file = await Deno.open(path);
+    const text = file.readable.pipeThrough(new DecompressionStream('gzip')).pipeThrough(new TextDecoderStream());
+    return (await Array.fromAsync(text)).join('');
+  } catch (error) {
+    throw new Error(`Cannot read access log ${path}: ${(error as Error).message}`);
+  }
+}
+
+// ============================================
+// 🔁 REPLAYS AND SCENARIOS
+// ============================================
+
+function logEndpoint(method: string, path: string, weight = 1): EndpointDefinition {
+  return { path, method, weight, description: `${method} ${path}` };
+}
+
+/**
+ * The log as an open-model plan: every request at its logged time. Logs
+ * with whole-second times would send each second's requests in one burst,
+ * so those are spread evenly across their second.
+ */
+export function accessLogPlan(entries: AccessLogEntry[], options: { source: string; maxInFlight?: number }): RequestPlan {
+  if (entries.length === 0) {
+    throw new Error(`No replayable requests in ${options.source}`);
+  }
+
+  const endpoints: EndpointDefinition[] = [];
+  const indexes = new Map<string, number>();
+  const start = entries[0].timestamp;
+  const wholeSeconds = entries.every(entry => entry.timestamp % 1000 === 0);
+  const requests: RequestPlan['requests'] = [];
+
+  for (let i = 0; i < entries.length;) {
+    // Entries sharing a timestamp
+    let end = i + 1;
+    while (end < entries.length && entries[end].timestamp === entries[i].timestamp) end++;
+    const spacing = wholeSeconds ? 1000 / (end - i) : 0;
+
+    for (let j = i; j < end; j++) {
+      const { method, path, timestamp } = entries[j];
+      const key = `${method} ${path}`;
+      let index = indexes.get(key);
+      if (index === undefined) {
+        index = endpoints.push(logEndpoint(method, path)) - 1;
+        indexes.set(key, index);
+      }
+      requests.push({ endpoint: index, at: timestamp - start + (j - i) * spacing });
+    }
+    i = end;
+  }
+
+  return {
+    version: REQUEST_PLAN_VERSION,
+    mode: 'access log',
+    model: 'open',
+    baseUrl: options.source,
+    recordedAt: new Date(start).toISOString(),
+    // A second past the last arrival so it has time to finish
+    durationSeconds: Math.ceil(requests.at(-1)!.at / 1000 + 1),
+    ...(options.maxInFlight !== undefined && { maxInFlight: options.maxInFlight }),
+    endpoints,
+    requests
+  };
+}
+
+/**
+ * A scenario weighted by how often each method and path was requested,
+ * keeping the `top` most frequent
+ */
+export function accessLogScenario(entries: AccessLogEntry[], options: { source: string; top?: number }): Scenario {
+  if (entries.length === 0) {
+    throw new Error(`No requests in ${options.source}`);
+  }
+
+  const counts = new Map<string, { method: string; path: string; count: number }>();
+  for (const { method, path } of entries) {
+    const key = `${method} ${path}`;
+    const endpoint = counts.get(key) ?? { method, path, count: 0 };
+    endpoint.count++;
+    counts.set(key, endpoint);
+  }
+
+  const ranked = [...counts.values()].sort((a, b) => b.count - a.count);
+  const kept = ranked.slice(0, options.top ?? DEFAULT_SCENARIO_ENDPOINTS);
+  const covered = kept.reduce((sum, endpoint) => sum + endpoint.count, 0);
+
+  return {
+    name: `traffic from ${options.source}`,
+    description:
+      `${entries.length.toLocaleString()} requests from ${new Date(entries[0].timestamp).toISOString()} to ` +
+      `${new Date(entries.at(-1)!.timestamp).toISOString()}; top ${kept.length} of ${ranked.length} endpoints, ` +
+      `${((covered / entries.length) * 100).toFixed(1)}% of requests`,
+    groups: { traffic: kept.map(({ method, path, count }) => logEndpoint(method, path, count)) }
+  };
+}
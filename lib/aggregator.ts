@@ -0,0 +1,620 @@
+// lib/aggregator.ts
+// ============================================
+// 🧺 Streaming result aggregation
+// Bounded-memory totals for long-running tests
+// ============================================
+
+import { type HistogramOptions, LatencyHistogram, type SerializedHistogram } from './histogram.ts';
+import type { ErrorClass } from './errors.ts';
+import type { Random } from './random.ts';
+import type { EndpointType } from './scenario.ts';
+import type { StreamObserver } from './streams.ts';
+import type { ErrorClassSummary, PerformanceMetric } from './types.ts';
+
+export interface AggregatorOptions {
+  maxSamples?: number;          // Raw metrics kept for timeSeriesData (default 10,000)
+  histogram?: HistogramOptions;
+  random?: Random;              // Picks which metrics are sampled (default Math.random)
+}
+
+export interface EndpointAggregate {
+  requests: number;
+  successCount: number;
+  unexpectedReasons: Record<string, number>;  // Reason -> count
+  histogram: LatencyHistogram;                // Every response
+}
+
+export interface JourneyAggregate {
+  runs: number;
+  completed: number;
+  histogram: LatencyHistogram;                // Durations of completed runs
+  failedAt: Record<string, number>;           // Step -> count
+  steps: Map<string, { requests: number; successCount: number; histogram: LatencyHistogram }>;
+}
+
+export interface StageAggregate {
+  requests: number;
+  failures: number;
+  histogram: LatencyHistogram;
+}
+
+export interface StreamAggregate {
+  type: Exclude<EndpointType, 'http'>;
+  connections: number;          // Attempts
+  connected: number;
+  open: number;                 // Open right now
+  peakOpen: number;
+  disconnects: number;          // Closed by the server or the network before the hold ended
+  messagesSent: number;
+  messagesReceived: number;
+  connectTime: LatencyHistogram;
+  latency: LatencyHistogram;    // WebSocket round trips, or delivery latency with latencyFrom
+}
+
+/**
+ * An endpoint's first request of the run, before any connection, JIT or
+ * server cache was warm
+ */
+export interface ColdStart {
+  responseTime: number;
+  timestamp: number;
+}
+
+export interface WarmupAggregate {
+  requests: number;
+  failures: number;             // Did not meet expectations
+  retryAttempts: number;        // Resent after a retryable failure; not in the run's retries
+  durationMs: number;           // Set by the runner when the warm-up ends
+  histogram: LatencyHistogram;  // Every response
+}
+
+/**
+ * An aggregator as JSON, so distributed workers can send their results to
+ * the coordinator without losing percentile accuracy
+ */
+export interface SerializedResults {
+  recorded: number;
+  successful: SerializedHistogram;
+  all: SerializedHistogram;
+  endpoints: Record<string, Omit<EndpointAggregate, 'histogram'> & { histogram: SerializedHistogram }>;
+  stages: Record<number, Omit<StageAggregate, 'histogram'> & { histogram: SerializedHistogram }>;
+  journeys: Record<string, Omit<JourneyAggregate, 'histogram' | 'steps'> & {
+    histogram: SerializedHistogram;
+    steps: Record<string, { requests: number; successCount: number; histogram: SerializedHistogram }>;
+  }>;
+  phases: Partial<Record<TimingPhase, SerializedHistogram>>;
+  streams: Record<string, Omit<StreamAggregate, 'connectTime' | 'latency'> & { connectTime: SerializedHistogram; latency: SerializedHistogram }>;
+  coldStarts: Record<string, ColdStart>;
+  warm: Record<string, SerializedHistogram>;
+  warmup: Omit<WarmupAggregate, 'histogram'> & { histogram: SerializedHistogram };
+  errors: Partial<Record<ErrorClass, ErrorClassSummary>>;
+  serverErrors: number;
+  retries: ResultAggregator['retries'];
+  cancelled: number;
+  reusedConnections: number;
+  newConnections: number;
+  samples: PerformanceMetric[];
+}
+
+// Distinct error messages kept per class
+const MAX_ERROR_SAMPLES = 3;
+
+// Timing phases, in request order, and the metric field each is read from
+export const TIMING_PHASES = {
+  dns: 'dnsTime',
+  connect: 'connectTime',
+  tls: 'tlsTime',
+  ttfb: 'ttfbTime',
+  download: 'downloadTime'
+} as const;
+
+export type TimingPhase = keyof typeof TIMING_PHASES;
+
+// Percentiles reported for the run and each endpoint
+export const REPORTED_PERCENTILES = [50, 75, 90, 95, 99, 99.9, 99.99];
+
+export function percentileKey(percentile: number): string {
+  return `p${percentile}`;
+}
+
+/**
+ * Percentile map such as `{ p50: 12.1, 'p99.9': 80.4 }`, with any `extra`
+ * percentiles (e.g. ones a threshold checks) added in order
+ */
+export function percentileMap(histogram: LatencyHistogram, extra: number[] = []): Record<string, number> {
+  const percentiles = [...new Set([...REPORTED_PERCENTILES, ...extra])].sort((a, b) => a - b);
+  return Object.fromEntries(percentiles.map(p => [percentileKey(p), histogram.percentile(p)]));
+}
+
+/**
+ * Folds each result into histograms and counters as it arrives, so memory
+ * stays flat however long the test runs. Raw metrics are kept only as a
+ * uniform reservoir sample for `timeSeriesData`.
+ */
+export class ResultAggregator {
+  readonly successful: LatencyHistogram;  // Responses that met their expectations
+  readonly all: LatencyHistogram;         // Every response, for progress averages
+  readonly endpoints = new Map<string, EndpointAggregate>();
+  readonly stages = new Map<number, StageAggregate>();
+  readonly journeys = new Map<string, JourneyAggregate>();
+  readonly phases = new Map<TimingPhase, LatencyHistogram>();
+  readonly errors = new Map<ErrorClass, ErrorClassSummary>();
+  readonly streams = new Map<string, StreamAggregate>();
+  readonly coldStarts = new Map<string, ColdStart>();     // Endpoint -> its first request, if that met expectations
+  readonly warm = new Map<string, LatencyHistogram>();    // Endpoint -> every later request that met expectations
+  readonly warmup: WarmupAggregate;                       // Kept out of every other statistic
+  serverErrors = 0;  // 5xx responses
+  readonly retries = { retriedRequests: 0, recovered: 0, retryAttempts: 0, reasons: {} as Record<string, number> };
+  cancelled = 0;     // Cut off by the end of the run, never recorded
+  reusedConnections = 0;
+  newConnections = 0;  // Only counted for detailed timing, which knows either way
+
+  private readonly maxSamples: number;
+  private readonly histogramOptions?: HistogramOptions;
+  private readonly random: Random;
+  private samples: PerformanceMetric[] = [];
+  private recorded = 0;
+  private readonly requested = new Set<string>();  // Endpoints hit so far, warm-up included
+
+  constructor(options: AggregatorOptions = {}) {
+    this.maxSamples = options.maxSamples ?? 10_000;
+    this.histogramOptions = options.histogram;
+    this.random = options.random ?? Math.random;
+    this.successful = new LatencyHistogram(this.histogramOptions);
+    this.all = new LatencyHistogram(this.histogramOptions);
+    this.warmup = { requests: 0, failures: 0, retryAttempts: 0, durationMs: 0, histogram: new LatencyHistogram(this.histogramOptions) };
+  }
+
+  get totalRequests(): number {
+    return this.recorded;
+  }
+
+  get successCount(): number {
+    return this.successful.count;
+  }
+
+  /**
+   * WebSocket and SSE connections open right now, across endpoints
+   */
+  get openStreams(): number {
+    let open = 0;
+    for (const stream of this.streams.values()) open += stream.open;
+    return open;
+  }
+
+  record(metric: PerformanceMetric): void {
+    this.recorded++;
+    if (metric.attempts !== undefined && metric.attempts > 1) {
+      this.retries.retriedRequests++;
+      if (metric.expectationMet) this.retries.recovered++;
+    }
+    this.all.record(metric.responseTime);
+    if (metric.expectationMet) {
+      this.successful.record(metric.responseTime);
+    }
+
+    if (!this.recordColdStart(metric) && metric.expectationMet) {
+      let warm = this.warm.get(metric.endpoint);
+      if (!warm) {
+        warm = new LatencyHistogram(this.histogramOptions);
+        this.warm.set(metric.endpoint, warm);
+      }
+      warm.record(metric.responseTime);
+    }
+
+    let endpoint = this.endpoints.get(metric.endpoint);
+    if (!endpoint) {
+      endpoint = { requests: 0, successCount: 0, unexpectedReasons: {}, histogram: new LatencyHistogram(this.histogramOptions) };
+      this.endpoints.set(metric.endpoint, endpoint);
+    }
+    endpoint.requests++;
+    endpoint.histogram.record(metric.responseTime);
+    if (metric.expectationMet) {
+      endpoint.successCount++;
+    } else {
+      const reason = metric.unexpectedReason ?? 'unexpected response';
+      endpoint.unexpectedReasons[reason] = (endpoint.unexpectedReasons[reason] || 0) + 1;
+    }
+
+    if (metric.stage !== undefined) {
+      let stage = this.stages.get(metric.stage);
+      if (!stage) {
+        stage = { requests: 0, failures: 0, histogram: new LatencyHistogram(this.histogramOptions) };
+        this.stages.set(metric.stage, stage);
+      }
+      stage.requests++;
+      stage.histogram.record(metric.responseTime);
+      if (!metric.expectationMet) stage.failures++;
+    }
+
+    if (metric.journey !== undefined && metric.journeyStep !== undefined) {
+      const journey = this.journey(metric.journey);
+      let step = journey.steps.get(metric.journeyStep);
+      if (!step) {
+        step = { requests: 0, successCount: 0, histogram: new LatencyHistogram(this.histogramOptions) };
+        journey.steps.set(metric.journeyStep, step);
+      }
+      step.requests++;
+      step.histogram.record(metric.responseTime);
+      if (metric.expectationMet) step.successCount++;
+    }
+
+    if (metric.errorClass) {
+      let error = this.errors.get(metric.errorClass);
+      if (!error) {
+        error = { count: 0, endpoints: {}, sampleMessages: [] };
+        this.errors.set(metric.errorClass, error);
+      }
+      error.count++;
+      error.endpoints[metric.endpoint] = (error.endpoints[metric.endpoint] || 0) + 1;
+      if (metric.errorMessage && error.sampleMessages.length < MAX_ERROR_SAMPLES && !error.sampleMessages.includes(metric.errorMessage)) {
+        error.sampleMessages.push(metric.errorMessage);
+      }
+    } else if (metric.statusCode >= 500) {
+      this.serverErrors++;
+    }
+
+    for (const [phase, field] of Object.entries(TIMING_PHASES) as [TimingPhase, typeof TIMING_PHASES[TimingPhase]][]) {
+      const value = metric[field];
+      if (value === undefined) continue;
+      let histogram = this.phases.get(phase);
+      if (!histogram) {
+        histogram = new LatencyHistogram(this.histogramOptions);
+        this.phases.set(phase, histogram);
+      }
+      histogram.record(value);
+    }
+    if (metric.connectionReused !== undefined) {
+      if (metric.connectionReused) this.reusedConnections++;
+      else this.newConnections++;
+    }
+
+    // Reservoir sampling (Algorithm R) keeps a uniform sample of the whole run
+    if (this.samples.length < this.maxSamples) {
+      this.samples.push(metric);
+    } else {
+      const slot = Math.floor(this.random() * this.recorded);
+      if (slot < this.maxSamples) this.samples[slot] = metric;
+    }
+  }
+
+  /**
+   * Record a warm-up request. It only counts towards the warm-up totals, and
+   * as its endpoint's cold start if it was the first.
+   */
+  recordWarmup(metric: PerformanceMetric): void {
+    this.warmup.requests++;
+    this.warmup.histogram.record(metric.responseTime);
+    if (!metric.expectationMet) this.warmup.failures++;
+    this.recordColdStart(metric);
+  }
+
+  /**
+   * Whether this was its endpoint's first request. A first request that
+   * failed leaves the endpoint without a cold start time.
+   */
+  private recordColdStart(metric: PerformanceMetric): boolean {
+    if (this.requested.has(metric.endpoint)) return false;
+    this.requested.add(metric.endpoint);
+    if (metric.expectationMet) {
+      this.coldStarts.set(metric.endpoint, { responseTime: metric.responseTime, timestamp: metric.timestamp });
+    }
+    return true;
+  }
+
+  /**
+   * Record one run of a journey: its duration when every step succeeded,
+   * otherwise the step it stopped at
+   */
+  recordJourney(name: string, durationMs: number | undefined, failedStep?: string): void {
+    const journey = this.journey(name);
+    journey.runs++;
+    if (durationMs !== undefined) {
+      journey.completed++;
+      journey.histogram.record(durationMs);
+    } else if (failedStep !== undefined) {
+      journey.failedAt[failedStep] = (journey.failedAt[failedStep] || 0) + 1;
+    }
+  }
+
+  private journey(name: string): JourneyAggregate {
+    let journey = this.journeys.get(name);
+    if (!journey) {
+      journey = { runs: 0, completed: 0, histogram: new LatencyHistogram(this.histogramOptions), failedAt: {}, steps: new Map() };
+      this.journeys.set(name, journey);
+    }
+    return journey;
+  }
+
+  /**
+   * Counts one connection attempt to a WebSocket or SSE endpoint, and
+   * follows the connection as it opens, exchanges messages and closes
+   */
+  streamObserver(endpoint: string, type: StreamAggregate['type']): StreamObserver {
+    let stream = this.streams.get(endpoint);
+    if (!stream) {
+      stream = {
+        type, connections: 0, connected: 0, open: 0, peakOpen: 0, disconnects: 0, messagesSent: 0, messagesReceived: 0,
+        connectTime: new LatencyHistogram(this.histogramOptions),
+        latency: new LatencyHistogram(this.histogramOptions)
+      };
+      this.streams.set(endpoint, stream);
+    }
+    const aggregate = stream;
+    aggregate.connections++;
+
+    return {
+      opened(connectTimeMs) {
+        aggregate.connected++;
+        aggregate.open++;
+        aggregate.peakOpen = Math.max(aggregate.peakOpen, aggregate.open);
+        aggregate.connectTime.record(connectTimeMs);
+      },
+      sent() {
+        aggregate.messagesSent++;
+      },
+      received(latencyMs) {
+        aggregate.messagesReceived++;
+        if (latencyMs !== undefined) aggregate.latency.record(latencyMs);
+      },
+      closed(disconnected) {
+        aggregate.open--;
+        if (disconnected) aggregate.disconnects++;
+      }
+    };
+  }
+
+  /**
+   * Count an attempt that failed and was retried. It stays out of the
+   * latency and success statistics, which describe final outcomes.
+   */
+  recordRetry(metric: PerformanceMetric): void {
+    this.retries.retryAttempts++;
+    const reason = metric.unexpectedReason ?? `status ${metric.statusCode}`;
+    this.retries.reasons[reason] = (this.retries.reasons[reason] || 0) + 1;
+  }
+
+  // ============================================
+  // 🔗 MERGING
+  // ============================================
+
+  toJSON(): SerializedResults {
+    const histograms = <T extends { histogram: LatencyHistogram }>(map: Map<string | number, T>) =>
+      Object.fromEntries([...map].map(([key, value]) => [key, { ...value, histogram: value.histogram.toJSON() }]));
+
+    return {
+      recorded: this.recorded,
+      successful: this.successful.toJSON(),
+      all: this.all.toJSON(),
+      endpoints: histograms(this.endpoints),
+      stages: histograms(this.stages),
+      journeys: Object.fromEntries([...this.journeys].map(([name, journey]) => [name, {
+        ...journey,
+        histogram: journey.histogram.toJSON(),
+        steps: histograms(journey.steps)
+      }])),
+      phases: Object.fromEntries([...this.phases].map(([phase, histogram]) => [phase, histogram.toJSON()])),
+      streams: Object.fromEntries([...this.streams].map(([endpoint, stream]) => [endpoint, {
+        ...stream,
+        connectTime: stream.connectTime.toJSON(),
+        latency: stream.latency.toJSON()
+      }])),
+      coldStarts: Object.fromEntries(this.coldStarts),
+      warm: Object.fromEntries([...this.warm].map(([endpoint, histogram]) => [endpoint, histogram.toJSON()])),
+      warmup: { ...this.warmup, histogram: this.warmup.histogram.toJSON() },
+      errors: Object.fromEntries(this.errors),
+      serverErrors: this.serverErrors,
+      retries: this.retries,
+      cancelled: this.cancelled,
+      reusedConnections: this.reusedConnections,
+      newConnections: this.newConnections,
+      samples: this.samples
+    };
+  }
+
+  /**
+   * Rebuild an aggregator from toJSON() output. Its histograms must have
+   * been recorded with the same options.
+   */
+  static fromJSON(data: SerializedResults, options: AggregatorOptions = {}): ResultAggregator {
+    const aggregator = new ResultAggregator(options);
+    const histogram = (serialized: SerializedHistogram) => new LatencyHistogram(options.histogram).merge(LatencyHistogram.fromJSON(serialized));
+
+    aggregator.recorded = data.recorded;
+    aggregator.successful.merge(LatencyHistogram.fromJSON(data.successful));
+    aggregator.all.merge(LatencyHistogram.fromJSON(data.all));
+    for (const [endpoint, stats] of Object.entries(data.endpoints)) {
+      aggregator.endpoints.set(endpoint, { ...stats, unexpectedReasons: { ...stats.unexpectedReasons }, histogram: histogram(stats.histogram) });
+    }
+    for (const [stage, stats] of Object.entries(data.stages)) {
+      aggregator.stages.set(Number(stage), { ...stats, histogram: histogram(stats.histogram) });
+    }
+    for (const [name, journey] of Object.entries(data.journeys)) {
+      aggregator.journeys.set(name, {
+        ...journey,
+        failedAt: { ...journey.failedAt },
+        histogram: histogram(journey.histogram),
+        steps: new Map(Object.entries(journey.steps).map(([step, stats]) => [step, { ...stats, histogram: histogram(stats.histogram) }]))
+      });
+    }
+    for (const [phase, serialized] of Object.entries(data.phases) as [TimingPhase, SerializedHistogram][]) {
+      aggregator.phases.set(phase, histogram(serialized));
+    }
+    for (const [endpoint, stream] of Object.entries(data.streams)) {
+      aggregator.streams.set(endpoint, { ...stream, connectTime: histogram(stream.connectTime), latency: histogram(stream.latency) });
+    }
+    for (const [endpoint, coldStart] of Object.entries(data.coldStarts)) {
+      aggregator.coldStarts.set(endpoint, { ...coldStart });
+    }
+    for (const endpoint of [...Object.keys(data.endpoints), ...Object.keys(data.coldStarts)]) {
+      aggregator.requested.add(endpoint);
+    }
+    for (const [endpoint, serialized] of Object.entries(data.warm)) {
+      aggregator.warm.set(endpoint, histogram(serialized));
+    }
+    Object.assign(aggregator.warmup, { ...data.warmup, histogram: histogram(data.warmup.histogram) });
+    for (const [errorClass, error] of Object.entries(data.errors) as [ErrorClass, ErrorClassSummary][]) {
+      aggregator.errors.set(errorClass, { count: error.count, endpoints: { ...error.endpoints }, sampleMessages: [...error.sampleMessages] });
+    }
+    aggregator.serverErrors = data.serverErrors;
+    Object.assign(aggregator.retries, { ...data.retries, reasons: { ...data.retries.reasons } });
+    aggregator.cancelled = data.cancelled;
+    aggregator.reusedConnections = data.reusedConnections;
+    aggregator.newConnections = data.newConnections;
+    aggregator.samples = data.samples.slice(0, aggregator.maxSamples);
+    return aggregator;
+  }
+
+  /**
+   * Add another aggregator's results into this one, as if every result had
+   * been recorded here
+   */
+  merge(other: ResultAggregator): this {
+    const addCounts = (target: Record<string, number>, source: Record<string, number>) => {
+      for (const [key, count] of Object.entries(source)) target[key] = (target[key] || 0) + count;
+    };
+
+    this.successful.merge(other.successful);
+    this.all.merge(other.all);
+
+    for (const [endpoint, stats] of other.endpoints) {
+      const existing = this.endpoints.get(endpoint);
+      if (!existing) {
+        this.endpoints.set(endpoint, { ...stats, unexpectedReasons: { ...stats.unexpectedReasons }, histogram: this.copy(stats.histogram) });
+        continue;
+      }
+      existing.requests += stats.requests;
+      existing.successCount += stats.successCount;
+      addCounts(existing.unexpectedReasons, stats.unexpectedReasons);
+      existing.histogram.merge(stats.histogram);
+    }
+
+    for (const [index, stats] of other.stages) {
+      const existing = this.stages.get(index);
+      if (!existing) {
+        this.stages.set(index, { ...stats, histogram: this.copy(stats.histogram) });
+        continue;
+      }
+      existing.requests += stats.requests;
+      existing.failures += stats.failures;
+      existing.histogram.merge(stats.histogram);
+    }
+
+    for (const [name, journey] of other.journeys) {
+      const existing = this.journey(name);
+      existing.runs += journey.runs;
+      existing.completed += journey.completed;
+      existing.histogram.merge(journey.histogram);
+      addCounts(existing.failedAt, journey.failedAt);
+      for (const [step, stats] of journey.steps) {
+        const existingStep = existing.steps.get(step);
+        if (!existingStep) {
+          existing.steps.set(step, { ...stats, histogram: this.copy(stats.histogram) });
+          continue;
+        }
+        existingStep.requests += stats.requests;
+        existingStep.successCount += stats.successCount;
+        existingStep.histogram.merge(stats.histogram);
+      }
+    }
+
+    for (const [phase, histogram] of other.phases) {
+      const existing = this.phases.get(phase);
+      if (existing) existing.merge(histogram);
+      else this.phases.set(phase, this.copy(histogram));
+    }
+
+    // Workers hold their connections at the same time, so their peaks add up
+    for (const [endpoint, stream] of other.streams) {
+      const existing = this.streams.get(endpoint);
+      if (!existing) {
+        this.streams.set(endpoint, { ...stream, connectTime: this.copy(stream.connectTime), latency: this.copy(stream.latency) });
+        continue;
+      }
+      for (const field of ['connections', 'connected', 'open', 'peakOpen', 'disconnects', 'messagesSent', 'messagesReceived'] as const) {
+        existing[field] += stream[field];
+      }
+      existing.connectTime.merge(stream.connectTime);
+      existing.latency.merge(stream.latency);
+    }
+
+    // The server saw its first request for an endpoint once, whichever worker sent it
+    for (const [endpoint, coldStart] of other.coldStarts) {
+      const existing = this.coldStarts.get(endpoint);
+      if (!existing || coldStart.timestamp < existing.timestamp) this.coldStarts.set(endpoint, { ...coldStart });
+    }
+    for (const [endpoint, histogram] of other.warm) {
+      const existing = this.warm.get(endpoint);
+      if (existing) existing.merge(histogram);
+      else this.warm.set(endpoint, this.copy(histogram));
+    }
+    for (const endpoint of other.requested) this.requested.add(endpoint);
+    this.warmup.requests += other.warmup.requests;
+    this.warmup.failures += other.warmup.failures;
+    this.warmup.retryAttempts += other.warmup.retryAttempts;
+    this.warmup.durationMs = Math.max(this.warmup.durationMs, other.warmup.durationMs);
+    this.warmup.histogram.merge(other.warmup.histogram);
+
+    for (const [errorClass, error] of other.errors) {
+      const existing = this.errors.get(errorClass);
+      if (!existing) {
+        this.errors.set(errorClass, { count: error.count, endpoints: { ...error.endpoints }, sampleMessages: [...error.sampleMessages] });
+        continue;
+      }
+      existing.count += error.count;
+      addCounts(existing.endpoints, error.endpoints);
+      for (const message of error.sampleMessages) {
+        if (existing.sampleMessages.length < MAX_ERROR_SAMPLES && !existing.sampleMessages.includes(message)) {
+          existing.sampleMessages.push(message);
+        }
+      }
+    }
+
+    this.serverErrors += other.serverErrors;
+    this.retries.retriedRequests += other.retries.retriedRequests;
+    this.retries.recovered += other.retries.recovered;
+    this.retries.retryAttempts += other.retries.retryAttempts;
+    addCounts(this.retries.reasons, other.retries.reasons);
+    this.cancelled += other.cancelled;
+    this.reusedConnections += other.reusedConnections;
+    this.newConnections += other.newConnections;
+
+    this.samples = this.mergeSamples(other);
+    this.recorded += other.recorded;
+    return this;
+  }
+
+  private copy(histogram: LatencyHistogram): LatencyHistogram {
+    return new LatencyHistogram(this.histogramOptions).merge(histogram);
+  }
+
+  /**
+   * Both reservoirs, each keeping a share of the slots proportional to how
+   * many results it stands for, so the sample stays uniform
+   */
+  private mergeSamples(other: ResultAggregator): PerformanceMetric[] {
+    const total = this.recorded + other.recorded;
+    if (this.samples.length + other.samples.length <= this.maxSamples || total === 0) {
+      return [...this.samples, ...other.samples].slice(0, this.maxSamples);
+    }
+
+    const shuffled = (samples: PerformanceMetric[]) => {
+      const copy = [...samples];
+      for (let i = copy.length - 1; i > 0; i--) {
+        const j = Math.floor(this.random() * (i + 1));
+        [copy[i], copy[j]] = [copy[j], copy[i]];
+      }
+      return copy;
+    };
+    const ours = Math.min(this.samples.length, Math.round(this.maxSamples * (this.recorded / total)));
+    const theirs = Math.min(other.samples.length, this.maxSamples - ours);
+    return [...shuffled(this.samples).slice(0, ours), ...shuffled(other.samples).slice(0, theirs)];
+  }
+
+  /**
+   * Sampled raw metrics in time order
+   */
+  sample(): PerformanceMetric[] {
+    return [...this.samples].sort((a, b) => a.timestamp - b.timestamp);
+  }
+}
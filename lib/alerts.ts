@@ -0,0 +1,247 @@
+// lib/alerts.ts
+// ============================================
+// 🚨 Monitor alerts
+// Rules over rolling windows, firing/resolved lifecycle, notification channels
+// ============================================
+
+import { RollingWindow } from './rollingWindow.ts';
+import { compareMetric, formatMetric, parseThreshold, type ThresholdOperator } from './thresholds.ts';
+import type { PerformanceMetric } from './types.ts';
+
+export interface AlertRule {
+  expression: string;           // As written, for display
+  endpoint?: string;            // Only results for this endpoint count
+  metric: string;               // Threshold metric (p95, successRate...) or 'down'
+  operator?: ThresholdOperator; // Fires while `metric operator value` holds
+  value?: number;
+  window: number;               // Results the metric is computed over
+  for: number;                  // Consecutive checks needed to fire, and to resolve
+}
+
+export interface AlertEvent {
+  status: 'firing' | 'resolved';
+  rule: string;
+  endpoint?: string;
+  value?: number;               // Metric value at the transition
+  since: number;                // When the alert started firing (epoch ms)
+  at: number;                   // This transition (epoch ms)
+  message: string;
+}
+
+export const DEFAULT_ALERT_WINDOW = 10;
+
+/**
+ * Parse a rule such as `successRate < 95% for 3`, `p95 over 20 > 500ms` or
+ * `/api/blogs down for 2`. `over N` sets the window (default 10 results);
+ * `for N` is how many consecutive checks must breach before it fires and
+ * pass before it resolves (default 1).
+ */
+export function parseAlertRule(expression: string): AlertRule {
+  let rest = expression.trim();
+  let window = DEFAULT_ALERT_WINDOW;
+  let consecutive = 1;
+
+  const forMatch = rest.match(/\s+for\s+(\d+)(?:\s+(?:intervals?|checks?))?$/i);
+  if (forMatch) {
+    consecutive = parseInt(forMatch[1]);
+    rest = rest.slice(0, forMatch.index);
+  }
+  const overMatch = rest.match(/\s+over\s+(?:(?:the\s+)?last\s+)?(\d+)(?:\s+(?:results?|requests?|checks?))?/i);
+  if (overMatch) {
+    window = parseInt(overMatch[1]);
+    rest = rest.slice(0, overMatch.index) + rest.slice(overMatch.index! + overMatch[0].length);
+  }
+  if (window < 1 || consecutive < 1) {
+    throw new Error(`Alert rule "${expression}": "over" and "for" need a count of at least 1`);
+  }
+
+  const down = rest.match(/^(?:(\/\S*)\s+)?down$/i);
+  if (down) {
+    return { expression: expression.trim(), ...(down[1] && { endpoint: down[1] }), metric: 'down', window: 1, for: consecutive };
+  }
+
+  try {
+    const { endpoint, metric, operator, value } = parseThreshold(rest);
+    return { expression: expression.trim(), ...(endpoint && { endpoint }), metric, operator, value, window, for: consecutive };
+  } catch (error) {
+    throw new Error(
+      `Invalid alert rule "${expression}" (expected e.g. "successRate < 95% for 3", "p95 over 20 > 500ms" or "/api/blogs down"): ` +
+      (error as Error).message
+    );
+  }
+}
+
+// ============================================
+// 🧮 EVALUATION
+// ============================================
+
+interface RuleState {
+  rule: AlertRule;
+  endpoint?: string;
+  window: RollingWindow;
+  breaches: number;             // Consecutive checks in breach
+  clears: number;               // Consecutive checks not in breach
+  firingSince?: number;
+}
+
+function describe(rule: AlertRule, endpoint: string | undefined, value: number | undefined, latest: PerformanceMetric): string {
+  if (rule.metric === 'down') {
+    return `${endpoint} down: ${latest.unexpectedReason ?? `status ${latest.statusCode}`}`;
+  }
+  return `${rule.expression}${value !== undefined ? ` (actual: ${formatMetric(rule.metric, value)})` : ''}`;
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+/**
+ * Checks alert rules as results arrive. Each rule keeps its own rolling
+ * window; an unscoped `down` rule tracks every endpoint separately. Events
+ * are only emitted on transitions, so a rule that stays in breach notifies
+ * once, and `for N` keeps a flapping endpoint from firing and resolving on
+ * alternate checks.
+ */
+export class AlertEvaluator {
+  private states = new Map<string, RuleState>();
+
+  constructor(readonly rules: AlertRule[]) {}
+
+  observe(metric: PerformanceMetric, now = Date.now()): AlertEvent[] {
+    const events: AlertEvent[] = [];
+
+    this.rules.forEach((rule, index) => {
+      if (rule.endpoint && rule.endpoint !== metric.endpoint) return;
+      const endpoint = rule.endpoint ?? (rule.metric === 'down' ? metric.endpoint : undefined);
+      const key = `${index} ${endpoint ?? ''}`;
+
+      let state = this.states.get(key);
+      if (!state) {
+        state = { rule, ...(endpoint && { endpoint }), window: new RollingWindow(rule.window), breaches: 0, clears: 0 };
+        this.states.set(key, state);
+      }
+      state.window.push(metric);
+
+      const value = rule.metric === 'down' ? undefined : state.window.value(rule.metric);
+      const breached = rule.metric === 'down'
+        ? !metric.expectationMet
+        : value !== undefined && compareMetric(value, rule.operator!, rule.value!);
+
+      if (breached) {
+        state.breaches++;
+        state.clears = 0;
+      } else {
+        state.clears++;
+        state.breaches = 0;
+      }
+
+      const base = { rule: rule.expression, ...(endpoint && { endpoint }), ...(value !== undefined && { value }), at: now };
+      if (state.firingSince === undefined && state.breaches >= rule.for) {
+        state.firingSince = now;
+        events.push({ status: 'firing', ...base, since: now, message: `🔥 FIRING ${describe(rule, endpoint, value, metric)}` });
+      } else if (state.firingSince !== undefined && state.clears >= rule.for) {
+        const since = state.firingSince;
+        state.firingSince = undefined;
+        events.push({
+          status: 'resolved',
+          ...base,
+          since,
+          message: `✅ RESOLVED ${rule.metric === 'down' ? `${endpoint} is back up` : describe(rule, endpoint, value, metric)} after ${formatDuration(now - since)}`
+        });
+      }
+    });
+
+    return events;
+  }
+
+  /**
+   * Rules currently firing, as "expression" or "expression (endpoint)"
+   */
+  get firing(): string[] {
+    return [...this.states.values()]
+      .filter(state => state.firingSince !== undefined)
+      .map(({ rule, endpoint }) => endpoint && !rule.endpoint ? `${rule.expression} (${endpoint})` : rule.expression);
+  }
+}
+
+// ============================================
+// 📣 CHANNELS
+// ============================================
+
+/**
+ * Somewhere alert events are delivered. `send` throws when delivery fails.
+ */
+export interface AlertChannel {
+  readonly description: string;
+  send(event: AlertEvent, target: string): Promise<void>;
+}
+
+/**
+ * POST the event as JSON
+ */
+export function webhookChannel(url: string): AlertChannel {
+  return {
+    description: `webhook ${url}`,
+    async send(event, target) {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ ...event, target }),
+        signal: AbortSignal.timeout(10_000)
+      });
+      await response.body?.cancel();
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    }
+  };
+}
+
+/**
+ * Run a shell command with the event in ALERT_* environment variables
+ */
+export function commandChannel(command: string): AlertChannel {
+  return {
+    description: `command ${command}`,
+    async send(event, target) {
+      const { code, stderr } = await new Deno.Command('sh', {
+        args: ['-c', command],
+        env: {
+          ALERT_STATUS: event.status,
+          ALERT_RULE: event.rule,
+          ALERT_ENDPOINT: event.endpoint ?? '',
+          ALERT_VALUE: event.value !== undefined ? String(event.value) : '',
+          ALERT_MESSAGE: event.message,
+          ALERT_TARGET: target
+        },
+        stdout: 'null',
+        stderr: 'piped'
+      }).output();
+      if (code !== 0) {
+        throw new Error(`exit code ${code}${stderr.length > 0 ? `: ${new TextDecoder().decode(stderr).trim()}` : ''}`);
+      }
+    }
+  };
+}
+
+/**
+ * Append one line per event
+ */
+export function logFileChannel(path: string): AlertChannel {
+  return {
+    description: `log ${path}`,
+    async send(event, target) {
+      await Deno.writeTextFile(path, `${new Date(event.at).toISOString()} ${target} ${event.message}\n`, { append: true });
+    }
+  };
+}
+
+/**
+ * Deliver an event to every channel; returns what failed instead of throwing
+ * so one broken channel can't stop monitoring or the others
+ */
+export async function dispatchAlert(channels: AlertChannel[], event: AlertEvent, target: string): Promise<string[]> {
+  const results = await Promise.allSettled(channels.map(channel => channel.send(event, target)));
+  return results.flatMap((result, i) =>
+    result.status === 'rejected' ? [`alert ${channels[i].description} failed: ${(result.reason as Error).message}`] : []
+  );
+}
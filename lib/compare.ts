@@ -0,0 +1,299 @@
+// lib/compare.ts
+// ============================================
+// 🔍 Baseline comparison and regression detection
+// Compares two exported runs metric by metric
+// ============================================
+
+import type { PerformanceMetric, PerformanceReport } from './types.ts';
+
+export interface ExportedRun extends PerformanceReport {
+  metadata?: Record<string, unknown>;
+}
+
+export interface CompareOptions {
+  tolerance: number;       // Allowed latency increase, % of baseline
+  errorTolerance: number;  // Allowed error rate increase, percentage points
+  alpha: number;           // Significance level for the Mann-Whitney test
+}
+
+export const DEFAULT_COMPARE_OPTIONS: CompareOptions = { tolerance: 10, errorTolerance: 1, alpha: 0.05 };
+
+export interface MannWhitneyResult {
+  u: number;
+  z: number;
+  pValue: number;          // Two-sided
+  effectSize: number;      // P(current sample > baseline sample); 0.5 = no difference
+  significant: boolean;
+}
+
+export interface MetricDelta {
+  metric: string;
+  baseline: number;
+  current: number;
+  delta: number;
+  deltaPercent: number;
+  regression: boolean;
+  insufficientSamples?: boolean;  // Grew past the tolerance, but either run had no samples to test
+}
+
+export interface EndpointComparison {
+  endpoint: string;
+  deltas: MetricDelta[];
+  test?: MannWhitneyResult;  // Missing when either run has no samples for the endpoint
+}
+
+export interface ComparisonResult {
+  options: CompareOptions;
+  summary: MetricDelta[];
+  test?: MannWhitneyResult;
+  endpoints: EndpointComparison[];
+  regressions: string[];     // Human-readable, one per regressed metric
+  inconclusive: string[];    // Likewise, for growth that could not be tested for significance
+}
+
+// ============================================
+// 📊 STATISTICS
+// ============================================
+
+/**
+ * Standard normal CDF (Abramowitz & Stegun 7.1.26 erf approximation)
+ */
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+  return z >= 0 ? 0.5 * (1 + erf) : 0.5 * (1 - erf);
+}
+
+/**
+ * Mann-Whitney U test of `current` against `baseline` using the normal
+ * approximation with tie and continuity corrections
+ */
+export function mannWhitneyU(baseline: number[], current: number[], alpha = DEFAULT_COMPARE_OPTIONS.alpha): MannWhitneyResult | undefined {
+  const n1 = baseline.length;
+  const n2 = current.length;
+  if (n1 === 0 || n2 === 0) return undefined;
+
+  const combined = [
+    ...baseline.map(value => ({ value, fromCurrent: false })),
+    ...current.map(value => ({ value, fromCurrent: true }))
+  ].sort((a, b) => a.value - b.value);
+
+  // Average ranks across ties
+  let currentRankSum = 0;
+  let tieCorrection = 0;
+  for (let i = 0; i < combined.length;) {
+    let j = i;
+    while (j + 1 < combined.length && combined[j + 1].value === combined[i].value) j++;
+
+    const rank = (i + j) / 2 + 1;
+    const ties = j - i + 1;
+    tieCorrection += ties ** 3 - ties;
+    for (let k = i; k <= j; k++) {
+      if (combined[k].fromCurrent) currentRankSum += rank;
+    }
+    i = j + 1;
+  }
+
+  const n = n1 + n2;
+  const u = currentRankSum - (n2 * (n2 + 1)) / 2;
+  const meanU = (n1 * n2) / 2;
+  const variance = ((n1 * n2) / 12) * ((n + 1) - tieCorrection / (n * (n - 1)));
+
+  if (variance <= 0) {
+    return { u, z: 0, pValue: 1, effectSize: 0.5, significant: false };
+  }
+
+  const diff = u - meanU;
+  const z = (diff - Math.sign(diff) * 0.5) / Math.sqrt(variance);
+  const pValue = Math.min(1, 2 * (1 - normalCdf(Math.abs(z))));
+
+  return { u, z, pValue, effectSize: u / (n1 * n2), significant: pValue < alpha };
+}
+
+// ============================================
+// 🔍 COMPARISON
+// ============================================
+
+function isSuccess(metric: PerformanceMetric): boolean {
+  // Exports from before expectations were recorded only carry status codes
+  return metric.expectationMet ?? (metric.statusCode >= 200 && metric.statusCode < 400);
+}
+
+function latencySamples(run: ExportedRun, endpoint?: string): number[] {
+  return (run.timeSeriesData ?? [])
+    .filter(metric => isSuccess(metric) && (endpoint === undefined || metric.endpoint === endpoint))
+    .map(metric => metric.responseTime);
+}
+
+function delta(metric: string, baseline: number, current: number, regression: boolean, insufficientSamples = false): MetricDelta {
+  return {
+    metric,
+    baseline,
+    current,
+    delta: current - baseline,
+    deltaPercent: baseline !== 0 ? ((current - baseline) / baseline) * 100 : 0,
+    regression,
+    ...(insufficientSamples && { insufficientSamples })
+  };
+}
+
+/**
+ * A latency metric regresses when it grew past the tolerance and the samples
+ * are significantly slower, so ordinary run-to-run noise is not flagged.
+ * Growth without samples to test is reported as insufficient, not a regression.
+ */
+function latencyDelta(metric: string, baseline: number, current: number, test: MannWhitneyResult | undefined, options: CompareOptions): MetricDelta {
+  const grew = baseline > 0 && ((current - baseline) / baseline) * 100 > options.tolerance;
+  const slower = test !== undefined && test.significant && test.effectSize > 0.5;
+  return delta(metric, baseline, current, grew && slower, grew && test === undefined);
+}
+
+function errorRateDelta(baseline: number, current: number, options: CompareOptions): MetricDelta {
+  return delta('errorRate', baseline, current, current - baseline > options.errorTolerance);
+}
+
+/**
+ * Compare a current run against a baseline run
+ */
+export function compareRuns(baseline: ExportedRun, current: ExportedRun, options: CompareOptions = DEFAULT_COMPARE_OPTIONS): ComparisonResult {
+  const test = mannWhitneyU(latencySamples(baseline), latencySamples(current), options.alpha);
+  const b = baseline.summary;
+  const c = current.summary;
+
+  const summary = [
+    delta('totalRequests', b.totalRequests, c.totalRequests, false),
+    latencyDelta('avg', b.averageResponseTime, c.averageResponseTime, test, options),
+    latencyDelta('p50', b.p50ResponseTime, c.p50ResponseTime, test, options),
+    latencyDelta('p95', b.p95ResponseTime, c.p95ResponseTime, test, options),
+    latencyDelta('p99', b.p99ResponseTime, c.p99ResponseTime, test, options),
+    delta('min', b.minResponseTime, c.minResponseTime, false),
+    delta('max', b.maxResponseTime, c.maxResponseTime, false),
+    errorRateDelta(b.errorRate, c.errorRate, options)
+  ];
+
+  const endpoints: EndpointComparison[] = [];
+  const paths = new Set([...Object.keys(baseline.endpointBreakdown), ...Object.keys(current.endpointBreakdown)]);
+
+  for (const endpoint of paths) {
+    const before = baseline.endpointBreakdown[endpoint];
+    const after = current.endpointBreakdown[endpoint];
+    if (!before || !after) {
+      endpoints.push({ endpoint, deltas: [] });
+      continue;
+    }
+
+    const endpointTest = mannWhitneyU(latencySamples(baseline, endpoint), latencySamples(current, endpoint), options.alpha);
+    endpoints.push({
+      endpoint,
+      test: endpointTest,
+      deltas: [
+        delta('requests', before.requests, after.requests, false),
+        latencyDelta('avg', before.avgResponseTime, after.avgResponseTime, endpointTest, options),
+        latencyDelta('p95', before.p95ResponseTime, after.p95ResponseTime, endpointTest, options),
+        errorRateDelta(100 - before.successRate, 100 - after.successRate, options)
+      ]
+    });
+  }
+
+  const describe = (matches: (d: MetricDelta) => boolean | undefined) => [
+    ...summary.filter(matches).map(d => `${d.metric}: ${formatDelta(d)}`),
+    ...endpoints.flatMap(e => e.deltas.filter(matches).map(d => `${e.endpoint} ${d.metric}: ${formatDelta(d)}`))
+  ];
+
+  return {
+    options,
+    summary,
+    test,
+    endpoints,
+    regressions: describe(d => d.regression),
+    inconclusive: describe(d => d.insufficientSamples)
+  };
+}
+
+/**
+ * Read an export written by `exportResults`
+ */
+export async function loadExportedRun(path: string): Promise<ExportedRun> {
+  let run: ExportedRun;
+  try {
+    run = JSON.parse(await Deno.readTextFile(path));
+  } catch (error) {
+    throw new Error(`Cannot read export ${path}: ${(error as Error).message}`);
+  }
+
+  if (!run || typeof run !== 'object' || !run.summary || !run.endpointBreakdown) {
+    throw new Error(`${path} is not a performance test export (missing summary or endpointBreakdown)`);
+  }
+  return run;
+}
+
+// ============================================
+// 🖨️ DISPLAY
+// ============================================
+
+function formatValue(metric: string, value: number): string {
+  if (metric === 'errorRate') return `${value.toFixed(2)}%`;
+  if (metric === 'totalRequests' || metric === 'requests') return value.toLocaleString();
+  return `${value.toFixed(1)}ms`;
+}
+
+function formatDelta(d: MetricDelta): string {
+  const sign = d.delta >= 0 ? '+' : '';
+  const change = d.metric === 'errorRate'
+    ? `${sign}${d.delta.toFixed(2)} pts`
+    : `${sign}${d.deltaPercent.toFixed(1)}%`;
+  return `${formatValue(d.metric, d.baseline)} → ${formatValue(d.metric, d.current)} (${change})`;
+}
+
+function describeTest(test: MannWhitneyResult | undefined): string {
+  if (!test) return 'not enough samples';
+  const direction = test.effectSize > 0.5 ? 'slower' : 'faster';
+  return test.significant
+    ? `significantly ${direction} (p=${test.pValue.toFixed(4)}, P(current > baseline)=${test.effectSize.toFixed(2)})`
+    : `no significant difference (p=${test.pValue.toFixed(4)})`;
+}
+
+export function displayComparison(result: ComparisonResult, baselineName: string, currentName: string): void {
+  console.log('\n' + '='.repeat(80));
+  console.log('🔍 DENOGENESIS PERFORMANCE COMPARISON');
+  console.log('='.repeat(80));
+  console.log(`📁 Baseline: ${baselineName}`);
+  console.log(`📁 Current:  ${currentName}`);
+  console.log(`⚖️  Tolerance: +${result.options.tolerance}% latency, +${result.options.errorTolerance} pts error rate, α=${result.options.alpha}`);
+
+  console.log('\n📈 SUMMARY:');
+  console.log('─'.repeat(60));
+  for (const d of result.summary) {
+    console.log(`${d.regression ? '❌' : d.insufficientSamples ? '⚠️ ' : '  '} ${d.metric.padEnd(14)} ${formatDelta(d)}`);
+  }
+  console.log(`📊 Mann-Whitney U: ${describeTest(result.test)}`);
+
+  console.log('\n🎯 ENDPOINTS:');
+  console.log('─'.repeat(60));
+  for (const endpoint of result.endpoints) {
+    if (endpoint.deltas.length === 0) {
+      console.log(`${endpoint.endpoint} - only present in one run`);
+      continue;
+    }
+    const regressed = endpoint.deltas.some(d => d.regression);
+    console.log(`${regressed ? '❌' : '✅'} ${endpoint.endpoint} - ${describeTest(endpoint.test)}`);
+    for (const d of endpoint.deltas) {
+      console.log(`   ${d.metric.padEnd(10)} ${formatDelta(d)}`);
+    }
+  }
+
+  console.log('\n🚦 RESULT:');
+  console.log('─'.repeat(60));
+  if (result.regressions.length === 0) {
+    console.log('✅ No significant regressions beyond tolerance');
+  } else {
+    console.log(`❌ ${result.regressions.length} regression(s) beyond tolerance:`);
+    result.regressions.forEach(regression => console.log(`   ${regression}`));
+  }
+  if (result.inconclusive.length > 0) {
+    console.log(`⚠️  ${result.inconclusive.length} increase(s) beyond tolerance with insufficient samples to test:`);
+    result.inconclusive.forEach(increase => console.log(`   ${increase}`));
+  }
+  console.log('\n' + '='.repeat(80));
+}
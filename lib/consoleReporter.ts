@@ -0,0 +1,295 @@
+// lib/consoleReporter.ts
+// ============================================
+// 🖨️ Console report
+// The formatted end-of-run summary
+// ============================================
+
+import { describeUsage, saturatedGenerators } from './environment.ts';
+import { ERROR_CLASS_LABELS } from './errors.ts';
+import { formatMetric } from './thresholds.ts';
+import type { ErrorClassSummary, PerformanceReport } from './types.ts';
+
+/**
+ * Display formatted performance report
+ */
+export function displayReport(report: PerformanceReport): void {
+  console.log('\n' + '='.repeat(80));
+  console.log('📊 DENOGENESIS PERFORMANCE REPORT');
+  console.log('='.repeat(80));
+
+  // Summary section
+  console.log('\n📈 PERFORMANCE SUMMARY:');
+  console.log('─'.repeat(60));
+  console.log(`📋 Total Requests: ${report.summary.totalRequests.toLocaleString()}`);
+  console.log(`⚡ Average Response Time: ${report.summary.averageResponseTime.toFixed(1)}ms`);
+  console.log(`📊 50th Percentile (Median): ${report.summary.p50ResponseTime.toFixed(1)}ms`);
+  console.log(`📊 95th Percentile: ${report.summary.p95ResponseTime.toFixed(1)}ms`);
+  console.log(`📊 99th Percentile: ${report.summary.p99ResponseTime.toFixed(1)}ms`);
+  if (report.summary.percentiles?.['p99.9'] !== undefined) {
+    console.log(`📊 99.9th Percentile: ${report.summary.percentiles['p99.9'].toFixed(1)}ms`);
+  }
+  if (report.summary.stdDevResponseTime !== undefined) {
+    console.log(`📐 Standard Deviation: ${report.summary.stdDevResponseTime.toFixed(1)}ms`);
+  }
+  console.log(`🏃 Fastest Response: ${report.summary.minResponseTime.toFixed(1)}ms`);
+  console.log(`🐌 Slowest Response: ${report.summary.maxResponseTime.toFixed(1)}ms`);
+  console.log(`✅ Success Rate: ${report.summary.successRate.toFixed(2)}%`);
+  console.log(`❌ Error Rate: ${report.summary.errorRate.toFixed(2)}%`);
+  if (report.summary.cancelledRequests) {
+    console.log(`⏹️  Cancelled at end of run: ${report.summary.cancelledRequests} (excluded)`);
+  }
+
+  // Endpoint breakdown
+  console.log('\n🎯 ENDPOINT BREAKDOWN:');
+  console.log('─'.repeat(96));
+  console.log('| Endpoint                   | Requests | Avg Time | P95 Time | Success |      Met |    Unexp |');
+  console.log('─'.repeat(96));
+
+  for (const [endpoint, stats] of Object.entries(report.endpointBreakdown)) {
+    const endpointDisplay = endpoint.length > 26 ? endpoint.substring(0, 23) + '...' : endpoint.padEnd(26);
+    const requestsDisplay = stats.requests.toString().padStart(8);
+    const avgDisplay = `${stats.avgResponseTime.toFixed(1)}ms`.padStart(8);
+    const p95Display = `${stats.p95ResponseTime.toFixed(1)}ms`.padStart(8);
+    const successDisplay = `${stats.successRate.toFixed(1)}%`.padStart(7);
+    const metDisplay = stats.expectedResponses.toString().padStart(8);
+    const unexpectedDisplay = stats.unexpectedResponses.toString().padStart(8);
+
+    console.log(`| ${endpointDisplay} | ${requestsDisplay} | ${avgDisplay} | ${p95Display} | ${successDisplay} | ${metDisplay} | ${unexpectedDisplay} |`);
+  }
+  console.log('─'.repeat(96));
+
+  // Unexpected responses
+  const unexpected = Object.entries(report.endpointBreakdown).filter(([, stats]) => stats.unexpectedResponses > 0);
+  if (unexpected.length > 0) {
+    console.log('\n⚠️  UNEXPECTED RESPONSES:');
+    console.log('─'.repeat(60));
+    for (const [endpoint, stats] of unexpected) {
+      for (const [reason, count] of Object.entries(stats.unexpectedReasons)) {
+        console.log(`${endpoint} - ${reason} (${count}x)`);
+      }
+    }
+  }
+
+  // Open-model arrival rate
+  if (report.arrivalRate) {
+    const rate = report.arrivalRate;
+    console.log('\n🚦 ARRIVAL RATE:');
+    console.log('─'.repeat(60));
+    console.log(`🎯 Target Rate: ${rate.targetRps.toFixed(1)} req/s`);
+    console.log(`⚡ Achieved Rate: ${rate.achievedRps.toFixed(1)} req/s (${((rate.achievedRps / rate.targetRps) * 100).toFixed(1)}% of target)`);
+    console.log(`📋 Scheduled: ${rate.scheduled} | Sent: ${rate.sent} | Queued: ${rate.queued} | Dropped: ${rate.dropped}`);
+    if (rate.queued > 0 || rate.dropped > 0) {
+      console.log(`⚠️  In-flight limit (${rate.maxInFlight}) reached - latency includes queueing delay`);
+    }
+  }
+
+  // Distributed runs
+  if (report.workers) {
+    console.log('\n🛰️ WORKERS:');
+    console.log('─'.repeat(60));
+    for (const worker of report.workers) {
+      const share = (worker.requests / report.summary.totalRequests) * 100;
+      console.log(`🖥️  ${worker.address} - ${worker.requests.toLocaleString()} requests (${share.toFixed(1)}%), clock offset ${worker.clockOffsetMs.toFixed(1)}ms`);
+      if (worker.loadGenerator) {
+        console.log(`   ${describeUsage(worker.loadGenerator)}`);
+      }
+    }
+    for (const worker of report.workers.filter(worker => worker.loadGenerator?.saturated)) {
+      console.log(`⚠️  ${worker.address} was saturated: ${worker.loadGenerator!.warnings.join('; ')}`);
+    }
+  }
+
+  // The load generator's own resource use
+  if (report.loadGenerator) {
+    console.log('\n🖥️  LOAD GENERATOR:');
+    console.log('─'.repeat(60));
+    console.log(describeUsage(report.loadGenerator));
+    if (report.loadGenerator.saturated) {
+      console.log(`⚠️  Load generator saturated: ${report.loadGenerator.warnings.join('; ')}`);
+      console.log('⚠️  Response times include time spent waiting on this process - lower the load or add --workers');
+    }
+  }
+
+  // Multi-step user journeys
+  if (report.journeys) {
+    console.log('\n🧭 JOURNEYS:');
+    console.log('─'.repeat(80));
+    for (const [name, journey] of Object.entries(report.journeys)) {
+      console.log(
+        `${journey.completionRate === 100 ? '✅' : '⚠️ '} ${name} - ${journey.completed}/${journey.runs} completed (${journey.completionRate.toFixed(1)}%) | ` +
+        `Avg: ${journey.avgDuration.toFixed(1)}ms | P50: ${journey.p50Duration.toFixed(1)}ms | P95: ${journey.p95Duration.toFixed(1)}ms | P99: ${journey.p99Duration.toFixed(1)}ms`
+      );
+      for (const [step, stats] of Object.entries(journey.steps)) {
+        const failed = journey.failedAt[step] ? ` ❌ stopped ${journey.failedAt[step]}x` : '';
+        console.log(
+          `   ${step.padEnd(40)} ${stats.requests.toString().padStart(6)} req | ` +
+          `Avg ${`${stats.avgResponseTime.toFixed(1)}ms`.padStart(8)} | P95 ${`${stats.p95ResponseTime.toFixed(1)}ms`.padStart(8)} | ` +
+          `${stats.successRate.toFixed(1)}%${failed}`
+        );
+      }
+    }
+  }
+
+  // Long-lived WebSocket and SSE connections
+  if (report.streams) {
+    console.log('\n🔌 STREAMS:');
+    console.log('─'.repeat(80));
+    for (const [endpoint, stream] of Object.entries(report.streams)) {
+      const label = stream.type === 'websocket' ? 'WebSocket' : 'SSE';
+      console.log(
+        `${stream.disconnects === 0 && stream.connected === stream.connections ? '✅' : '⚠️ '} ${endpoint} (${label}) - ` +
+        `${stream.connected}/${stream.connections} connected | Peak open: ${stream.peakOpen} | Disconnects: ${stream.disconnects}`
+      );
+      const { connectTime, latency } = stream;
+      if (connectTime.count > 0) console.log(`   Connect: Avg ${connectTime.avg.toFixed(1)}ms | P95 ${connectTime.p95.toFixed(1)}ms | P99 ${connectTime.p99.toFixed(1)}ms`);
+      const messages = stream.type === 'websocket'
+        ? `${stream.messagesSent.toLocaleString()} sent, ${stream.messagesReceived.toLocaleString()} received`
+        : `${stream.messagesReceived.toLocaleString()} events`;
+      console.log(`   Messages: ${messages}`);
+      if (latency) {
+        console.log(`   Latency: Avg ${latency.avg.toFixed(1)}ms | P50 ${latency.p50.toFixed(1)}ms | P95 ${latency.p95.toFixed(1)}ms | P99 ${latency.p99.toFixed(1)}ms`);
+      }
+    }
+  }
+
+  // Attempts that failed and were tried again
+  if (report.retries) {
+    const { retriedRequests, recovered, retryAttempts, reasons } = report.retries;
+    console.log('\n🔁 RETRIES:');
+    console.log('─'.repeat(60));
+    console.log(`🔁 Retried Requests: ${retriedRequests} | Recovered: ${recovered} | Retry Attempts: ${retryAttempts}`);
+    for (const [reason, count] of Object.entries(reasons)) {
+      console.log(`   ${reason} (${count}x)`);
+    }
+  }
+
+  // Requests that never got a response
+  if (report.errors) {
+    const { total, serverErrors, byClass } = report.errors;
+    console.log('\n🧯 ERRORS:');
+    console.log('─'.repeat(60));
+    console.log(`🔌 No response: ${total} request(s) | 🔥 Server 5xx responses: ${serverErrors}`);
+    for (const [errorClass, error] of Object.entries(byClass) as [keyof typeof ERROR_CLASS_LABELS, ErrorClassSummary][]) {
+      console.log(`${ERROR_CLASS_LABELS[errorClass]} (${error.count}x)`);
+      for (const [endpoint, count] of Object.entries(error.endpoints)) {
+        console.log(`   ${endpoint} - ${count}x`);
+      }
+      for (const message of error.sampleMessages) {
+        console.log(`   ↳ ${message}`);
+      }
+    }
+  }
+
+  // Where the time goes: network vs. server
+  if (report.timingPhases) {
+    const { phases, connectionReuseRate } = report.timingPhases;
+    console.log('\n⏱️  TIMING PHASES:');
+    console.log('─'.repeat(60));
+    console.log('| Phase    | Avg Time | P50 Time | P95 Time | P99 Time |');
+    console.log('─'.repeat(60));
+    for (const [phase, stats] of Object.entries(phases)) {
+      console.log(
+        `| ${phase.padEnd(8)} | ${`${stats.avg.toFixed(1)}ms`.padStart(8)} | ${`${stats.p50.toFixed(1)}ms`.padStart(8)} | ` +
+        `${`${stats.p95.toFixed(1)}ms`.padStart(8)} | ${`${stats.p99.toFixed(1)}ms`.padStart(8)} |`
+      );
+    }
+    console.log('─'.repeat(60));
+    if (connectionReuseRate !== undefined) {
+      console.log(`🔁 Connection Reuse: ${connectionReuseRate.toFixed(1)}% of requests`);
+    }
+  }
+
+  // Warm-up and first requests
+  if (report.warmup) {
+    const { warmup } = report;
+    console.log('\n🔥 WARM-UP (not included above):');
+    console.log('─'.repeat(60));
+    console.log(`📋 ${warmup.requests} requests in ${(warmup.durationMs / 1000).toFixed(1)}s - avg ${warmup.avgResponseTime.toFixed(1)}ms, ` +
+      `p95 ${warmup.p95ResponseTime.toFixed(1)}ms, success ${warmup.successRate.toFixed(1)}%` +
+      (warmup.retryAttempts ? `, ${warmup.retryAttempts} retries` : ''));
+  }
+
+  if (report.coldStart) {
+    const { cold, warm, avgPenaltyMs, endpoints } = report.coldStart;
+    console.log('\n🧊 COLD VS WARM:');
+    console.log('─'.repeat(75));
+    console.log('| Endpoint                   |     Cold | Warm P50 |  Penalty | Warm Reqs |');
+    console.log('─'.repeat(75));
+    for (const [endpoint, stats] of Object.entries(endpoints)) {
+      const warmP50 = stats.warmP50ResponseTime !== undefined ? `${stats.warmP50ResponseTime.toFixed(1)}ms` : '-';
+      const penalty = stats.penaltyMs !== undefined ? `${stats.penaltyMs >= 0 ? '+' : ''}${stats.penaltyMs.toFixed(1)}ms` : '-';
+      const endpointDisplay = endpoint.length > 26 ? endpoint.substring(0, 23) + '...' : endpoint.padEnd(26);
+      console.log(
+        `| ${endpointDisplay} | ${`${stats.coldResponseTime.toFixed(1)}ms`.padStart(8)} | ${warmP50.padStart(8)} | ` +
+        `${penalty.padStart(8)} | ${String(stats.warmRequests).padStart(9)} |`
+      );
+    }
+    console.log('─'.repeat(75));
+    console.log(`🧊 Cold (first request per endpoint): p50 ${cold.p50.toFixed(1)}ms, avg ${cold.avg.toFixed(1)}ms`);
+    console.log(`🔥 Warm (steady state): p50 ${warm.p50.toFixed(1)}ms, avg ${warm.avg.toFixed(1)}ms`);
+    if (avgPenaltyMs !== undefined) {
+      console.log(`📐 A first request took ${avgPenaltyMs.toFixed(1)}ms longer than its endpoint's warm p50, on average`);
+    }
+  }
+
+  // Staged load profile
+  if (report.stages) {
+    const unit = report.stages.unit === 'users' ? 'users' : 'req/s';
+    console.log('\n📈 STAGE BREAKDOWN:');
+    console.log('─'.repeat(80));
+    console.log('| Stage | Target              | Requests |  Req/s | Avg Time | P95 Time | Errors |');
+    console.log('─'.repeat(80));
+
+    for (const stage of report.stages.summaries) {
+      const targetDisplay = `${stage.startTarget}→${stage.target} ${unit}`.padEnd(19);
+      const marker = stage.breaches.length > 0 ? ' ❌' : '';
+      console.log(
+        `| ${stage.stage.toString().padStart(5)} | ${targetDisplay} | ${stage.requests.toString().padStart(8)} | ` +
+        `${stage.throughput.toFixed(1).padStart(6)} | ${`${stage.avgResponseTime.toFixed(1)}ms`.padStart(8)} | ` +
+        `${`${stage.p95ResponseTime.toFixed(1)}ms`.padStart(8)} | ${`${stage.errorRate.toFixed(1)}%`.padStart(6)} |${marker}`
+      );
+    }
+    console.log('─'.repeat(80));
+
+    const first = report.stages.summaries.find(stage => stage.stage === report.stages!.firstBreachingStage);
+    if (first) {
+      console.log(`🔥 First breaking stage: ${first.stage} (${first.startTarget}→${first.target} ${unit}) - ${first.breaches.join(', ')}`);
+    } else {
+      console.log('✅ No stage exceeded the latency or error limits');
+    }
+  }
+
+  // Pass/fail thresholds
+  if (report.thresholds) {
+    const failed = report.thresholds.filter(t => !t.passed).length;
+    console.log('\n🚦 THRESHOLDS:');
+    console.log('─'.repeat(60));
+    for (const threshold of report.thresholds) {
+      const actual = threshold.actual !== undefined
+        ? formatMetric(threshold.metric, threshold.actual)
+        : 'no requests';
+      console.log(`${threshold.passed ? '✅' : '❌'} ${threshold.expression} (actual: ${actual})`);
+    }
+    console.log(failed === 0
+      ? `✅ All ${report.thresholds.length} thresholds passed`
+      : `❌ ${failed} of ${report.thresholds.length} thresholds failed`);
+  }
+
+  // Recommendations
+  console.log('\n💡 RECOMMENDATIONS:');
+  console.log('─'.repeat(60));
+  report.recommendations.forEach(rec => console.log(rec));
+
+  // Cambridge validation section
+  console.log('\n🎓 CAMBRIDGE VALIDATION DATA:');
+  console.log('─'.repeat(60));
+  console.log(`📊 Framework Performance: ${report.summary.averageResponseTime < 100 ? 'SUB-100MS VALIDATED ✅' : 'ABOVE 100MS ⚠️'}`);
+  console.log(`⚡ Production Ready: ${report.summary.successRate > 99 ? 'ENTERPRISE GRADE ✅' : 'DEVELOPMENT GRADE'}`);
+  // Saturated generators skew the timings, so they can't validate anything
+  const saturated = saturatedGenerators(report);
+  console.log(saturated.length === 0
+    ? `🎯 Academic Evidence: EMPIRICAL VALIDATION COMPLETE ✅`
+    : `🎯 Academic Evidence: INCONCLUSIVE ⚠️ (${saturated.map(({ name }) => name).join(', ')} saturated)`);
+
+  console.log('\n' + '='.repeat(80));
+}
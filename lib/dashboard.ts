@@ -0,0 +1,290 @@
+// lib/dashboard.ts
+// ============================================
+// 🖥️ Live terminal dashboard
+// Plain ANSI, redrawn once a second
+// ============================================
+
+import type { ResultAggregator } from './aggregator.ts';
+import { LatencyHistogram } from './histogram.ts';
+import type { PerformanceMetric } from './types.ts';
+
+export interface DashboardOptions {
+  title: string;
+  target: string;
+  label?: string;                // Prefixes plain lines when several runs share the output
+  durationSeconds?: number;      // Omit for open-ended runs (monitor)
+  interactive?: boolean;         // Full-screen redraws (default: stdout is a terminal)
+  plainLines?: boolean;          // Print a summary line every few seconds when not interactive (default true)
+  exitOnInterrupt?: boolean;     // Interactive: Ctrl+C restores the terminal and exits (default true); false when the run stops on Ctrl+C itself
+  footer?: string;
+}
+
+/**
+ * Run state the dashboard cannot see in the results
+ */
+export interface DashboardStatus {
+  activeUsers?: number;
+  inFlight?: number;
+  queued?: number;
+  dropped?: number;
+  stage?: string;                // e.g. "2/3 (10→50 users)"
+  alerts?: string[];             // Monitor mode: alert rules currently firing
+}
+
+interface SecondBucket {
+  second: number;
+  requests: number;
+  failures: number;
+  endpoints: Map<string, number>;
+}
+
+const ROLLING_WINDOW_SECONDS = 10;
+const RPS_HISTORY_SECONDS = 60;
+const PLAIN_LINE_INTERVAL_SECONDS = 5;
+const SPARK_CHARS = '▁▂▃▄▅▆▇█';
+
+const ESC = '\x1b[';
+const ENTER_SCREEN = `${ESC}?1049h${ESC}?25l`;  // Alternate screen, hide cursor
+const LEAVE_SCREEN = `${ESC}?25h${ESC}?1049l`;
+const HOME = `${ESC}H`;
+const CLEAR_LINE = `${ESC}K`;
+const CLEAR_BELOW = `${ESC}J`;
+
+// Conventional status for a process ended by SIGINT
+const INTERRUPTED_EXIT_CODE = 130;
+
+const encoder = new TextEncoder();
+
+function formatClock(seconds: number): string {
+  const whole = Math.max(0, Math.floor(seconds));
+  const minutes = Math.floor(whole / 60);
+  return `${minutes.toString().padStart(2, '0')}:${(whole % 60).toString().padStart(2, '0')}`;
+}
+
+function sparkline(values: number[]): string {
+  const max = Math.max(...values, 1);
+  return values.map(value => SPARK_CHARS[Math.min(SPARK_CHARS.length - 1, Math.floor((value / max) * (SPARK_CHARS.length - 1)))]).join('');
+}
+
+function progressBar(fraction: number, width = 30): string {
+  const filled = Math.round(Math.min(1, Math.max(0, fraction)) * width);
+  return '█'.repeat(filled) + '░'.repeat(width - filled);
+}
+
+/**
+ * Live view of a running test: per-second throughput, rolling latency
+ * percentiles and error rate, and a per-endpoint table. Draws full-screen
+ * with plain ANSI escapes on a terminal and falls back to one summary line
+ * every few seconds otherwise (pipes, CI logs).
+ */
+export class LiveDashboard {
+  readonly interactive: boolean;
+
+  private readonly options: DashboardOptions;
+  private readonly startTime = performance.now();
+  private readonly buckets: SecondBucket[] = [];
+  // One histogram per second of the rolling window, reused as the window moves
+  private readonly windowHistograms = Array.from({ length: ROLLING_WINDOW_SECONDS }, () => new LatencyHistogram({ significantDigits: 2 }));
+  private readonly windowSeconds = new Array<number>(ROLLING_WINDOW_SECONDS).fill(-1);
+  private status: DashboardStatus = {};
+  private timer?: ReturnType<typeof setInterval>;
+  private onInterrupt?: () => void;
+  private lastPlainLine = 0;
+
+  constructor(private readonly results: ResultAggregator, options: DashboardOptions) {
+    this.options = options;
+    this.interactive = options.interactive ?? Deno.stdout.isTerminal();
+  }
+
+  private get elapsedSeconds(): number {
+    return (performance.now() - this.startTime) / 1000;
+  }
+
+  start(): void {
+    if (this.interactive) {
+      Deno.stdout.writeSync(encoder.encode(ENTER_SCREEN));
+      // Otherwise Ctrl+C would leave the shell on the alternate screen with no cursor
+      if (this.options.exitOnInterrupt ?? true) {
+        this.onInterrupt = () => {
+          this.stop();
+          Deno.exit(INTERRUPTED_EXIT_CODE);
+        };
+        Deno.addSignalListener('SIGINT', this.onInterrupt);
+      }
+    }
+    this.timer = setInterval(() => this.tick(), 1000);
+  }
+
+  /**
+   * Stop redrawing and restore the terminal so the final report prints normally
+   */
+  stop(): void {
+    if (this.timer === undefined) return;
+    clearInterval(this.timer);
+    this.timer = undefined;
+    if (this.onInterrupt) {
+      Deno.removeSignalListener('SIGINT', this.onInterrupt);
+      this.onInterrupt = undefined;
+    }
+    if (this.interactive) {
+      Deno.stdout.writeSync(encoder.encode(LEAVE_SCREEN));
+    }
+  }
+
+  update(status: DashboardStatus): void {
+    this.status = { ...this.status, ...status };
+  }
+
+  observe(metric: PerformanceMetric): void {
+    const second = Math.floor(this.elapsedSeconds);
+
+    let bucket = this.buckets.at(-1);
+    if (!bucket || bucket.second !== second) {
+      bucket = { second, requests: 0, failures: 0, endpoints: new Map() };
+      this.buckets.push(bucket);
+      while (this.buckets.length > 0 && this.buckets[0].second <= second - RPS_HISTORY_SECONDS) {
+        this.buckets.shift();
+      }
+    }
+    bucket.requests++;
+    if (!metric.expectationMet) bucket.failures++;
+    bucket.endpoints.set(metric.endpoint, (bucket.endpoints.get(metric.endpoint) ?? 0) + 1);
+
+    const slot = second % ROLLING_WINDOW_SECONDS;
+    if (this.windowSeconds[slot] !== second) {
+      this.windowHistograms[slot].reset();
+      this.windowSeconds[slot] = second;
+    }
+    this.windowHistograms[slot].record(metric.responseTime);
+  }
+
+  // ============================================
+  // 📐 ROLLING STATISTICS
+  // ============================================
+
+  private rolling() {
+    const now = Math.floor(this.elapsedSeconds);
+
+    // Percentiles include the current second so they react immediately
+    const histogram = new LatencyHistogram({ significantDigits: 2 });
+    this.windowHistograms.forEach((slot, i) => {
+      if (this.windowSeconds[i] > now - ROLLING_WINDOW_SECONDS && this.windowSeconds[i] <= now) histogram.merge(slot);
+    });
+
+    // Rates use completed seconds only; the current one is still filling up
+    const windowSeconds = Math.max(1, Math.min(ROLLING_WINDOW_SECONDS, now));
+    const recent = this.buckets.filter(bucket => bucket.second >= now - windowSeconds && bucket.second < now);
+    const requests = recent.reduce((sum, bucket) => sum + bucket.requests, 0);
+    const failures = recent.reduce((sum, bucket) => sum + bucket.failures, 0);
+    const endpointRps = new Map<string, number>();
+    for (const bucket of recent) {
+      for (const [endpoint, count] of bucket.endpoints) {
+        endpointRps.set(endpoint, (endpointRps.get(endpoint) ?? 0) + count / windowSeconds);
+      }
+    }
+
+    const history: number[] = [];
+    for (let second = Math.max(0, now - RPS_HISTORY_SECONDS); second < now; second++) {
+      history.push(this.buckets.find(bucket => bucket.second === second)?.requests ?? 0);
+    }
+
+    return {
+      histogram,
+      errorRate: requests > 0 ? (failures / requests) * 100 : 0,
+      currentRps: history.at(-1) ?? 0,
+      history,
+      endpointRps
+    };
+  }
+
+  // ============================================
+  // 🖨️ RENDERING
+  // ============================================
+
+  private tick(): void {
+    if (this.interactive) {
+      this.draw();
+    } else if (this.options.plainLines !== false && this.elapsedSeconds - this.lastPlainLine >= PLAIN_LINE_INTERVAL_SECONDS) {
+      this.lastPlainLine = this.elapsedSeconds;
+      console.log(this.plainLine());
+    }
+  }
+
+  private statusParts(): string[] {
+    const { activeUsers, inFlight, queued, dropped, stage, alerts } = this.status;
+    return [
+      ...(alerts?.length ? [`🚨 Firing: ${alerts.join(', ')}`] : []),
+      ...(stage !== undefined ? [`Stage ${stage}`] : []),
+      ...(activeUsers !== undefined ? [`👥 Users: ${activeUsers}`] : []),
+      ...(inFlight !== undefined ? [`🔀 In flight: ${inFlight}`] : []),
+      ...(queued !== undefined ? [`⏳ Queued: ${queued}`] : []),
+      ...(dropped !== undefined ? [`🗑️  Dropped: ${dropped}`] : []),
+      ...(this.results.streams.size > 0 ? [`🔌 Open streams: ${this.results.openStreams}`] : [])
+    ];
+  }
+
+  private plainLine(): string {
+    const { histogram, errorRate, currentRps } = this.rolling();
+    const duration = this.options.durationSeconds !== undefined ? `/${formatClock(this.options.durationSeconds)}` : '';
+    const label = this.options.label ? `[${this.options.label}] ` : '';
+    return `${label}[${formatClock(this.elapsedSeconds)}${duration}] ` + [
+      `${currentRps} req/s`,
+      `p50 ${histogram.percentile(50).toFixed(1)}ms p95 ${histogram.percentile(95).toFixed(1)}ms p99 ${histogram.percentile(99).toFixed(1)}ms`,
+      `errors ${errorRate.toFixed(1)}%`,
+      ...this.statusParts(),
+      `${this.results.totalRequests.toLocaleString()} requests`
+    ].join(' | ');
+  }
+
+  private draw(): void {
+    const { columns, rows } = Deno.consoleSize();
+    const { histogram, errorRate, currentRps, history, endpointRps } = this.rolling();
+    const elapsed = this.elapsedSeconds;
+    const total = this.results.totalRequests;
+    const successRate = total > 0 ? (this.results.successCount / total) * 100 : 0;
+
+    const lines: string[] = [];
+    lines.push(`${this.options.title} - ${this.options.target}`);
+    lines.push('═'.repeat(Math.min(columns, 96)));
+
+    if (this.options.durationSeconds !== undefined) {
+      const fraction = elapsed / this.options.durationSeconds;
+      lines.push(`⏱️  ${formatClock(elapsed)} / ${formatClock(this.options.durationSeconds)}  [${progressBar(fraction)}] ${(Math.min(1, fraction) * 100).toFixed(1)}%`);
+    } else {
+      lines.push(`⏱️  ${formatClock(elapsed)} elapsed`);
+    }
+    const status = this.statusParts();
+    if (status.length > 0) lines.push(status.join('   '));
+
+    lines.push('');
+    lines.push(`⚡ RPS: ${currentRps.toString().padStart(5)} now | ${(total / Math.max(elapsed, 1)).toFixed(1)} avg`);
+    lines.push(`   ${sparkline(history.length > 0 ? history : [0])}`);
+    lines.push(
+      `📊 Last ${ROLLING_WINDOW_SECONDS}s: p50 ${histogram.percentile(50).toFixed(1)}ms | p95 ${histogram.percentile(95).toFixed(1)}ms | ` +
+      `p99 ${histogram.percentile(99).toFixed(1)}ms | errors ${errorRate.toFixed(1)}%`
+    );
+    lines.push(`📋 Total: ${total.toLocaleString()} requests | ✅ ${successRate.toFixed(1)}% success`);
+
+    lines.push('');
+    lines.push('| Endpoint                   |  Req/s | Requests | Avg Time | P95 Time | Errors |');
+    lines.push('─'.repeat(Math.min(columns, 82)));
+    const endpoints = [...this.results.endpoints].sort((a, b) => b[1].requests - a[1].requests);
+    for (const [endpoint, stats] of endpoints) {
+      const errorPercent = ((stats.requests - stats.successCount) / stats.requests) * 100;
+      lines.push(
+        `| ${endpoint.slice(0, 26).padEnd(26)} | ${(endpointRps.get(endpoint) ?? 0).toFixed(1).padStart(6)} | ` +
+        `${stats.requests.toString().padStart(8)} | ${`${stats.histogram.mean.toFixed(1)}ms`.padStart(8)} | ` +
+        `${`${stats.histogram.percentile(95).toFixed(1)}ms`.padStart(8)} | ${`${errorPercent.toFixed(1)}%`.padStart(6)} |`
+      );
+    }
+
+    if (this.options.footer) {
+      lines.push('');
+      lines.push(this.options.footer);
+    }
+
+    // Redraw in place: overwrite each line, then clear whatever is left below
+    const visible = lines.slice(0, Math.max(1, rows - 1)).map(line => line.slice(0, columns) + CLEAR_LINE);
+    Deno.stdout.writeSync(encoder.encode(HOME + visible.join('\n') + '\n' + CLEAR_BELOW));
+  }
+}
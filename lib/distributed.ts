@@ -0,0 +1,325 @@
+// lib/distributed.ts
+// ============================================
+// 🛰️ Distributed load generation
+// A coordinator splits a run across worker processes and merges their results
+// ============================================
+
+import type { SerializedResults } from './aggregator.ts';
+import type { EnvironmentFingerprint, ResourceUsage } from './environment.ts';
+import { delay, type RetryPolicy } from './retry.ts';
+import type { Scenario } from './scenario.ts';
+import type { LoadStage } from './stages.ts';
+
+export const DEFAULT_WORKER_PORT = 7700;
+
+// Lead time for every worker to receive its job before the common start
+const START_DELAY_MS = 1000;
+
+// Round trips per worker when measuring its clock; the fastest one is used
+const CLOCK_SAMPLES = 3;
+
+// Local workers may have to fetch dependencies on their first start
+const WORKER_STARTUP_TIMEOUT_MS = 30_000;
+
+export type DistributedMode = 'load' | 'rate';
+
+/**
+ * A whole run as the coordinator was asked for it; stage targets, users and
+ * rates are totals across all workers
+ */
+export interface DistributedRun {
+  mode: DistributedMode;
+  durationSeconds: number;
+  users?: number;        // Load mode
+  rps?: number;          // Rate mode
+  maxInFlight?: number;  // Rate mode
+  stages?: LoadStage[];
+  phaseMs?: number;      // Rate mode: how much later this worker's arrivals start, so workers take turns
+}
+
+/**
+ * Suite options a worker needs. Reporting and thresholds stay with the
+ * coordinator, which reports on the merged results.
+ */
+export interface WorkerOptions {
+  scenario?: Scenario;
+  groups?: string[];
+  maxSamples?: number;
+  histogramPrecision?: number;
+  detailedTiming?: boolean;
+  timeoutMs?: number;
+  retry?: Partial<RetryPolicy>;
+  seed: string;   // Derived per worker, so a run can be reproduced with the same worker count
+  label: string;  // e.g. "worker 2", on the worker's status lines
+}
+
+/**
+ * One worker's share of a run
+ */
+export interface WorkerJob extends DistributedRun {
+  baseUrl: string;
+  options: WorkerOptions;
+}
+
+export interface ArrivalCounts {
+  scheduled: number;
+  sent: number;
+  queued: number;
+  dropped: number;
+}
+
+export interface WorkerResult {
+  results: SerializedResults;  // The worker's ResultAggregator
+  arrivals?: ArrivalCounts;    // Rate mode
+  environment?: EnvironmentFingerprint;
+  loadGenerator?: ResourceUsage;
+}
+
+export interface WorkerOutcome extends WorkerResult {
+  address: string;
+  clockOffsetMs: number;  // Worker clock minus coordinator clock
+}
+
+export interface LocalWorker {
+  address: string;
+  process: Deno.ChildProcess;
+}
+
+/**
+ * Split `total` whole units (users) as evenly as possible, earlier workers
+ * taking the remainder
+ */
+function evenShare(total: number, index: number, count: number): number {
+  const whole = Math.round(total);
+  return Math.floor(whole / count) + (index < whole % count ? 1 : 0);
+}
+
+/**
+ * Worker `index` of `count`'s share of a run. Users are split into whole
+ * users; rates, in-flight limits and rate stages are divided. Constant-rate
+ * workers are staggered so their arrivals interleave rather than coincide.
+ */
+export function shareOf(run: DistributedRun, index: number, count: number): DistributedRun {
+  const divide = (total: number) => run.mode === 'load' ? evenShare(total, index, count) : total / count;
+  return {
+    ...run,
+    ...(run.users !== undefined && { users: divide(run.users) }),
+    ...(run.rps !== undefined && { rps: divide(run.rps) }),
+    ...(run.maxInFlight !== undefined && { maxInFlight: Math.ceil(run.maxInFlight / count) }),
+    ...(run.stages && { stages: run.stages.map(stage => ({ ...stage, target: divide(stage.target) })) }),
+    ...(run.mode === 'rate' && !run.stages && run.rps && { phaseMs: (index * 1000) / run.rps })
+  };
+}
+
+/**
+ * `host:port`, or a URL, as the worker's base URL
+ */
+export function parseWorkerAddress(spec: string): string {
+  const address = /^https?:\/\//.test(spec) ? spec : `http://${spec}`;
+  try {
+    new URL(address);
+  } catch {
+    throw new Error(`Invalid worker address "${spec}" (expected host:port)`);
+  }
+  return address.replace(/\/$/, '');
+}
+
+function validateWorkerJob(job: WorkerJob): void {
+  if (!job || typeof job !== 'object') {
+    throw new Error('Missing job');
+  }
+  if (job.mode !== 'load' && job.mode !== 'rate') {
+    throw new Error(`Unsupported mode "${job.mode}" (expected load or rate)`);
+  }
+  if (typeof job.baseUrl !== 'string' || typeof job.options?.seed !== 'string') {
+    throw new Error('Job needs a baseUrl and options.seed');
+  }
+  if (!(job.durationSeconds > 0)) {
+    throw new Error(`Job duration must be positive, got ${job.durationSeconds}`);
+  }
+}
+
+// ============================================
+// 👷 WORKER
+// ============================================
+
+/**
+ * Run jobs for a coordinator, one at a time. GET /health returns the
+ * worker's clock so the coordinator can line up start times; POST /run
+ * waits for the job's start time, runs it and answers with the results.
+ */
+export function serveWorker(
+  options: { port?: number; hostname?: string; onListen?: (addr: Deno.NetAddr) => void },
+  runJob: (job: WorkerJob) => Promise<WorkerResult>
+): Deno.HttpServer<Deno.NetAddr> {
+  let busy = false;
+
+  return Deno.serve({
+    port: options.port ?? DEFAULT_WORKER_PORT,
+    hostname: options.hostname ?? '127.0.0.1',
+    onListen: options.onListen ?? (() => {})
+  }, async request => {
+    const { pathname } = new URL(request.url);
+    if (request.method === 'GET' && pathname === '/health') {
+      return Response.json({ status: busy ? 'busy' : 'ready', clock: Date.now() });
+    }
+    if (request.method !== 'POST' || pathname !== '/run') {
+      return Response.json({ error: 'Not found' }, { status: 404 });
+    }
+    if (busy) {
+      return Response.json({ error: 'Worker is already running a job' }, { status: 409 });
+    }
+
+    let job: WorkerJob;
+    let startAt: number;
+    try {
+      ({ job, startAt } = await request.json());
+      validateWorkerJob(job);
+    } catch (error) {
+      return Response.json({ error: `Invalid job: ${(error as Error).message}` }, { status: 400 });
+    }
+
+    busy = true;
+    try {
+      await delay(Math.max(0, startAt - Date.now()));
+      return Response.json(await runJob(job));
+    } catch (error) {
+      return Response.json({ error: (error as Error).message }, { status: 500 });
+    } finally {
+      busy = false;
+    }
+  });
+}
+
+// ============================================
+// 🧭 COORDINATOR
+// ============================================
+
+/**
+ * The worker's clock minus ours. The worker read its clock about halfway
+ * through the round trip, so the fastest of a few round trips is used.
+ */
+async function measureClock(address: string): Promise<{ offset: number; roundTrip: number }> {
+  let best: { offset: number; roundTrip: number } | undefined;
+  for (let i = 0; i < CLOCK_SAMPLES; i++) {
+    const sent = Date.now();
+    const response = await fetch(`${address}/health`, { signal: AbortSignal.timeout(10_000) });
+    const { status, clock } = await response.json();
+    const roundTrip = Date.now() - sent;
+    if (status !== 'ready') {
+      throw new Error(`worker is ${status ?? `answering HTTP ${response.status}`}`);
+    }
+    if (!best || roundTrip < best.roundTrip) {
+      best = { offset: clock - (sent + roundTrip / 2), roundTrip };
+    }
+  }
+  return best!;
+}
+
+/**
+ * Run each job on its worker, all starting at the same moment on the
+ * coordinator's clock. One failing worker fails the run.
+ */
+export async function runOnWorkers(workers: string[], jobs: WorkerJob[]): Promise<WorkerOutcome[]> {
+  const clocks = await Promise.all(workers.map(async address => {
+    try {
+      return await measureClock(address);
+    } catch (error) {
+      throw new Error(`Worker ${address} is not available: ${(error as Error).message}`);
+    }
+  }));
+
+  const startAt = Date.now() + START_DELAY_MS + Math.max(...clocks.map(clock => clock.roundTrip));
+  const controller = new AbortController();
+
+  return await Promise.all(workers.map(async (address, i) => {
+    const { offset } = clocks[i];
+    try {
+      const response = await fetch(`${address}/run`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ job: jobs[i], startAt: startAt + offset }),
+        signal: controller.signal
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.error ?? `HTTP ${response.status}`);
+      }
+
+      const result = body as WorkerResult;
+      // Sample timestamps onto the coordinator's clock
+      result.results.samples = result.results.samples.map(sample => ({ ...sample, timestamp: sample.timestamp - offset }));
+      return { address, clockOffsetMs: offset, ...result };
+    } catch (error) {
+      controller.abort();
+      throw new Error(`Worker ${address} failed: ${(error as Error).message}`);
+    }
+  }));
+}
+
+/**
+ * A free local port, found by letting the OS pick one
+ */
+function freePort(): number {
+  const listener = Deno.listen({ hostname: '127.0.0.1', port: 0 });
+  const { port } = listener.addr as Deno.NetAddr;
+  listener.close();
+  return port;
+}
+
+async function waitUntilReady(worker: LocalWorker): Promise<void> {
+  let exited: Deno.CommandStatus | undefined;
+  worker.process.status.then(status => exited = status);
+
+  const deadline = Date.now() + WORKER_STARTUP_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    if (exited) {
+      throw new Error(`Worker ${worker.address} exited with code ${exited.code}`);
+    }
+    try {
+      const response = await fetch(`${worker.address}/health`);
+      await response.body?.cancel();
+      if (response.ok) return;
+    } catch {
+      // Not listening yet
+    }
+    await delay(100);
+  }
+  throw new Error(`Worker ${worker.address} did not start within ${WORKER_STARTUP_TIMEOUT_MS / 1000}s`);
+}
+
+/**
+ * Start `count` worker processes running `script worker` on free local
+ * ports, and wait until all of them answer
+ */
+export async function startLocalWorkers(count: number, script: string): Promise<LocalWorker[]> {
+  const workers: LocalWorker[] = [];
+  try {
+    for (let i = 0; i < count; i++) {
+      const port = freePort();
+      const process = new Deno.Command(Deno.execPath(), {
+        args: ['run', '--allow-net', script, 'worker', '--port', String(port)],
+        stdin: 'null',
+        stdout: 'inherit',
+        stderr: 'inherit'
+      }).spawn();
+      workers.push({ address: `http://127.0.0.1:${port}`, process });
+    }
+    await Promise.all(workers.map(waitUntilReady));
+    return workers;
+  } catch (error) {
+    await stopLocalWorkers(workers);
+    throw error;
+  }
+}
+
+export async function stopLocalWorkers(workers: LocalWorker[]): Promise<void> {
+  for (const { process } of workers) {
+    try {
+      process.kill('SIGTERM');
+    } catch {
+      // Already exited
+    }
+  }
+  await Promise.all(workers.map(({ process }) => process.status));
+}
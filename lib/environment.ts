@@ -0,0 +1,279 @@
+// lib/environment.ts
+// ============================================
+// 🖥️ Run environment
+// Load generator fingerprint, resource use and server version
+// ============================================
+
+import process from 'node:process';
+import { cpus } from 'node:os';
+import { LatencyHistogram } from './histogram.ts';
+import type { PlanInfo } from './plan.ts';
+import type { RetryPolicy } from './retry.ts';
+import type { Scenario } from './scenario.ts';
+import type { PerformanceReport, WarmupOptions } from './types.ts';
+
+/**
+ * The machine and runtime a run was made on. Fields that need --allow-sys
+ * are left out unless it was granted, rather than prompting mid-run.
+ */
+export interface EnvironmentFingerprint {
+  deno: string;
+  v8: string;
+  typescript: string;
+  os: string;                 // e.g. linux, darwin, windows
+  osRelease?: string;         // Kernel or OS version
+  arch: string;
+  hostname?: string;
+  cpuCount: number;           // Logical cores
+  cpuModel?: string;
+  memoryTotalBytes?: number;
+}
+
+/**
+ * Every setting a run resolved to after defaults, so it can be repeated
+ */
+export interface RunConfiguration {
+  seed: string;
+  run?: Omit<PlanInfo, 'seed' | 'baseUrl' | 'auth' | 'data'> & { workers?: string[] };  // Mode and its parameters
+  scenario: string | Omit<Scenario, 'data'>;  // A built-in's name, or the scenario file as loaded (data rows left out)
+  groups?: string[];
+  thresholds: string[];
+  timeoutMs: number;
+  retry: RetryPolicy;
+  detailedTiming: boolean;
+  maxSamples?: number;
+  histogramPrecision?: number;
+  warmup?: WarmupOptions;
+  versionHeader?: string;
+}
+
+/**
+ * Reproducibility metadata written alongside a report
+ */
+export interface RunEnvironment {
+  fingerprint: EnvironmentFingerprint;
+  configuration: RunConfiguration;
+  serverVersion?: ServerVersion;
+}
+
+/**
+ * What the load generator itself used while the run was sending requests
+ */
+export interface ResourceUsage {
+  durationMs: number;
+  cpuPercent: number;        // Process CPU time over the run, as % of one core
+  peakCpuPercent: number;    // Busiest sampling interval
+  peakRssBytes: number;
+  eventLoopLag: {            // How late timers fired: a busy loop delays sending and timing
+    p50: number;
+    p99: number;
+    max: number;
+  };
+  saturated: boolean;        // Results measure the load generator as much as the target
+  warnings: string[];        // Why it counts as saturated
+}
+
+/**
+ * The target's own version, for telling runs against different builds apart
+ */
+export interface ServerVersion {
+  version: string;
+  source: string;  // Header name, or the path it was read from
+}
+
+// Above these, the load generator was busy enough to skew its own timings
+export const SATURATION_LIMITS = {
+  cpuPercent: 90,      // Average over the run; JavaScript runs on one core
+  eventLoopLagMs: 50   // p99 timer lateness
+};
+
+const SAMPLE_INTERVAL_MS = 250;
+const VERSION_PROBE_TIMEOUT_MS = 5_000;
+
+type CpuUsage = ReturnType<typeof process.cpuUsage>;
+
+function granted(kind: Deno.SysPermissionDescriptor['kind']): boolean {
+  return Deno.permissions.querySync({ name: 'sys', kind }).state === 'granted';
+}
+
+/**
+ * Fingerprint of this process's machine and runtime
+ */
+export function environmentFingerprint(): EnvironmentFingerprint {
+  const cpuModel = granted('cpus') ? cpus()[0]?.model.trim() : undefined;
+  return {
+    ...Deno.version,
+    os: Deno.build.os,
+    ...(granted('osRelease') && { osRelease: Deno.osRelease() }),
+    arch: Deno.build.arch,
+    ...(granted('hostname') && { hostname: Deno.hostname() }),
+    cpuCount: navigator.hardwareConcurrency,
+    ...(cpuModel && { cpuModel }),
+    ...(granted('systemMemoryInfo') && { memoryTotalBytes: Deno.systemMemoryInfo().total })
+  };
+}
+
+/**
+ * One line for the console, e.g. "Deno 2.1.4 · linux 6.8 x86_64 · 8 × Intel Xeon"
+ */
+export function describeFingerprint(fingerprint: EnvironmentFingerprint): string {
+  const os = [fingerprint.os, fingerprint.osRelease, fingerprint.arch].filter(Boolean).join(' ');
+  const cpu = `${fingerprint.cpuCount} × ${fingerprint.cpuModel ?? 'CPU'}`;
+  const memory = fingerprint.memoryTotalBytes !== undefined ? ` · ${formatBytes(fingerprint.memoryTotalBytes)}` : '';
+  return `Deno ${fingerprint.deno} · ${os} · ${cpu}${memory}`;
+}
+
+export function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(unit === 0 ? 0 : 1)}${units[unit]}`;
+}
+
+// ============================================
+// 📈 RESOURCE MONITOR
+// ============================================
+
+/**
+ * Samples this process's CPU time, memory and event loop lag from
+ * construction until stop()
+ */
+export class ResourceMonitor {
+  private readonly startedAt = performance.now();
+  private readonly startCpu = process.cpuUsage();
+  private lastSampleAt = this.startedAt;
+  private lastCpu = this.startCpu;
+  private peakCpuPercent = 0;
+  private peakRssBytes = Deno.memoryUsage().rss;
+  private readonly lag = new LatencyHistogram();
+  private readonly timer: ReturnType<typeof setInterval>;
+  private usage?: ResourceUsage;
+
+  constructor() {
+    this.timer = setInterval(() => this.sample(), SAMPLE_INTERVAL_MS);
+    Deno.unrefTimer(this.timer); // Never what keeps the process alive
+  }
+
+  private sample(): void {
+    const now = performance.now();
+    const cpu = process.cpuUsage();
+    const elapsed = now - this.lastSampleAt;
+    this.lag.record(Math.max(0, elapsed - SAMPLE_INTERVAL_MS));
+    this.peakCpuPercent = Math.max(this.peakCpuPercent, cpuPercent(cpu, this.lastCpu, elapsed));
+    this.peakRssBytes = Math.max(this.peakRssBytes, Deno.memoryUsage().rss);
+    this.lastSampleAt = now;
+    this.lastCpu = cpu;
+  }
+
+  /**
+   * Stop sampling and summarize. Later calls return the same summary.
+   */
+  stop(): ResourceUsage {
+    if (this.usage) return this.usage;
+    clearInterval(this.timer);
+    this.sample();
+
+    const durationMs = performance.now() - this.startedAt;
+    const usage = {
+      durationMs,
+      cpuPercent: cpuPercent(process.cpuUsage(), this.startCpu, durationMs),
+      peakCpuPercent: this.peakCpuPercent,
+      peakRssBytes: this.peakRssBytes,
+      eventLoopLag: { p50: this.lag.percentile(50), p99: this.lag.percentile(99), max: this.lag.max }
+    };
+    this.usage = { ...usage, ...saturation(usage) };
+    return this.usage;
+  }
+}
+
+/**
+ * One line for the console, e.g. "CPU 42% avg (peak 88%) · RSS 85.3MB peak · event loop lag p99 3.2ms"
+ */
+export function describeUsage(usage: ResourceUsage): string {
+  return `CPU ${usage.cpuPercent.toFixed(0)}% avg (peak ${usage.peakCpuPercent.toFixed(0)}%) · ` +
+    `RSS ${formatBytes(usage.peakRssBytes)} peak · event loop lag p99 ${usage.eventLoopLag.p99.toFixed(1)}ms`;
+}
+
+function cpuPercent(now: CpuUsage, before: CpuUsage, elapsedMs: number): number {
+  if (elapsedMs <= 0) return 0;
+  const cpuMs = (now.user - before.user + now.system - before.system) / 1000;
+  return (cpuMs / elapsedMs) * 100;
+}
+
+/**
+ * Whether usage crossed the saturation limits, and how
+ */
+export function saturation(usage: Omit<ResourceUsage, 'saturated' | 'warnings'>): Pick<ResourceUsage, 'saturated' | 'warnings'> {
+  const warnings: string[] = [];
+  if (usage.cpuPercent >= SATURATION_LIMITS.cpuPercent) {
+    warnings.push(`CPU averaged ${usage.cpuPercent.toFixed(0)}% of a core (limit ${SATURATION_LIMITS.cpuPercent}%)`);
+  }
+  if (usage.eventLoopLag.p99 >= SATURATION_LIMITS.eventLoopLagMs) {
+    warnings.push(`event loop lag p99 was ${usage.eventLoopLag.p99.toFixed(1)}ms (limit ${SATURATION_LIMITS.eventLoopLagMs}ms)`);
+  }
+  return { saturated: warnings.length > 0, warnings };
+}
+
+/**
+ * Each load generator of a report that was saturated: this process, or the
+ * distributed workers by address
+ */
+export function saturatedGenerators(report: PerformanceReport): { name: string; warnings: string[] }[] {
+  const generators = [
+    { name: 'The load generator', usage: report.loadGenerator },
+    ...(report.workers ?? []).map(worker => ({ name: `Worker ${worker.address}`, usage: worker.loadGenerator }))
+  ];
+  return generators.flatMap(({ name, usage }) => usage?.saturated ? [{ name, warnings: usage.warnings }] : []);
+}
+
+// ============================================
+// 🏷️ SERVER VERSION
+// ============================================
+
+/**
+ * A version field at the top of a JSON body or one object down, e.g.
+ * `{ version }` or `{ data: { version } }`
+ */
+function findVersion(body: unknown, depth = 0): string | undefined {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) return undefined;
+  const record = body as Record<string, unknown>;
+  for (const key of ['version', 'appVersion', 'frameworkVersion']) {
+    const value = record[key];
+    if (typeof value === 'string' || typeof value === 'number') return String(value);
+  }
+  if (depth > 0) return undefined;
+  for (const value of Object.values(record)) {
+    const found = findVersion(value, depth + 1);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+/**
+ * The target's version from `header` on its home page, or without one from
+ * the JSON of `/api/system`. Undefined when the server doesn't say.
+ */
+export async function probeServerVersion(baseUrl: string, header?: string): Promise<ServerVersion | undefined> {
+  const path = header ? '/' : '/api/system';
+  try {
+    const response = await fetch(`${baseUrl}${path}`, { signal: AbortSignal.timeout(VERSION_PROBE_TIMEOUT_MS) });
+    if (header) {
+      await response.body?.cancel();
+      const version = response.headers.get(header);
+      return version ? { version, source: header } : undefined;
+    }
+    if (!response.ok) {
+      await response.body?.cancel();
+      return undefined;
+    }
+    const version = findVersion(await response.json());
+    return version ? { version, source: path } : undefined;
+  } catch {
+    // Unreachable, or not JSON: the report just goes without
+    return undefined;
+  }
+}
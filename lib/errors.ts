@@ -0,0 +1,84 @@
+// lib/errors.ts
+// ============================================
+// 🧯 Request error taxonomy
+// Why a request got no usable response
+// ============================================
+
+export type ErrorClass =
+  | 'dns'                 // Host name did not resolve
+  | 'connection_refused'  // Nothing listening on the port
+  | 'connection_reset'    // Peer closed or reset the connection mid-request
+  | 'tls'                 // Handshake or certificate failure
+  | 'timeout'
+  | 'body_read'           // Headers arrived but the body could not be read
+  | 'other';
+
+export const ERROR_CLASS_LABELS: Record<ErrorClass, string> = {
+  dns: 'DNS failure',
+  connection_refused: 'connection refused',
+  connection_reset: 'connection reset',
+  tls: 'TLS error',
+  timeout: 'timeout',
+  body_read: 'body read failure',
+  other: 'other error'
+};
+
+/**
+ * Error thrown when the failing phase already tells us the class, e.g. by the
+ * instrumented HTTP client
+ */
+export class RequestError extends Error {
+  constructor(readonly errorClass: ErrorClass, message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'RequestError';
+  }
+}
+
+export interface ClassifiedError {
+  errorClass: ErrorClass;
+  message: string;
+}
+
+// Matched against the error message and its causes; fetch reports most
+// network failures as a TypeError whose message carries the OS error
+const MESSAGE_PATTERNS: [ErrorClass, RegExp][] = [
+  ['dns', /dns error|failed to lookup|name or service not known|no such host|nodename nor servname|getaddrinfo|name resolution/i],
+  ['connection_refused', /connection refused|econnrefused|os error 111\b/i],
+  ['tls', /\btls\b|certificate|handshake|\bssl\b/i],
+  ['timeout', /timed out|timeout/i],
+  ['connection_reset', /connection reset|econnreset|broken pipe|connection aborted|connection closed|unexpected eof|os error 104\b/i]
+];
+
+function messageChain(error: unknown): string {
+  const messages: string[] = [];
+  for (let current = error; current !== undefined && messages.length < 5;) {
+    const message = current instanceof Error ? current.message : String(current);
+    if (!messages.some(previous => previous.includes(message))) messages.push(message);
+    current = current instanceof Error ? current.cause : undefined;
+  }
+  return messages.join(': ');
+}
+
+/**
+ * Classify a thrown request error. Body read failures arrive already
+ * classified, as a RequestError('body_read').
+ */
+export function classifyError(error: unknown): ClassifiedError {
+  const message = messageChain(error);
+
+  if (error instanceof RequestError) {
+    return { errorClass: error.errorClass, message };
+  }
+
+  if (error instanceof Deno.errors.ConnectionRefused) return { errorClass: 'connection_refused', message };
+  if (error instanceof Deno.errors.ConnectionReset || error instanceof Deno.errors.ConnectionAborted ||
+      error instanceof Deno.errors.BrokenPipe || error instanceof Deno.errors.UnexpectedEof) {
+    return { errorClass: 'connection_reset', message };
+  }
+  if (error instanceof Deno.errors.TimedOut || (error instanceof DOMException && error.name === 'TimeoutError')) {
+    return { errorClass: 'timeout', message };
+  }
+
+  const match = MESSAGE_PATTERNS.find(([, pattern]) => pattern.test(message));
+  return { errorClass: match ? match[0] : 'other', message };
+}
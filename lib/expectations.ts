@@ -0,0 +1,89 @@
+// lib/expectations.ts
+// ============================================
+// 🎯 Response expectations
+// Status and body assertions per endpoint
+// ============================================
+
+import type { BodyCheck, EndpointDefinition } from './scenario.ts';
+
+export interface ExpectationResult {
+  met: boolean;
+  reason?: string;  // Why the response did not meet the expectation; one fixed text per check
+  actual?: string;  // The value found instead, for the sampled metric only
+}
+
+// Longest offending value kept on a metric
+const MAX_ACTUAL_LENGTH = 200;
+
+/**
+ * Resolve a simple JSON path (`$.data[0].id`, `data.0.id`) against a value
+ */
+export function resolveJsonPath(value: unknown, path: string): unknown {
+  const segments = path
+    .replace(/^\$\.?/, '')
+    .replace(/\[(\d+|'[^']*'|"[^"]*")\]/g, '.$1')
+    .split('.')
+    .filter(segment => segment.length > 0)
+    .map(segment => segment.replace(/^['"]|['"]$/g, ''));
+
+  let current = value;
+  for (const segment of segments) {
+    if (typeof current !== 'object' || current === null) {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
+
+function checkBody(check: BodyCheck, body: string): ExpectationResult {
+  if (check.contains !== undefined && !body.includes(check.contains)) {
+    return { met: false, reason: `body does not contain "${check.contains}"` };
+  }
+
+  if (check.matches !== undefined && !new RegExp(check.matches).test(body)) {
+    return { met: false, reason: `body does not match /${check.matches}/` };
+  }
+
+  if (check.jsonPath !== undefined) {
+    let json: unknown;
+    try {
+      json = JSON.parse(body);
+    } catch {
+      return { met: false, reason: 'body is not valid JSON' };
+    }
+
+    const actual = resolveJsonPath(json, check.jsonPath);
+    if (check.equals === undefined) {
+      if (actual === undefined) {
+        return { met: false, reason: `${check.jsonPath} is missing` };
+      }
+    } else if (JSON.stringify(actual) !== JSON.stringify(check.equals)) {
+      // Reasons key the per-endpoint counts, so the actual value stays out of them
+      return {
+        met: false,
+        reason: `${check.jsonPath} did not equal ${JSON.stringify(check.equals)}`,
+        actual: String(JSON.stringify(actual)).slice(0, MAX_ACTUAL_LENGTH)
+      };
+    }
+  }
+
+  return { met: true };
+}
+
+/**
+ * Check a response against the endpoint's declared expectations.
+ * Without `expectedStatus`, any 2xx/3xx response is expected.
+ */
+export function checkExpectation(endpoint: EndpointDefinition, statusCode: number, body: string): ExpectationResult {
+  const statusMet = endpoint.expectedStatus
+    ? endpoint.expectedStatus.includes(statusCode)
+    : statusCode >= 200 && statusCode < 400;
+
+  if (!statusMet) {
+    const expected = endpoint.expectedStatus?.join('/') ?? '2xx/3xx';
+    return { met: false, reason: `status ${statusCode}, expected ${expected}` };
+  }
+
+  return endpoint.bodyCheck ? checkBody(endpoint.bodyCheck, body) : { met: true };
+}
@@ -0,0 +1,313 @@
+// lib/histogram.ts
+// ============================================
+// 📊 Streaming latency histogram
+// HDR-style log-linear buckets, bounded memory
+// ============================================
+
+export interface HistogramOptions {
+  significantDigits?: number;   // Relative precision, 1-5 (default 3 = 0.1%)
+  highestTrackableMs?: number;  // Larger values are clamped (default 1 hour)
+}
+
+/**
+ * A histogram as JSON, e.g. sent from a distributed worker. Only non-empty
+ * buckets are listed.
+ */
+export interface SerializedHistogram {
+  significantDigits: number;
+  highestTrackableMs: number;
+  count: number;
+  mean: number;
+  m2: number;                          // Sum of squared differences from the mean
+  min: number;
+  max: number;
+  buckets: [number, number, number][];  // [bucket index, count, sum of values in ms]
+}
+
+const MICROS_PER_MS = 1000;
+
+// Buckets are allocated in chunks of this many, on first use
+const CHUNK_BITS = 10;
+const CHUNK_SIZE = 2 ** CHUNK_BITS;
+const CHUNK_MASK = CHUNK_SIZE - 1;
+
+/**
+ * Mergeable latency histogram. Values are recorded in milliseconds and
+ * bucketed in microseconds: exact below 2^k µs, then log-linear buckets that
+ * keep every value within 10^-significantDigits of its true value. Memory
+ * doesn't grow with how many values are recorded, only with how widely they
+ * spread: buckets are allocated 1024 at a time (16KB) where values land.
+ * At the default precision a full 0-1h range is about 380KB, at 5 digits
+ * about 31MB, but typical latencies touch only a few chunks.
+ *
+ * Mean, standard deviation, min and max are tracked exactly.
+ */
+export class LatencyHistogram {
+  readonly significantDigits: number;
+  readonly highestTrackableMs: number;
+
+  private readonly subBucketBits: number;
+  private readonly subBucketCount: number;
+  private readonly subBucketHalfCount: number;
+  private readonly highestTrackableMicros: number;
+  private readonly bucketCount: number;
+  private counts: (Float64Array | undefined)[];  // By chunk
+  private sums: (Float64Array | undefined)[];    // Sum of recorded values per bucket, in ms
+
+  private totalCount = 0;
+  private runningMean = 0;
+  private sumSquaredDiffs = 0; // Welford's M2
+  private minValue = Infinity;
+  private maxValue = -Infinity;
+
+  constructor(options: HistogramOptions = {}) {
+    const { significantDigits = 3, highestTrackableMs = 3_600_000 } = options;
+    if (!Number.isInteger(significantDigits) || significantDigits < 1 || significantDigits > 5) {
+      throw new Error(`significantDigits must be an integer from 1 to 5 (got ${significantDigits})`);
+    }
+    if (!(highestTrackableMs > 0)) {
+      throw new Error(`highestTrackableMs must be positive (got ${highestTrackableMs})`);
+    }
+
+    this.significantDigits = significantDigits;
+    this.highestTrackableMs = highestTrackableMs;
+    this.subBucketBits = Math.ceil(Math.log2(2 * 10 ** significantDigits));
+    this.subBucketCount = 2 ** this.subBucketBits;
+    this.subBucketHalfCount = this.subBucketCount / 2;
+
+    this.highestTrackableMicros = Math.ceil(highestTrackableMs * MICROS_PER_MS);
+    this.bucketCount = this.indexOf(this.highestTrackableMicros) + 1;
+    this.counts = new Array(Math.ceil(this.bucketCount / CHUNK_SIZE));
+    this.sums = new Array(this.counts.length);
+  }
+
+  // ============================================
+  // 🧮 BUCKET MATH
+  // ============================================
+
+  private indexOf(micros: number): number {
+    if (micros < this.subBucketCount) {
+      return micros;
+    }
+    const magnitude = Math.floor(Math.log2(micros));
+    const shift = magnitude - (this.subBucketBits - 1);
+    const subBucket = Math.floor(micros / 2 ** shift);
+    return this.subBucketCount + (shift - 1) * this.subBucketHalfCount + (subBucket - this.subBucketHalfCount);
+  }
+
+  /** Add to a bucket, allocating its chunk on first use */
+  private add(index: number, count: number, sum: number): void {
+    const chunk = index >> CHUNK_BITS;
+    const counts = this.counts[chunk] ??= new Float64Array(CHUNK_SIZE);
+    const sums = this.sums[chunk] ??= new Float64Array(CHUNK_SIZE);
+    counts[index & CHUNK_MASK] += count;
+    sums[index & CHUNK_MASK] += sum;
+  }
+
+  /** Non-empty buckets in order, as [index, count, sum in ms] */
+  private *nonEmpty(): Generator<[number, number, number]> {
+    for (let chunk = 0; chunk < this.counts.length; chunk++) {
+      const counts = this.counts[chunk];
+      if (!counts) continue;
+      const sums = this.sums[chunk]!;
+      for (let i = 0; i < CHUNK_SIZE; i++) {
+        if (counts[i] > 0) yield [(chunk << CHUNK_BITS) + i, counts[i], sums[i]];
+      }
+    }
+  }
+
+  /** Lower bound (inclusive) and width of a bucket, in microseconds */
+  private bucketRange(index: number): { lower: number; width: number } {
+    if (index < this.subBucketCount) {
+      return { lower: index, width: 1 };
+    }
+    const offset = index - this.subBucketCount;
+    const shift = Math.floor(offset / this.subBucketHalfCount) + 1;
+    const subBucket = (offset % this.subBucketHalfCount) + this.subBucketHalfCount;
+    const width = 2 ** shift;
+    return { lower: subBucket * width, width };
+  }
+
+  // ============================================
+  // ✍️ RECORDING
+  // ============================================
+
+  /**
+   * Record a latency in milliseconds, optionally `count` times
+   */
+  record(valueMs: number, count = 1): void {
+    if (!Number.isFinite(valueMs) || count <= 0) return;
+
+    const value = Math.max(0, valueMs);
+    const micros = Math.min(Math.round(value * MICROS_PER_MS), this.highestTrackableMicros);
+    this.add(this.indexOf(micros), count, Math.min(value, this.highestTrackableMs) * count);
+
+    // Chan et al. parallel update, which reduces to Welford for count = 1
+    const newCount = this.totalCount + count;
+    const delta = value - this.runningMean;
+    this.runningMean += (delta * count) / newCount;
+    this.sumSquaredDiffs += delta * delta * this.totalCount * count / newCount;
+    this.totalCount = newCount;
+
+    if (value < this.minValue) this.minValue = value;
+    if (value > this.maxValue) this.maxValue = value;
+  }
+
+  /**
+   * Add another histogram's values into this one. Both must share options.
+   */
+  merge(other: LatencyHistogram): this {
+    if (other.significantDigits !== this.significantDigits || other.highestTrackableMs !== this.highestTrackableMs) {
+      throw new Error('Cannot merge histograms with different precision or range');
+    }
+    if (other.totalCount === 0) return this;
+
+    for (const [index, count, sum] of other.nonEmpty()) {
+      this.add(index, count, sum);
+    }
+
+    const newCount = this.totalCount + other.totalCount;
+    const delta = other.runningMean - this.runningMean;
+    this.runningMean += (delta * other.totalCount) / newCount;
+    this.sumSquaredDiffs += other.sumSquaredDiffs + delta * delta * this.totalCount * other.totalCount / newCount;
+    this.totalCount = newCount;
+
+    this.minValue = Math.min(this.minValue, other.minValue);
+    this.maxValue = Math.max(this.maxValue, other.maxValue);
+    return this;
+  }
+
+  toJSON(): SerializedHistogram {
+    return {
+      significantDigits: this.significantDigits,
+      highestTrackableMs: this.highestTrackableMs,
+      count: this.totalCount,
+      mean: this.runningMean,
+      m2: this.sumSquaredDiffs,
+      min: this.min,
+      max: this.max,
+      buckets: [...this.nonEmpty()]
+    };
+  }
+
+  /**
+   * Rebuild a histogram from toJSON() output, exactly as it was recorded
+   */
+  static fromJSON(data: SerializedHistogram): LatencyHistogram {
+    const histogram = new LatencyHistogram({ significantDigits: data.significantDigits, highestTrackableMs: data.highestTrackableMs });
+    let count = 0;
+    for (const [index, bucketCount, sum] of data.buckets) {
+      if (!Number.isInteger(index) || index < 0 || index >= histogram.bucketCount) {
+        throw new Error(`Histogram bucket ${index} is out of range`);
+      }
+      histogram.add(index, bucketCount, sum);
+      count += bucketCount;
+    }
+    if (count !== data.count) {
+      throw new Error(`Histogram buckets hold ${count} values, expected ${data.count}`);
+    }
+
+    if (count > 0) {
+      histogram.totalCount = count;
+      histogram.runningMean = data.mean;
+      histogram.sumSquaredDiffs = data.m2;
+      histogram.minValue = data.min;
+      histogram.maxValue = data.max;
+    }
+    return histogram;
+  }
+
+  reset(): void {
+    this.counts = new Array(this.counts.length);
+    this.sums = new Array(this.sums.length);
+    this.totalCount = 0;
+    this.runningMean = 0;
+    this.sumSquaredDiffs = 0;
+    this.minValue = Infinity;
+    this.maxValue = -Infinity;
+  }
+
+  // ============================================
+  // 📏 STATISTICS
+  // ============================================
+
+  get count(): number {
+    return this.totalCount;
+  }
+
+  get mean(): number {
+    return this.totalCount > 0 ? this.runningMean : 0;
+  }
+
+  /** Population standard deviation */
+  get stdDev(): number {
+    return this.totalCount > 0 ? Math.sqrt(this.sumSquaredDiffs / this.totalCount) : 0;
+  }
+
+  get min(): number {
+    return this.totalCount > 0 ? this.minValue : 0;
+  }
+
+  get max(): number {
+    return this.totalCount > 0 ? this.maxValue : 0;
+  }
+
+  /**
+   * Estimated value of the 0-based `rank`-th smallest recording. Values inside
+   * a bucket are assumed evenly spread across its width, centred on the
+   * bucket's exact mean, so a lone value in a bucket comes back unchanged.
+   */
+  private valueAtRank(rank: number): number {
+    let seen = 0;
+    for (const [index, bucketCount, sum] of this.nonEmpty()) {
+      if (rank < seen + bucketCount) {
+        const { lower, width } = this.bucketRange(index);
+        const bucketMean = sum / bucketCount;
+        const position = (rank - seen + 0.5) / bucketCount - 0.5;
+        const estimate = Math.min(
+          (lower + width) / MICROS_PER_MS,
+          Math.max(lower / MICROS_PER_MS, bucketMean + position * (width / MICROS_PER_MS))
+        );
+        return Math.min(this.maxValue, Math.max(this.minValue, estimate));
+      }
+      seen += bucketCount;
+    }
+    return this.maxValue;
+  }
+
+  /**
+   * Percentile (0-100), linearly interpolated between the two closest ranks
+   * like the default "type 7" definition used by R and NumPy. Supports any
+   * percentile such as 99.9 or 99.99.
+   */
+  percentile(percentile: number): number {
+    if (percentile < 0 || percentile > 100 || Number.isNaN(percentile)) {
+      throw new Error(`Percentile must be between 0 and 100 (got ${percentile})`);
+    }
+    if (this.totalCount === 0) return 0;
+    if (percentile === 0) return this.minValue;
+    if (percentile === 100) return this.maxValue;
+
+    const position = (percentile / 100) * (this.totalCount - 1);
+    const lowerRank = Math.floor(position);
+    const fraction = position - lowerRank;
+
+    const lowerValue = this.valueAtRank(lowerRank);
+    if (fraction === 0) return lowerValue;
+
+    const upperValue = this.valueAtRank(lowerRank + 1);
+    return lowerValue + (upperValue - lowerValue) * fraction;
+  }
+
+  /**
+   * Non-empty buckets as [lower ms, upper ms, count], for charts and export
+   */
+  buckets(): { lowerMs: number; upperMs: number; count: number }[] {
+    const result: { lowerMs: number; upperMs: number; count: number }[] = [];
+    for (const [index, count] of this.nonEmpty()) {
+      const { lower, width } = this.bucketRange(index);
+      result.push({ lowerMs: lower / MICROS_PER_MS, upperMs: (lower + width) / MICROS_PER_MS, count });
+    }
+    return result;
+  }
+}
@@ -0,0 +1,358 @@
+// lib/htmlReport.ts
+// ============================================
+// 🌐 Self-contained HTML report
+// Inline SVG charts, no scripts or network resources
+// ============================================
+
+import { saturatedGenerators } from './environment.ts';
+import type { PerformanceMetric, PerformanceReport } from './types.ts';
+
+export interface HtmlReportMetadata {
+  baseUrl: string;
+  generatedAt: string;  // ISO timestamp
+  title?: string;
+}
+
+interface Series {
+  name: string;
+  points: [number, number][];
+}
+
+const WIDTH = 920;
+const HEIGHT = 300;
+const MARGIN = { top: 20, right: 20, bottom: 44, left: 64 };
+const PALETTE = ['#2563eb', '#16a34a', '#d97706', '#9333ea', '#0891b2', '#db2777', '#65a30d', '#dc2626'];
+const HISTOGRAM_BINS = 40;
+const MAX_CDF_ENDPOINTS = PALETTE.length - 1;  // Plus the "all requests" line
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+function formatMs(value: number): string {
+  return `${value.toFixed(1)}ms`;
+}
+
+// ============================================
+// 📐 SVG PRIMITIVES
+// ============================================
+
+/**
+ * About `count` round tick values covering [min, max]
+ */
+function niceTicks(min: number, max: number, count = 5): number[] {
+  if (max <= min) max = min + 1;
+  const rough = (max - min) / count;
+  const magnitude = 10 ** Math.floor(Math.log10(rough));
+  const step = [1, 2, 5, 10].map(m => m * magnitude).find(candidate => candidate >= rough) ?? rough;
+  const ticks: number[] = [];
+  for (let tick = Math.ceil(min / step) * step; tick <= max + step * 1e-9; tick += step) {
+    ticks.push(Number(tick.toPrecision(12)));
+  }
+  return ticks;
+}
+
+/**
+ * Chart frame with gridlines and labelled axes. `plot` receives scale
+ * functions from data to pixel coordinates and returns the chart's marks.
+ */
+function chart(
+  xDomain: [number, number],
+  yDomain: [number, number],
+  labels: { x: string; y: string; formatX?: (v: number) => string; formatY?: (v: number) => string },
+  plot: (x: (v: number) => number, y: (v: number) => number) => string
+): string {
+  const innerWidth = WIDTH - MARGIN.left - MARGIN.right;
+  const innerHeight = HEIGHT - MARGIN.top - MARGIN.bottom;
+  const [x0, x1] = xDomain[1] > xDomain[0] ? xDomain : [xDomain[0], xDomain[0] + 1];
+  const [y0, y1] = yDomain[1] > yDomain[0] ? yDomain : [yDomain[0], yDomain[0] + 1];
+  const x = (v: number) => Math.round((MARGIN.left + ((v - x0) / (x1 - x0)) * innerWidth) * 10) / 10;
+  const y = (v: number) => Math.round((MARGIN.top + innerHeight - ((v - y0) / (y1 - y0)) * innerHeight) * 10) / 10;
+  const formatX = labels.formatX ?? String;
+  const formatY = labels.formatY ?? String;
+
+  const grid = [
+    ...niceTicks(y0, y1).filter(t => t <= y1).map(t =>
+      `<line class="grid" x1="${MARGIN.left}" x2="${WIDTH - MARGIN.right}" y1="${y(t)}" y2="${y(t)}"/>` +
+      `<text class="tick" x="${MARGIN.left - 6}" y="${y(t) + 4}" text-anchor="end">${escapeHtml(formatY(t))}</text>`
+    ),
+    ...niceTicks(x0, x1, 8).filter(t => t <= x1).map(t =>
+      `<text class="tick" x="${x(t)}" y="${HEIGHT - MARGIN.bottom + 16}" text-anchor="middle">${escapeHtml(formatX(t))}</text>`
+    )
+  ].join('');
+
+  return `<svg viewBox="0 0 ${WIDTH} ${HEIGHT}" role="img">` +
+    grid +
+    `<line class="axis" x1="${MARGIN.left}" x2="${WIDTH - MARGIN.right}" y1="${y(y0)}" y2="${y(y0)}"/>` +
+    `<line class="axis" x1="${MARGIN.left}" x2="${MARGIN.left}" y1="${MARGIN.top}" y2="${y(y0)}"/>` +
+    plot(x, y) +
+    `<text class="label" x="${MARGIN.left + innerWidth / 2}" y="${HEIGHT - 8}" text-anchor="middle">${escapeHtml(labels.x)}</text>` +
+    `<text class="label" transform="translate(14 ${MARGIN.top + innerHeight / 2}) rotate(-90)" text-anchor="middle">${escapeHtml(labels.y)}</text>` +
+    `</svg>`;
+}
+
+function polyline(points: [number, number][], x: (v: number) => number, y: (v: number) => number, color: string): string {
+  const coordinates = points.map(([px, py]) => `${x(px)},${y(py)}`).join(' ');
+  return `<polyline fill="none" stroke="${color}" stroke-width="1.5" points="${coordinates}"/>`;
+}
+
+function legend(series: Series[]): string {
+  return `<div class="legend">${series.map((s, i) =>
+    `<span><i style="background:${PALETTE[i % PALETTE.length]}"></i>${escapeHtml(s.name)}</span>`
+  ).join('')}</div>`;
+}
+
+function lineChart(series: Series[], labels: Parameters<typeof chart>[2], yMax?: number): string {
+  const points = series.flatMap(s => s.points);
+  if (points.length === 0) return '<p class="empty">No data</p>';
+  const xs = points.map(([x]) => x);
+  const ys = points.map(([, y]) => y);
+  const svg = chart(
+    [Math.min(...xs), Math.max(...xs)],
+    [0, yMax ?? Math.max(...ys) * 1.1],
+    labels,
+    (x, y) => series.map((s, i) => polyline(s.points, x, y, PALETTE[i % PALETTE.length])).join('')
+  );
+  return svg + (series.length > 1 ? legend(series) : '');
+}
+
+// ============================================
+// 📊 CHARTS
+// ============================================
+
+function percentileOf(sorted: number[], percentile: number): number {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.min(sorted.length - 1, Math.ceil((percentile / 100) * sorted.length) - 1)];
+}
+
+function latencyScatter(samples: PerformanceMetric[], start: number): string {
+  if (samples.length === 0) return '<p class="empty">No data</p>';
+  const times = samples.map(m => m.responseTime);
+  const maxSeconds = (samples.at(-1)!.timestamp - start) / 1000;
+
+  return chart(
+    [0, maxSeconds],
+    [0, Math.max(...times) * 1.05],
+    { x: 'Seconds into run', y: 'Response time (ms)' },
+    (x, y) => samples.map(m =>
+      `<circle class="${m.expectationMet ? 'ok' : 'fail'}" cx="${x((m.timestamp - start) / 1000)}" cy="${y(m.responseTime)}" r="2">` +
+      `<title>${escapeHtml(`${m.method} ${m.endpoint} - ${formatMs(m.responseTime)} (${m.statusCode || m.errorClass})`)}</title></circle>`
+    ).join('')
+  ) + `<div class="legend"><span><i class="ok"></i>Met expectations</span><span><i class="fail"></i>Failed</span></div>`;
+}
+
+/**
+ * Response time distribution up to p99; slower responses go in the last bar
+ */
+function latencyHistogram(sorted: number[]): string {
+  if (sorted.length === 0) return '<p class="empty">No data</p>';
+  const upper = Math.max(percentileOf(sorted, 99), 1e-3);
+  const binWidth = upper / HISTOGRAM_BINS;
+  const counts = new Array<number>(HISTOGRAM_BINS).fill(0);
+  for (const value of sorted) {
+    counts[Math.min(HISTOGRAM_BINS - 1, Math.floor(value / binWidth))]++;
+  }
+  const percentages = counts.map(count => (count / sorted.length) * 100);
+
+  return chart(
+    [0, upper],
+    [0, Math.max(...percentages) * 1.1],
+    { x: 'Response time (ms), last bar includes everything above p99', y: '% of requests', formatY: v => `${v}%` },
+    (x, y) => percentages.map((percent, i) => {
+      const left = x(i * binWidth);
+      const barWidth = Math.max(1, x((i + 1) * binWidth) - left - 1);
+      return `<rect class="bar" x="${left}" y="${y(percent)}" width="${barWidth.toFixed(1)}" height="${(y(0) - y(percent)).toFixed(1)}">` +
+        `<title>${formatMs(i * binWidth)}-${formatMs((i + 1) * binWidth)}: ${percent.toFixed(1)}%</title></rect>`;
+    }).join('')
+  );
+}
+
+/**
+ * Cumulative distribution for all requests and the busiest endpoints, cut
+ * at p99.9 so one outlier doesn't flatten every curve
+ */
+function latencyCdf(samples: PerformanceMetric[], allSorted: number[]): string {
+  const byEndpoint = new Map<string, number[]>();
+  for (const metric of samples) {
+    const times = byEndpoint.get(metric.endpoint) ?? [];
+    times.push(metric.responseTime);
+    byEndpoint.set(metric.endpoint, times);
+  }
+  const busiest = [...byEndpoint].sort((a, b) => b[1].length - a[1].length).slice(0, MAX_CDF_ENDPOINTS);
+  const cutoff = percentileOf(allSorted, 99.9);
+
+  const cdf = (name: string, sorted: number[]): Series => ({
+    name,
+    points: sorted.filter(value => value <= cutoff).map((value, i) => [value, ((i + 1) / sorted.length) * 100])
+  });
+  const series = [
+    cdf('All requests', allSorted),
+    ...busiest.map(([endpoint, times]) => cdf(endpoint, times.sort((a, b) => a - b)))
+  ];
+
+  return lineChart(series, { x: 'Response time (ms)', y: '% of requests at or below', formatY: v => `${v}%` }, 100);
+}
+
+/**
+ * Per-second request counts and error rates. When timeSeriesData is a
+ * reservoir sample, counts are scaled back up to the real total.
+ */
+function timelines(samples: PerformanceMetric[], start: number, totalRequests: number): { throughput: string; errorRate: string } {
+  const seconds = new Map<number, { requests: number; failures: number }>();
+  for (const metric of samples) {
+    const second = Math.floor((metric.timestamp - start) / 1000);
+    const bucket = seconds.get(second) ?? { requests: 0, failures: 0 };
+    bucket.requests++;
+    if (!metric.expectationMet) bucket.failures++;
+    seconds.set(second, bucket);
+  }
+
+  const scale = samples.length > 0 ? totalRequests / samples.length : 1;
+  const lastSecond = Math.max(0, ...seconds.keys());
+  const throughput: [number, number][] = [];
+  const errorRate: [number, number][] = [];
+  for (let second = 0; second <= lastSecond; second++) {
+    const bucket = seconds.get(second) ?? { requests: 0, failures: 0 };
+    throughput.push([second, bucket.requests * scale]);
+    errorRate.push([second, bucket.requests > 0 ? (bucket.failures / bucket.requests) * 100 : 0]);
+  }
+
+  const xLabel = scale > 1 ? 'Seconds into run (estimated from sampled requests)' : 'Seconds into run';
+  return {
+    throughput: lineChart([{ name: 'Requests/second', points: throughput }], { x: xLabel, y: 'Requests/second' }),
+    errorRate: lineChart(
+      [{ name: 'Error rate', points: errorRate }],
+      { x: 'Seconds into run', y: 'Error rate', formatY: v => `${v}%` },
+      Math.max(5, ...errorRate.map(([, rate]) => rate))
+    )
+  };
+}
+
+// ============================================
+// 📋 TABLES
+// ============================================
+
+function table(headers: string[], rows: (string | number)[][]): string {
+  return `<table><thead><tr>${headers.map(h => `<th>${escapeHtml(h)}</th>`).join('')}</tr></thead><tbody>` +
+    rows.map(row => `<tr>${row.map(cell => `<td>${escapeHtml(String(cell))}</td>`).join('')}</tr>`).join('') +
+    `</tbody></table>`;
+}
+
+function summaryCards(report: PerformanceReport): string {
+  const { summary } = report;
+  const cards: [string, string][] = [
+    ['Requests', summary.totalRequests.toLocaleString()],
+    ['Success rate', `${summary.successRate.toFixed(2)}%`],
+    ['Average', formatMs(summary.averageResponseTime)],
+    ['P50', formatMs(summary.p50ResponseTime)],
+    ['P95', formatMs(summary.p95ResponseTime)],
+    ['P99', formatMs(summary.p99ResponseTime)],
+    ['Fastest', formatMs(summary.minResponseTime)],
+    ['Slowest', formatMs(summary.maxResponseTime)]
+  ];
+  return `<div class="cards">${cards.map(([label, value]) =>
+    `<div class="card"><span>${escapeHtml(label)}</span><strong>${escapeHtml(value)}</strong></div>`
+  ).join('')}</div>`;
+}
+
+/**
+ * A warning for every load generator that was too busy to be trusted
+ */
+function saturationNotes(report: PerformanceReport): string {
+  return saturatedGenerators(report).map(({ name, warnings }) =>
+    `<p class="warning">⚠️ ${escapeHtml(name)} was saturated (${escapeHtml(warnings.join('; '))}); response times include time spent waiting on it.</p>`
+  ).join('\n');
+}
+
+function endpointTable(report: PerformanceReport): string {
+  const rows = Object.entries(report.endpointBreakdown)
+    .sort((a, b) => b[1].requests - a[1].requests)
+    .map(([endpoint, stats]) => [
+      endpoint,
+      stats.requests,
+      formatMs(stats.avgResponseTime),
+      formatMs(stats.p50ResponseTime),
+      formatMs(stats.p95ResponseTime),
+      formatMs(stats.p99ResponseTime),
+      `${stats.successRate.toFixed(1)}%`,
+      Object.entries(stats.unexpectedReasons).map(([reason, count]) => `${reason} (${count})`).join(', ')
+    ]);
+  return table(['Endpoint', 'Requests', 'Avg', 'P50', 'P95', 'P99', 'Success', 'Unexpected responses'], rows);
+}
+
+function thresholdTable(report: PerformanceReport): string {
+  if (!report.thresholds?.length) return '';
+  return `<h2>Thresholds</h2>` + table(
+    ['Threshold', 'Actual', 'Result'],
+    report.thresholds.map(t => [t.expression, t.actual !== undefined ? t.actual.toFixed(2) : 'no data', t.passed ? 'PASS' : 'FAIL'])
+  );
+}
+
+const STYLE = `
+body { font-family: system-ui, -apple-system, 'Segoe UI', sans-serif; margin: 0 auto; max-width: 980px; padding: 24px; color: #1f2937; }
+h1 { margin-bottom: 4px; } h2 { margin-top: 36px; border-bottom: 1px solid #e5e7eb; padding-bottom: 6px; }
+.meta { color: #6b7280; margin-top: 0; }
+.cards { display: grid; grid-template-columns: repeat(4, 1fr); gap: 12px; }
+.card { border: 1px solid #e5e7eb; border-radius: 8px; padding: 12px; }
+.card span { display: block; color: #6b7280; font-size: 13px; } .card strong { font-size: 22px; }
+svg { width: 100%; height: auto; }
+.grid { stroke: #f3f4f6; } .axis { stroke: #9ca3af; }
+.tick { fill: #6b7280; font-size: 11px; } .label { fill: #374151; font-size: 12px; }
+.bar { fill: #2563eb; } circle.ok { fill: #2563eb; fill-opacity: .45; } circle.fail { fill: #dc2626; fill-opacity: .8; }
+.legend { display: flex; flex-wrap: wrap; gap: 14px; font-size: 13px; }
+.legend i { display: inline-block; width: 12px; height: 12px; border-radius: 2px; margin-right: 5px; vertical-align: -1px; }
+.legend i.ok { background: #2563eb; } .legend i.fail { background: #dc2626; }
+table { border-collapse: collapse; width: 100%; font-size: 14px; }
+th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #e5e7eb; }
+td:not(:first-child):not(:last-child), th:not(:first-child):not(:last-child) { text-align: right; }
+.empty, .note { color: #6b7280; } ul { padding-left: 20px; }
+.warning { color: #92400e; background: #fef3c7; padding: 8px 12px; border-radius: 6px; }
+`;
+
+/**
+ * Render a report as a single HTML file that opens offline: styles are
+ * inline and every chart is pre-rendered SVG
+ */
+export function renderHtmlReport(report: PerformanceReport, metadata: HtmlReportMetadata): string {
+  const samples = [...report.timeSeriesData].sort((a, b) => a.timestamp - b.timestamp);
+  const start = samples.length > 0 ? samples[0].timestamp - samples[0].responseTime : 0;
+  const sorted = samples.map(m => m.responseTime).sort((a, b) => a - b);
+  const { throughput, errorRate } = timelines(samples, start, report.summary.totalRequests);
+  const title = metadata.title ?? 'DenoGenesis Performance Report';
+  const sampled = samples.length < report.summary.totalRequests
+    ? `<p class="note">Charts use a uniform sample of ${samples.length.toLocaleString()} of ${report.summary.totalRequests.toLocaleString()} requests; the summary and endpoint table cover every request.</p>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p class="meta">${escapeHtml(metadata.baseUrl)} · ${escapeHtml(metadata.generatedAt)}</p>
+${saturationNotes(report)}
+${summaryCards(report)}
+${thresholdTable(report)}
+<h2>Latency over time</h2>
+${sampled}
+${latencyScatter(samples, start)}
+<h2>Latency distribution</h2>
+${latencyHistogram(sorted)}
+<h2>Cumulative distribution</h2>
+${latencyCdf(samples, sorted)}
+<h2>Throughput</h2>
+${throughput}
+<h2>Error rate</h2>
+${errorRate}
+<h2>Endpoints</h2>
+${endpointTable(report)}
+<h2>Recommendations</h2>
+<ul>${report.recommendations.map(r => `<li>${escapeHtml(r)}</li>`).join('')}</ul>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,356 @@
+// lib/httpClient.ts
+// ============================================
+// 🔬 Instrumented HTTP/1.1 client
+// DNS, connect, TLS, TTFB and download timings
+// ============================================
+
+import { RequestError } from './errors.ts';
+
+export interface RequestPhases {
+  dnsTime: number;          // 0 when the host is an IP literal or the connection was reused
+  connectTime: number;
+  tlsTime: number;          // 0 for plain HTTP
+  ttfbTime: number;         // Request written -> first response byte
+  downloadTime: number;     // First byte -> body fully read
+  connectionReused: boolean;
+}
+
+export interface DetailedResponse {
+  status: number;
+  headers: Headers;
+  body: string;
+  phases: RequestPhases;
+  totalTime: number;        // Sum of every phase plus request write time
+}
+
+export interface DetailedRequest {
+  method: string;
+  headers: Record<string, string>;
+  body?: string;
+  signal?: AbortSignal;     // Aborting closes the connection and rejects with the signal's reason
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+const CRLF = encoder.encode('\r\n');
+const HEADER_END = encoder.encode('\r\n\r\n');
+
+// Set from the body by the client, never taken from the request's headers
+const FRAMING_HEADERS = new Set(['content-length', 'transfer-encoding']);
+
+// Safe to resend on a fresh connection when a reused one turns out stale
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'PUT', 'DELETE', 'OPTIONS']);
+
+function indexOfBytes(haystack: Uint8Array, needle: Uint8Array, from = 0): number {
+  outer: for (let i = from; i <= haystack.length - needle.length; i++) {
+    for (let j = 0; j < needle.length; j++) {
+      if (haystack[i + j] !== needle[j]) continue outer;
+    }
+    return i;
+  }
+  return -1;
+}
+
+function concatBytes(chunks: Uint8Array[]): Uint8Array {
+  const total = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  const result = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
+
+const READ_SIZE = 16 * 1024;
+
+/**
+ * Minimal buffered reader over a connection. Unread bytes sit between
+ * `start` and `end`; the buffer doubles when full, so large bodies are
+ * copied a logarithmic number of times rather than on every read.
+ */
+class BufferedReader {
+  private buffer = new Uint8Array(READ_SIZE);
+  private start = 0;
+  private end = 0;
+  firstByteAt?: number;
+
+  constructor(private readonly conn: Deno.Conn) {}
+
+  get buffered(): number {
+    return this.end - this.start;
+  }
+
+  private async fill(): Promise<boolean> {
+    if (this.buffer.length - this.end < READ_SIZE) {
+      // Move unread bytes to the front, into a buffer twice the size if that's not enough room
+      const unread = this.buffer.subarray(this.start, this.end);
+      if (unread.length + READ_SIZE > this.buffer.length) {
+        this.buffer = new Uint8Array(this.buffer.length * 2);
+      }
+      this.buffer.set(unread);
+      this.start = 0;
+      this.end = unread.length;
+    }
+
+    const read = await this.conn.read(this.buffer.subarray(this.end));
+    if (read === null) return false;
+
+    this.firstByteAt ??= performance.now();
+    this.end += read;
+    return true;
+  }
+
+  private take(length: number): Uint8Array {
+    const result = this.buffer.slice(this.start, this.start + length);
+    this.start += length;
+    return result;
+  }
+
+  async readUntil(delimiter: Uint8Array): Promise<Uint8Array> {
+    let searched = 0;
+    let index: number;
+    while ((index = indexOfBytes(this.buffer.subarray(this.start, this.end), delimiter, searched)) === -1) {
+      // Bytes already searched can't start a match, except a partial one at the end
+      searched = Math.max(0, this.buffered - delimiter.length + 1);
+      if (!(await this.fill())) throw new Error('Connection closed before response completed');
+    }
+    const result = this.take(index);
+    this.take(delimiter.length);
+    return result;
+  }
+
+  async readExact(length: number): Promise<Uint8Array> {
+    while (this.buffered < length) {
+      if (!(await this.fill())) throw new Error('Connection closed before response body completed');
+    }
+    return this.take(length);
+  }
+
+  async readToEnd(): Promise<Uint8Array> {
+    while (await this.fill()) { /* keep reading until the server closes */ }
+    return this.take(this.buffered);
+  }
+}
+
+/**
+ * HTTP/1.1 client that times each phase of a request. Idle keep-alive
+ * connections are pooled per origin so reuse shows up in the timings.
+ */
+export class DetailedHttpClient {
+  private idle = new Map<string, Deno.Conn[]>();
+
+  /**
+   * Close all pooled connections
+   */
+  close(): void {
+    for (const conns of this.idle.values()) {
+      for (const conn of conns) {
+        try { conn.close(); } catch { /* already closed */ }
+      }
+    }
+    this.idle.clear();
+  }
+
+  /**
+   * The address to connect to. A name DNS does not know (one only in
+   * /etc/hosts, say) is returned as is for Deno.connect to resolve through
+   * the system resolver; that lookup then counts towards the connect time.
+   */
+  private async resolve(hostname: string): Promise<string> {
+    // IP literals and localhost need no lookup
+    if (/^[\d.]+$/.test(hostname) || hostname.includes(':')) return hostname;
+    if (hostname === 'localhost') return '127.0.0.1';
+
+    // An IPv6-only host fails the A lookup or answers it with no records
+    const ipv4 = await Deno.resolveDns(hostname, 'A').catch(() => []);
+    if (ipv4.length > 0) return ipv4[0];
+    const ipv6 = await Deno.resolveDns(hostname, 'AAAA').catch(() => []);
+    return ipv6[0] ?? hostname;
+  }
+
+  private async open(url: URL): Promise<{ conn: Deno.Conn; dnsTime: number; connectTime: number; tlsTime: number }> {
+    const hostname = url.hostname.replace(/^\[|\]$/g, '');
+    const secure = url.protocol === 'https:';
+    const port = Number(url.port) || (secure ? 443 : 80);
+
+    const dnsStart = performance.now();
+    const address = await this.resolve(hostname);
+    const connectStart = performance.now();
+    const tcp = await Deno.connect({ hostname: address, port });
+    const tlsStart = performance.now();
+    let conn: Deno.Conn = tcp;
+    if (secure) {
+      try {
+        conn = await Deno.startTls(tcp, { hostname });
+      } catch (error) {
+        tcp.close();
+        throw new RequestError('tls', `TLS handshake with ${hostname} failed: ${(error as Error).message}`, { cause: error });
+      }
+    }
+    const end = performance.now();
+
+    return {
+      conn,
+      dnsTime: connectStart - dnsStart,
+      connectTime: tlsStart - connectStart,
+      tlsTime: secure ? end - tlsStart : 0
+    };
+  }
+
+  async request(target: string, request: DetailedRequest): Promise<DetailedResponse> {
+    const url = new URL(target);
+    const origin = url.origin;
+    const { signal } = request;
+    signal?.throwIfAborted();
+    const startTime = performance.now();
+
+    let conn = this.idle.get(origin)?.pop();
+    const connectionReused = conn !== undefined;
+    let dnsTime = 0;
+    let connectTime = 0;
+    let tlsTime = 0;
+
+    if (!conn) {
+      const opening = this.open(url);
+      ({ conn, dnsTime, connectTime, tlsTime } = signal ? await abortable(opening, signal) : await opening);
+    }
+
+    // Closing the connection unblocks any pending read or write
+    const onAbort = () => {
+      try { conn.close(); } catch { /* already closed */ }
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    let reader: BufferedReader | undefined;
+    let bytesWritten = 0;
+    let headersRead = false;
+    try {
+      const bodyBytes = request.body !== undefined ? encoder.encode(request.body) : undefined;
+      // The body is framed here, so its length always comes from the bytes sent;
+      // a scenario's own Host or Connection replaces the default
+      const requestHeaders = Object.entries(request.headers).filter(([name]) => !FRAMING_HEADERS.has(name.toLowerCase()));
+      const overridden = new Set(requestHeaders.map(([name]) => name.toLowerCase()));
+      const headerLines = [
+        `${request.method} ${url.pathname}${url.search} HTTP/1.1`,
+        ...(overridden.has('host') ? [] : [`Host: ${url.host}`]),
+        ...(overridden.has('connection') ? [] : ['Connection: keep-alive']),
+        ...requestHeaders.map(([name, value]) => `${name}: ${value}`),
+        ...(bodyBytes ? [`Content-Length: ${bodyBytes.length}`] : [])
+      ];
+      const head = encoder.encode(headerLines.join('\r\n') + '\r\n\r\n');
+      const message = bodyBytes ? concatBytes([head, bodyBytes]) : head;
+
+      while (bytesWritten < message.length) {
+        bytesWritten += await conn.write(message.subarray(bytesWritten));
+      }
+      const sentAt = performance.now();
+
+      reader = new BufferedReader(conn);
+      const headerText = decoder.decode(await reader.readUntil(HEADER_END));
+      const [statusLine, ...rawHeaders] = headerText.split('\r\n');
+      const status = Number(statusLine.split(' ')[1]);
+      if (!Number.isInteger(status)) {
+        throw new Error(`Malformed status line: ${statusLine}`);
+      }
+
+      const headers = new Headers();
+      for (const line of rawHeaders) {
+        const separator = line.indexOf(':');
+        if (separator > 0) headers.append(line.slice(0, separator).trim(), line.slice(separator + 1).trim());
+      }
+      headersRead = true;
+
+      // Body framing: none, chunked, Content-Length or read-until-close
+      let body: Uint8Array;
+      let reusable = headers.get('connection')?.toLowerCase() !== 'close';
+      if (request.method === 'HEAD' || status === 204 || status === 304 || status < 200) {
+        body = new Uint8Array(0);
+      } else if (headers.get('transfer-encoding')?.toLowerCase().includes('chunked')) {
+        const chunks: Uint8Array[] = [];
+        while (true) {
+          const size = parseInt(decoder.decode(await reader.readUntil(CRLF)), 16);
+          if (!Number.isFinite(size)) throw new Error('Malformed chunked response');
+          if (size === 0) {
+            // Skip trailers up to the final blank line
+            while ((await reader.readUntil(CRLF)).length > 0) { /* trailer */ }
+            break;
+          }
+          chunks.push(await reader.readExact(size));
+          await reader.readUntil(CRLF);
+        }
+        body = concatBytes(chunks);
+      } else if (headers.has('content-length')) {
+        body = await reader.readExact(Number(headers.get('content-length')));
+      } else {
+        body = await reader.readToEnd();
+        reusable = false;
+      }
+      const endTime = performance.now();
+
+      if (reusable && reader.buffered === 0) {
+        const pool = this.idle.get(origin) ?? [];
+        pool.push(conn);
+        this.idle.set(origin, pool);
+      } else {
+        conn.close();
+      }
+
+      const firstByteAt = reader.firstByteAt ?? endTime;
+      return {
+        status,
+        headers,
+        body: decoder.decode(body),
+        phases: {
+          dnsTime,
+          connectTime,
+          tlsTime,
+          ttfbTime: firstByteAt - sentAt,
+          downloadTime: endTime - firstByteAt,
+          connectionReused
+        },
+        totalTime: endTime - startTime
+      };
+    } catch (error) {
+      try { conn.close(); } catch { /* already closed */ }
+      if (signal?.aborted) throw signal.reason;
+
+      // The server may have dropped an idle keep-alive connection; try another
+      // when nothing reached it, or when resending cannot repeat a side effect
+      const resendable = bytesWritten === 0 || (IDEMPOTENT_METHODS.has(request.method) && request.body === undefined);
+      if (connectionReused && reader?.firstByteAt === undefined && resendable) {
+        return this.request(target, request);
+      }
+      if (headersRead && !(error instanceof RequestError)) {
+        throw new RequestError('body_read', `Reading response body failed: ${(error as Error).message}`, { cause: error });
+      }
+      throw error;
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+}
+
+/**
+ * Reject with the signal's reason when it aborts first. A connection that
+ * opens after the abort is closed rather than leaked.
+ */
+function abortable<T extends { conn: Deno.Conn }>(opening: Promise<T>, signal: AbortSignal): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      opening.then(({ conn }) => conn.close(), () => {});
+      reject(signal.reason);
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+    opening.then(
+      result => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(result);
+      },
+      error => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
@@ -0,0 +1,456 @@
+// lib/mockServer.ts
+// ============================================
+// 🧪 Mock target server
+// Known latencies and failures, to check the suite's own numbers against
+// ============================================
+
+import { LatencyHistogram } from './histogram.ts';
+import { type Random, seededRandom } from './random.ts';
+import { delay } from './retry.ts';
+import { BUILT_IN_SCENARIOS, type Scenario, scenarioEndpoints } from './scenario.ts';
+import { parseDuration } from './stages.ts';
+
+export const DEFAULT_MOCK_PORT = 3004;
+
+/**
+ * How long the server waits before answering
+ */
+export type LatencyDistribution =
+  | { type: 'fixed'; ms: number }
+  | { type: 'uniform'; minMs: number; maxMs: number }
+  | { type: 'normal'; meanMs: number; stdDevMs: number }
+  | { type: 'exponential'; meanMs: number };
+
+/**
+ * Error: answer with a 5xx status. Reset: close the connection without
+ * answering. Hang: never answer, until the client gives up.
+ */
+export type FaultKind = 'error' | 'reset' | 'hang';
+
+export interface Fault {
+  kind: FaultKind;
+  rate: number;       // Fraction of requests, 0-1
+  status?: number;    // Error faults (default 500)
+  endpoint?: string;  // Only this path (default: every path)
+}
+
+export interface MockRoute {
+  path: string;        // As in the scenario; `{{placeholders}}` match any path segment
+  method: string;
+  status: number;      // The endpoint's first expected status, or 200
+  description: string;
+  latency?: LatencyDistribution;  // Overrides the server's
+}
+
+export interface MockServerOptions {
+  port?: number;
+  hostname?: string;
+  onListen?: (addr: Deno.NetAddr) => void;
+  scenario?: Scenario;             // Serves every endpoint in it (default: comprehensive)
+  latency?: LatencyDistribution;   // Default: answer at once
+  endpointLatency?: Record<string, LatencyDistribution>;  // Path -> distribution
+  faults?: Fault[];
+  seed?: string;                   // Same latencies and faults for the same sequence of requests
+}
+
+export interface MockServer {
+  readonly addr: Deno.NetAddr;
+  readonly routes: MockRoute[];
+  readonly latencies: LatencyHistogram;  // Delay injected before every answer, to compare reported percentiles with
+  readonly finished: Promise<void>;
+  shutdown(): Promise<void>;
+}
+
+const STATUS_TEXT: Record<number, string> = {
+  200: 'OK',
+  201: 'Created',
+  204: 'No Content',
+  400: 'Bad Request',
+  401: 'Unauthorized',
+  403: 'Forbidden',
+  404: 'Not Found',
+  405: 'Method Not Allowed',
+  429: 'Too Many Requests',
+  500: 'Internal Server Error',
+  502: 'Bad Gateway',
+  503: 'Service Unavailable',
+  504: 'Gateway Timeout'
+};
+
+const HEADER_END = '\r\n\r\n';
+
+// Request heads larger than this are refused
+const MAX_HEAD_BYTES = 64 * 1024;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// ============================================
+// 🔧 OPTIONS
+// ============================================
+
+function parseMs(value: string, spec: string): number {
+  try {
+    const ms = parseDuration(value) * 1000;
+    if (ms >= 0) return ms;
+  } catch {
+    // Reported below
+  }
+  throw new Error(`Invalid latency "${spec}": "${value}" is not a duration such as 20ms`);
+}
+
+/**
+ * `20ms` (fixed), `uniform:10ms-50ms`, `normal:40ms,5ms` (mean, standard
+ * deviation) or `exponential:20ms` (mean)
+ */
+export function parseLatency(spec: string): LatencyDistribution {
+  const [type, args] = spec.includes(':') ? spec.split(/:(.*)/s) : ['fixed', spec];
+
+  switch (type) {
+    case 'fixed':
+      return { type, ms: parseMs(args, spec) };
+    case 'uniform': {
+      const [min, max] = args.split('-');
+      const distribution = { type, minMs: parseMs(min, spec), maxMs: parseMs(max ?? '', spec) } as const;
+      if (distribution.maxMs < distribution.minMs) {
+        throw new Error(`Invalid latency "${spec}": the maximum is below the minimum`);
+      }
+      return distribution;
+    }
+    case 'normal': {
+      const [mean, stdDev] = args.split(',');
+      return { type, meanMs: parseMs(mean, spec), stdDevMs: parseMs(stdDev ?? '', spec) };
+    }
+    case 'exp':
+    case 'exponential':
+      return { type: 'exponential', meanMs: parseMs(args, spec) };
+    default:
+      throw new Error(`Invalid latency "${spec}" (expected e.g. 20ms, uniform:10ms-50ms, normal:40ms,5ms or exponential:20ms)`);
+  }
+}
+
+/**
+ * `[path ]distribution`, e.g. `normal:40ms,5ms` or `/api/blogs uniform:80ms-120ms`
+ */
+export function parseLatencyOption(spec: string): { endpoint?: string; distribution: LatencyDistribution } {
+  const match = spec.trim().match(/^(\/\S*)\s+(.+)$/);
+  return match ? { endpoint: match[1], distribution: parseLatency(match[2]) } : { distribution: parseLatency(spec.trim()) };
+}
+
+/**
+ * `[path ]kind=rate`, where kind is a 5xx status (or `5xx`, meaning 500),
+ * `reset` or `hang`, and rate is a percentage or a fraction, e.g.
+ * `503=2%`, `reset=0.01` or `/api/blogs hang=5%`
+ */
+export function parseFault(spec: string): Fault {
+  const match = spec.trim().match(/^(?:(\/\S*)\s+)?(\w+)\s*=\s*(\d+(?:\.\d+)?)(%?)$/);
+  if (!match) {
+    throw new Error(`Invalid fault "${spec}" (expected e.g. 503=2%, reset=1%, hang=0.5% or "/api/blogs 500=10%")`);
+  }
+  const [, endpoint, kind, amount, percent] = match;
+  const rate = parseFloat(amount) / (percent ? 100 : 1);
+  if (rate > 1) {
+    throw new Error(`Invalid fault "${spec}": the rate is over 100%`);
+  }
+
+  let fault: Fault;
+  if (kind === 'reset' || kind === 'hang') {
+    fault = { kind, rate };
+  } else if (kind === '5xx' || /^5\d\d$/.test(kind)) {
+    fault = { kind: 'error', rate, status: kind === '5xx' ? 500 : Number(kind) };
+  } else {
+    throw new Error(`Invalid fault "${spec}": "${kind}" is not a 5xx status, reset or hang`);
+  }
+  return { ...fault, ...(endpoint && { endpoint }) };
+}
+
+/**
+ * A latency drawn from the distribution, never negative
+ */
+export function sampleLatency(distribution: LatencyDistribution, random: Random): number {
+  switch (distribution.type) {
+    case 'fixed':
+      return distribution.ms;
+    case 'uniform':
+      return distribution.minMs + random() * (distribution.maxMs - distribution.minMs);
+    case 'normal': {
+      // Box-Muller
+      const z = Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+      return Math.max(0, distribution.meanMs + z * distribution.stdDevMs);
+    }
+    case 'exponential':
+      return -Math.log(1 - random()) * distribution.meanMs;
+  }
+}
+
+export function describeLatency(distribution: LatencyDistribution): string {
+  switch (distribution.type) {
+    case 'fixed':
+      return `${distribution.ms}ms`;
+    case 'uniform':
+      return `uniform ${distribution.minMs}-${distribution.maxMs}ms`;
+    case 'normal':
+      return `normal, mean ${distribution.meanMs}ms, sd ${distribution.stdDevMs}ms`;
+    case 'exponential':
+      return `exponential, mean ${distribution.meanMs}ms`;
+  }
+}
+
+/**
+ * One route per distinct method and path in the scenario. Repeated
+ * endpoints keep their first expected status.
+ */
+export function mockRoutes(scenario: Scenario, endpointLatency: Record<string, LatencyDistribution> = {}): MockRoute[] {
+  const endpoints = [
+    ...scenarioEndpoints(scenario),
+    ...Object.values(scenario.journeys ?? {}).flatMap(journey => journey.steps),
+    ...(scenario.auth ? [scenario.auth.login] : [])
+  ];
+
+  const routes = new Map<string, MockRoute>();
+  for (const endpoint of endpoints) {
+    const key = `${endpoint.method} ${endpoint.path}`;
+    if (routes.has(key)) continue;
+    const latency = endpointLatency[endpoint.path];
+    routes.set(key, {
+      path: endpoint.path,
+      method: endpoint.method,
+      status: endpoint.expectedStatus?.[0] ?? 200,
+      description: endpoint.description,
+      ...(latency && { latency })
+    });
+  }
+  return [...routes.values()];
+}
+
+// ============================================
+// 🌐 SERVER
+// ============================================
+
+interface ParsedRequest {
+  method: string;
+  path: string;
+  close: boolean;  // Connection: close, or HTTP/1.0
+}
+
+function routePattern(path: string): RegExp {
+  const escaped = path.split(/\{\{[^}]*\}\}/).map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  return new RegExp(`^${escaped.join('[^/]+')}$`);
+}
+
+function responseFor(path: string, status: number, allow: string): { body: string; contentType: string; headers?: Record<string, string> } {
+  if (status >= 400) {
+    const headers = status === 405 ? { 'Allow': allow } : undefined;
+    return { body: JSON.stringify({ error: STATUS_TEXT[status] ?? `HTTP ${status}` }), contentType: 'application/json', ...(headers && { headers }) };
+  }
+  if (path === '/') {
+    return { body: '<!DOCTYPE html><html><head><title>DenoGenesis mock</title></head><body><h1>DenoGenesis mock</h1></body></html>', contentType: 'text/html; charset=utf-8' };
+  }
+  if (path === '/health') {
+    return { body: JSON.stringify({ status: 'healthy' }), contentType: 'application/json' };
+  }
+  return { body: JSON.stringify({ success: true, path, data: [] }), contentType: 'application/json' };
+}
+
+function formatResponse(status: number, response: ReturnType<typeof responseFor>, close: boolean): Uint8Array {
+  const body = encoder.encode(response.body);
+  const headers = {
+    'Content-Type': response.contentType,
+    'Content-Length': String(body.length),
+    'Connection': close ? 'close' : 'keep-alive',
+    ...response.headers
+  };
+  const head = `HTTP/1.1 ${status} ${STATUS_TEXT[status] ?? ''}\r\n` +
+    Object.entries(headers).map(([name, value]) => `${name}: ${value}\r\n`).join('') + '\r\n';
+  const bytes = new Uint8Array(head.length + body.length);
+  bytes.set(encoder.encode(head));
+  bytes.set(body, head.length);
+  return bytes;
+}
+
+/**
+ * Reads requests off one connection. Bodies are read and discarded.
+ */
+class RequestReader {
+  private buffer = new Uint8Array(0);
+  private readonly reader: ReadableStreamDefaultReader<Uint8Array>;
+
+  constructor(conn: Deno.Conn) {
+    this.reader = conn.readable.getReader();
+  }
+
+  private append(chunk: Uint8Array): void {
+    const joined = new Uint8Array(this.buffer.length + chunk.length);
+    joined.set(this.buffer);
+    joined.set(chunk, this.buffer.length);
+    this.buffer = joined;
+  }
+
+  /**
+   * False once the client has closed the connection
+   */
+  private async fill(): Promise<boolean> {
+    const { value, done } = await this.reader.read();
+    if (done) return false;
+    this.append(value);
+    return true;
+  }
+
+  /**
+   * The next request, or undefined when the connection closed
+   */
+  async next(): Promise<ParsedRequest | undefined> {
+    let end: number;
+    while ((end = decoder.decode(this.buffer).indexOf(HEADER_END)) === -1) {
+      if (this.buffer.length > MAX_HEAD_BYTES) throw new Error('Request head too large');
+      if (!await this.fill()) return undefined;
+    }
+
+    // Heads are ASCII, so string and byte offsets agree
+    const [requestLine, ...headerLines] = decoder.decode(this.buffer.subarray(0, end)).split('\r\n');
+    const [method, target, version] = requestLine.split(' ');
+    const headers = new Map(headerLines.map(line => {
+      const colon = line.indexOf(':');
+      return [line.slice(0, colon).trim().toLowerCase(), line.slice(colon + 1).trim()];
+    }));
+    if (headers.has('transfer-encoding')) throw new Error('Chunked request bodies are not supported');
+
+    const bodyLength = Number(headers.get('content-length') ?? 0);
+    const total = end + HEADER_END.length + bodyLength;
+    while (this.buffer.length < total) {
+      if (!await this.fill()) return undefined;
+    }
+    this.buffer = this.buffer.slice(total);
+
+    return {
+      method,
+      path: (target ?? '/').replace(/[?#].*$/, ''),
+      close: headers.get('connection')?.toLowerCase() === 'close' || version === 'HTTP/1.0'
+    };
+  }
+
+  /**
+   * Wait until the client closes the connection (or it is closed under us)
+   */
+  async drain(): Promise<void> {
+    try {
+      while (await this.fill()) this.buffer = new Uint8Array(0);
+    } catch {
+      // Closed
+    }
+  }
+}
+
+/**
+ * Serve the scenario's endpoints with injected latencies and faults. Plain
+ * HTTP/1.1 on a TCP listener rather than Deno.serve, so that a reset can
+ * close the connection without any response.
+ */
+export function serveMock(options: MockServerOptions = {}): MockServer {
+  const routes = mockRoutes(options.scenario ?? BUILT_IN_SCENARIOS.comprehensive, options.endpointLatency);
+  const patterns = routes.map(route => ({ route, pattern: routePattern(route.path) }));
+  const faults = options.faults ?? [];
+  for (const route of routes) {
+    const total = faults.filter(fault => !fault.endpoint || fault.endpoint === route.path).reduce((sum, fault) => sum + fault.rate, 0);
+    if (total > 1) {
+      throw new Error(`Fault rates for ${route.path} add up to more than 100%`);
+    }
+  }
+
+  const random = options.seed !== undefined ? seededRandom(options.seed) : Math.random;
+  const listener = Deno.listen({ port: options.port ?? DEFAULT_MOCK_PORT, hostname: options.hostname ?? '127.0.0.1' });
+  const addr = listener.addr as Deno.NetAddr;
+  const closing = new AbortController();
+  const closed = new Promise<void>(resolve => closing.signal.addEventListener('abort', () => resolve(), { once: true }));
+  const connections = new Set<Deno.Conn>();
+  const handlers = new Set<Promise<void>>();
+  const latencies = new LatencyHistogram();
+
+  const pickFault = (path: string): Fault | undefined => {
+    let roll = random();
+    for (const fault of faults) {
+      if (fault.endpoint && fault.endpoint !== path) continue;
+      if (roll < fault.rate) return fault;
+      roll -= fault.rate;
+    }
+    return undefined;
+  };
+
+  const handle = async (conn: Deno.Conn) => {
+    const requests = new RequestReader(conn);
+    const writer = conn.writable.getWriter();
+    try {
+      for (let request; (request = await requests.next()) !== undefined;) {
+        const matches = patterns.filter(({ pattern }) => pattern.test(request!.path)).map(({ route }) => route);
+        const route = matches.find(route => route.method === request!.method);
+        const status = route?.status ?? (matches.length > 0 ? 405 : 404);
+        // A route that answers 405 itself stands in for a POST-only endpoint
+        const allowed = matches.filter(route => route.status !== 405).map(route => route.method);
+        const allow = allowed.length > 0 ? allowed.join(', ') : 'POST';
+
+        const fault = pickFault(route?.path ?? request.path);
+        if (fault?.kind === 'reset') return;
+        if (fault?.kind === 'hang') {
+          await Promise.race([requests.drain(), closed]);
+          return;
+        }
+
+        const distribution = route?.latency ?? options.latency;
+        const latency = distribution ? sampleLatency(distribution, random) : 0;
+        await delay(latency, closing.signal);
+        if (closing.signal.aborted) return;
+        latencies.record(latency);
+
+        const answer = fault?.kind === 'error' ? fault.status! : status;
+        await writer.write(formatResponse(answer, responseFor(request.path, answer, allow), request.close));
+        if (request.close) return;
+      }
+    } catch {
+      // The client went away, or sent something we can't read
+    } finally {
+      connections.delete(conn);
+      try {
+        conn.close();
+      } catch {
+        // Already closed
+      }
+    }
+  };
+
+  const finished = (async () => {
+    try {
+      for await (const conn of listener) {
+        connections.add(conn);
+        const handler = handle(conn);
+        handlers.add(handler);
+        handler.finally(() => handlers.delete(handler));
+      }
+    } catch {
+      // Listener closed by shutdown()
+    }
+    await Promise.all(handlers);
+  })();
+
+  options.onListen?.(addr);
+
+  return {
+    addr,
+    routes,
+    latencies,
+    finished,
+    async shutdown() {
+      if (!closing.signal.aborted) {
+        closing.abort();
+        listener.close();
+        for (const conn of connections) {
+          try {
+            conn.close();
+          } catch {
+            // Already closed
+          }
+        }
+      }
+      await finished;
+    }
+  };
+}
@@ -0,0 +1,149 @@
+// lib/plan.ts
+// ============================================
+// 🗂️ Request plans
+// The exact requests of a run, recorded to replay against another build
+// ============================================
+
+import type { AuthConfig, EndpointDefinition } from './scenario.ts';
+import type { DataSet } from './templates.ts';
+
+export const REQUEST_PLAN_VERSION = 1;
+
+/**
+ * Closed: each virtual user sends its next request `wait` ms after the
+ * previous response. Open: requests go out at `at` however the server copes.
+ */
+export type PlanModel = 'closed' | 'open';
+
+export interface PlannedRequest {
+  endpoint: number;   // Index into RequestPlan.endpoints
+  at: number;         // ms after the start of the run; open model: intended send time
+  user?: number;      // Load tests: virtual user
+  wait?: number;      // Closed model: ms after the user's previous response (or the start)
+  login?: boolean;    // The scenario's login request; replays set the user's login state from it
+}
+
+export interface RequestPlan {
+  version: number;
+  mode: string;                     // Run that recorded it, e.g. "load" or "rate"
+  model: PlanModel;
+  seed?: string;                    // Template values are replayed from the same streams
+  baseUrl: string;                  // Where it was recorded (or the log it came from)
+  recordedAt: string;
+  durationSeconds?: number;         // Requests still running then were cut off
+  maxInFlight?: number;             // Open model
+  sessions?: boolean;               // Users carried login, cookies and extracted variables
+  auth?: AuthConfig;
+  data?: Record<string, DataSet>;
+  endpoints: EndpointDefinition[];  // Unrendered, placeholders included
+  requests: PlannedRequest[];
+}
+
+export type PlanInfo = Omit<RequestPlan, 'version' | 'recordedAt' | 'endpoints' | 'requests'>;
+
+// Microseconds, truncated so an arrival just inside the run never lands at its end
+function truncate(ms: number): number {
+  return Math.floor(ms * 1000) / 1000;
+}
+
+/**
+ * Collects first attempts as a run sends them. Retries are not part of the
+ * plan; a replay retries under its own policy.
+ */
+export class RequestPlanRecorder {
+  private endpoints: EndpointDefinition[] = [];
+  private indexes = new Map<string, number>();
+  private requests: PlannedRequest[] = [];
+  private lastResponse = new Map<number | undefined, number>(); // performance.now() per user
+  private readonly recordedAt = new Date().toISOString();
+  private readonly loginKey?: string;
+
+  constructor(readonly info: PlanInfo, private readonly startTime = performance.now()) {
+    if (info.auth) this.loginKey = JSON.stringify(info.auth.login);
+  }
+
+  /**
+   * A request going out now, or at its scheduled time `at` (performance.now() clock)
+   */
+  request(endpoint: EndpointDefinition, { user, at = performance.now() }: { user?: number; at?: number } = {}): void {
+    const key = JSON.stringify(endpoint);
+    let index = this.indexes.get(key);
+    if (index === undefined) {
+      index = this.endpoints.push(endpoint) - 1;
+      this.indexes.set(key, index);
+    }
+
+    const previous = this.lastResponse.get(user) ?? this.startTime;
+    this.requests.push({
+      endpoint: index,
+      at: truncate(at - this.startTime),
+      ...(user !== undefined && { user }),
+      ...(this.info.model === 'closed' && { wait: truncate(Math.max(0, at - previous)) }),
+      ...(key === this.loginKey && { login: true })
+    });
+  }
+
+  /**
+   * The user's request finished; its next wait is timed from here
+   */
+  response(user?: number): void {
+    this.lastResponse.set(user, performance.now());
+  }
+
+  get plan(): RequestPlan {
+    return {
+      version: REQUEST_PLAN_VERSION,
+      ...this.info,
+      recordedAt: this.recordedAt,
+      endpoints: this.endpoints,
+      requests: this.requests
+    };
+  }
+}
+
+export async function saveRequestPlan(path: string, plan: RequestPlan): Promise<void> {
+  await Deno.writeTextFile(path, JSON.stringify(plan, null, 2));
+}
+
+/**
+ * Check a parsed plan file; `source` names it in errors
+ */
+export function validateRequestPlan(raw: unknown, source: string): RequestPlan {
+  const plan = raw as RequestPlan;
+  if (!plan || typeof plan !== 'object' || !Array.isArray(plan.endpoints) || !Array.isArray(plan.requests)) {
+    throw new Error(`${source} is not a request plan (missing endpoints or requests)`);
+  }
+  if (plan.version !== REQUEST_PLAN_VERSION) {
+    throw new Error(`${source}: unsupported request plan version ${plan.version} (expected ${REQUEST_PLAN_VERSION})`);
+  }
+  if (plan.model !== 'closed' && plan.model !== 'open') {
+    throw new Error(`${source}: unknown model "${plan.model}" (expected closed or open)`);
+  }
+  if (plan.model === 'open' && !(plan.durationSeconds! > 0)) {
+    throw new Error(`${source}: open-model plans need durationSeconds`);
+  }
+  const invalid = plan.requests.findIndex(request => !(request.endpoint >= 0 && request.endpoint < plan.endpoints.length));
+  if (invalid !== -1) {
+    throw new Error(`${source}: requests[${invalid}] points at a missing endpoint`);
+  }
+  return plan;
+}
+
+/**
+ * The plan played `speed` times faster (or slower, below 1): arrival
+ * times, think times and the run's duration are all divided by it
+ */
+export function scalePlan(plan: RequestPlan, speed: number): RequestPlan {
+  if (!(speed > 0)) {
+    throw new Error(`Replay speed must be a positive number, got ${speed}`);
+  }
+  return {
+    ...plan,
+    ...(plan.durationSeconds !== undefined && { durationSeconds: plan.durationSeconds / speed }),
+    requests: plan.requests.map(request => ({
+      ...request,
+      at: request.at / speed,
+      ...(request.wait !== undefined && { wait: request.wait / speed })
+    }))
+  };
+}
@@ -0,0 +1,168 @@
+// lib/prometheus.ts
+// ============================================
+// 📡 Prometheus exposition for monitor mode
+// /metrics endpoint and push-gateway style POSTs
+// ============================================
+
+import type { PerformanceMetric } from './types.ts';
+
+export interface MetricsExportOptions {
+  port?: number;        // Serve /metrics on this port (0 picks a free one)
+  hostname?: string;    // Default 127.0.0.1
+  pushUrl?: string;     // POST the exposition here after every check
+}
+
+// Seconds, following Prometheus naming conventions
+export const DURATION_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+const PREFIX = 'denogenesis';
+
+interface DurationSeries {
+  labels: Record<string, string>;
+  buckets: number[];  // Non-cumulative counts per DURATION_BUCKETS entry
+  count: number;
+  sum: number;
+}
+
+interface ProbeState {
+  up: boolean;
+  lastCheck: number;      // Unix seconds
+  lastDuration: number;   // Seconds
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: Record<string, string>, extra: Record<string, string> = {}): string {
+  const entries = Object.entries({ ...labels, ...extra });
+  if (entries.length === 0) return '';
+  return `{${entries.map(([name, value]) => `${name}="${escapeLabelValue(value)}"`).join(',')}}`;
+}
+
+function formatValue(value: number): string {
+  return value === Infinity ? '+Inf' : String(value);
+}
+
+/**
+ * Probe results in Prometheus text format: per-endpoint latency histograms,
+ * request counters by status, and up/down gauges from the latest probe
+ */
+export class PrometheusRegistry {
+  private durations = new Map<string, DurationSeries>();
+  private requests = new Map<string, { labels: Record<string, string>; count: number }>();
+  private probes = new Map<string, ProbeState>();
+
+  observe(metric: PerformanceMetric): void {
+    const labels = { endpoint: metric.endpoint, method: metric.method };
+    const seconds = metric.responseTime / 1000;
+
+    const key = `${metric.method} ${metric.endpoint}`;
+    let series = this.durations.get(key);
+    if (!series) {
+      series = { labels, buckets: new Array(DURATION_BUCKETS.length).fill(0), count: 0, sum: 0 };
+      this.durations.set(key, series);
+    }
+    const bucket = DURATION_BUCKETS.findIndex(bound => seconds <= bound);
+    if (bucket !== -1) series.buckets[bucket]++;
+    series.count++;
+    series.sum += seconds;
+
+    // No response: the error class stands in for the status code
+    const status = metric.statusCode > 0 ? String(metric.statusCode) : (metric.errorClass ?? 'error');
+    const requestKey = `${key} ${status}`;
+    const counter = this.requests.get(requestKey) ?? { labels: { ...labels, status }, count: 0 };
+    counter.count++;
+    this.requests.set(requestKey, counter);
+
+    this.probes.set(metric.endpoint, {
+      up: metric.expectationMet,
+      lastCheck: metric.timestamp / 1000,
+      lastDuration: seconds
+    });
+  }
+
+  /**
+   * Text exposition format 0.0.4
+   */
+  render(): string {
+    const lines: string[] = [];
+
+    lines.push(
+      `# HELP ${PREFIX}_request_duration_seconds Probe response time, including the body read.`,
+      `# TYPE ${PREFIX}_request_duration_seconds histogram`
+    );
+    for (const series of this.durations.values()) {
+      let cumulative = 0;
+      DURATION_BUCKETS.forEach((bound, i) => {
+        cumulative += series.buckets[i];
+        lines.push(`${PREFIX}_request_duration_seconds_bucket${formatLabels(series.labels, { le: formatValue(bound) })} ${cumulative}`);
+      });
+      lines.push(
+        `${PREFIX}_request_duration_seconds_bucket${formatLabels(series.labels, { le: '+Inf' })} ${series.count}`,
+        `${PREFIX}_request_duration_seconds_sum${formatLabels(series.labels)} ${formatValue(series.sum)}`,
+        `${PREFIX}_request_duration_seconds_count${formatLabels(series.labels)} ${series.count}`
+      );
+    }
+
+    lines.push(
+      `# HELP ${PREFIX}_requests_total Probe requests by status code, or error class when no response arrived.`,
+      `# TYPE ${PREFIX}_requests_total counter`
+    );
+    for (const counter of this.requests.values()) {
+      lines.push(`${PREFIX}_requests_total${formatLabels(counter.labels)} ${counter.count}`);
+    }
+
+    const probes = [...this.probes];
+    lines.push(
+      `# HELP ${PREFIX}_probe_up Whether the latest probe met the endpoint's expectations (1) or not (0).`,
+      `# TYPE ${PREFIX}_probe_up gauge`,
+      ...probes.map(([endpoint, probe]) => `${PREFIX}_probe_up${formatLabels({ endpoint })} ${probe.up ? 1 : 0}`),
+      `# HELP ${PREFIX}_probe_duration_seconds Response time of the latest probe.`,
+      `# TYPE ${PREFIX}_probe_duration_seconds gauge`,
+      ...probes.map(([endpoint, probe]) => `${PREFIX}_probe_duration_seconds${formatLabels({ endpoint })} ${formatValue(probe.lastDuration)}`),
+      `# HELP ${PREFIX}_probe_last_check_timestamp_seconds When the endpoint was last probed.`,
+      `# TYPE ${PREFIX}_probe_last_check_timestamp_seconds gauge`,
+      ...probes.map(([endpoint, probe]) => `${PREFIX}_probe_last_check_timestamp_seconds${formatLabels({ endpoint })} ${formatValue(probe.lastCheck)}`)
+    );
+
+    return lines.join('\n') + '\n';
+  }
+}
+
+/**
+ * Serve `registry` on `/metrics` until the returned server is shut down
+ */
+export function serveMetrics(registry: PrometheusRegistry, options: { port: number; hostname?: string; onListen?: (addr: Deno.NetAddr) => void }): Deno.HttpServer<Deno.NetAddr> {
+  return Deno.serve({
+    port: options.port,
+    hostname: options.hostname ?? '127.0.0.1',
+    onListen: options.onListen ?? (() => {})
+  }, request => {
+    if (new URL(request.url).pathname !== '/metrics') {
+      return new Response('Not found\n', { status: 404 });
+    }
+    return new Response(registry.render(), { headers: { 'content-type': PROMETHEUS_CONTENT_TYPE } });
+  });
+}
+
+/**
+ * POST the current exposition, push-gateway style. Failures are returned
+ * rather than thrown so a flaky gateway can't stop monitoring.
+ */
+export async function pushMetrics(registry: PrometheusRegistry, url: string, signal?: AbortSignal): Promise<string | undefined> {
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'content-type': PROMETHEUS_CONTENT_TYPE },
+      body: registry.render(),
+      signal: signal ?? AbortSignal.timeout(10_000)
+    });
+    await response.body?.cancel();
+    return response.ok ? undefined : `push to ${url} failed: HTTP ${response.status}`;
+  } catch (error) {
+    return `push to ${url} failed: ${(error as Error).message}`;
+  }
+}
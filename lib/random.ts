@@ -0,0 +1,44 @@
+// lib/random.ts
+// ============================================
+// 🎲 Seeded randomness
+// Reproducible request mixes, think times and test data
+// ============================================
+
+/**
+ * A number in [0, 1), like Math.random()
+ */
+export type Random = () => number;
+
+/**
+ * 32-bit FNV-1a, so any string can seed a generator
+ */
+function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Mulberry32: small and fast, and plenty for picking endpoints. The same
+ * seed always gives the same sequence.
+ */
+export function seededRandom(seed: string): Random {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * A fresh seed for runs started without --seed, so every export can still
+ * be reproduced
+ */
+export function randomSeed(): string {
+  return crypto.getRandomValues(new Uint32Array(1))[0].toString(16).padStart(8, '0');
+}
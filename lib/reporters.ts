@@ -0,0 +1,298 @@
+// lib/reporters.ts
+// ============================================
+// 📤 Reporters
+// Console, JSON, CSV, JUnit XML, Markdown and HTML output
+// ============================================
+
+import { displayReport } from './consoleReporter.ts';
+import { type RunEnvironment, saturatedGenerators } from './environment.ts';
+import { renderHtmlReport } from './htmlReport.ts';
+import { formatMetric } from './thresholds.ts';
+import type { PerformanceMetric, PerformanceReport } from './types.ts';
+
+export interface ReportContext {
+  baseUrl: string;
+  generatedAt: string;           // ISO timestamp, shared by every file of one run
+  output?: string;               // File chosen on the command line; otherwise a timestamped name
+  seed?: string;                 // Reruns with this --seed send the same request mix
+  environment?: RunEnvironment;  // Machine, resolved settings and target version
+}
+
+/**
+ * One output format. File reporters write next to each other under the same
+ * timestamped name unless given an explicit path.
+ */
+export interface Reporter {
+  readonly name: string;         // As selected with --report
+  readonly description: string;  // For the CLI help
+  write(report: PerformanceReport, context: ReportContext): Promise<void>;
+}
+
+/**
+ * A reporter chosen on the command line, e.g. `junit=results.xml`
+ */
+export interface ReporterSelection {
+  reporter: Reporter;
+  output?: string;
+}
+
+/**
+ * `output`, or a timestamped file name with `extension`
+ */
+function outputPath(context: ReportContext, extension: string): string {
+  return context.output ?? `denogenesis-performance-${context.generatedAt.replace(/[:.]/g, '-')}${extension}`;
+}
+
+function formatMs(value: number): string {
+  return `${value.toFixed(1)}ms`;
+}
+
+// ============================================
+// 📄 JSON
+// ============================================
+
+export const jsonReporter: Reporter = {
+  name: 'json',
+  description: 'Full report with metadata (default)',
+  async write(report, context) {
+    const exportFilename = outputPath(context, '.json');
+    const exportData = {
+      metadata: {
+        testTimestamp: context.generatedAt,
+        baseUrl: context.baseUrl,
+        testType: 'simple-performance-test',
+        ...(context.seed && { seed: context.seed }),
+        ...(context.environment && {
+          environment: context.environment.fingerprint,
+          configuration: context.environment.configuration,
+          ...(context.environment.serverVersion && { serverVersion: context.environment.serverVersion })
+        })
+      },
+      ...report
+    };
+
+    await Deno.writeTextFile(exportFilename, JSON.stringify(exportData, null, 2));
+    console.log(`\n💾 Results exported to: ${exportFilename}`);
+  }
+};
+
+// ============================================
+// 📊 CSV
+// ============================================
+
+const METRIC_COLUMNS: (keyof PerformanceMetric)[] = [
+  'timestamp', 'method', 'endpoint', 'statusCode', 'responseTime', 'contentLength', 'expectationMet', 'unexpectedReason',
+  'unexpectedValue', 'errorClass', 'errorMessage', 'attempts', 'serviceTime', 'stage', 'journey', 'journeyStep',
+  'dnsTime', 'connectTime', 'tlsTime', 'ttfbTime', 'downloadTime', 'connectionReused'
+];
+
+function csvField(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csv(rows: unknown[][]): string {
+  return rows.map(row => row.map(csvField).join(',')).join('\n') + '\n';
+}
+
+/**
+ * Raw request rows (the timeSeriesData sample), one per line
+ */
+export function metricsCsv(metrics: PerformanceMetric[]): string {
+  return csv([METRIC_COLUMNS, ...metrics.map(metric => METRIC_COLUMNS.map(column => metric[column]))]);
+}
+
+/**
+ * Per-endpoint breakdown, one endpoint per line
+ */
+export function endpointsCsv(report: PerformanceReport): string {
+  return csv([
+    ['endpoint', 'requests', 'avgResponseTime', 'p50ResponseTime', 'p95ResponseTime', 'p99ResponseTime', 'successRate', 'expectedResponses', 'unexpectedResponses'],
+    ...Object.entries(report.endpointBreakdown).map(([endpoint, stats]) => [
+      endpoint, stats.requests, stats.avgResponseTime, stats.p50ResponseTime, stats.p95ResponseTime, stats.p99ResponseTime,
+      stats.successRate, stats.expectedResponses, stats.unexpectedResponses
+    ])
+  ]);
+}
+
+export const csvReporter: Reporter = {
+  name: 'csv',
+  description: 'Endpoint breakdown, plus a sample of raw request rows in <name>-requests-sample.csv',
+  async write(report, context) {
+    const endpointsFile = outputPath(context, '.csv');
+    // Runs keep a bounded sample of requests, so the rows file says so in its name
+    const samplesFile = endpointsFile.replace(/(\.csv)?$/i, '-requests-sample.csv');
+
+    await Deno.writeTextFile(endpointsFile, endpointsCsv(report));
+    await Deno.writeTextFile(samplesFile, metricsCsv(report.timeSeriesData));
+    console.log(`📊 CSV exported to: ${endpointsFile}, ${samplesFile} ` +
+      `(${report.timeSeriesData.length.toLocaleString()} of ${report.summary.totalRequests.toLocaleString()} requests)`);
+  }
+};
+
+// ============================================
+// 🧪 JUNIT XML
+// ============================================
+
+function escapeXml(text: string): string {
+  return text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+/**
+ * Thresholds as test cases, so CI shows each one as passed or failed. Summary
+ * figures are attached as suite properties.
+ */
+export function junitXml(report: PerformanceReport, context: ReportContext): string {
+  const thresholds = report.thresholds ?? [];
+  const failures = thresholds.filter(t => !t.passed).length;
+  const { summary } = report;
+
+  const properties: [string, string | number][] = [
+    ['baseUrl', context.baseUrl],
+    ['totalRequests', summary.totalRequests],
+    ['averageResponseTime', summary.averageResponseTime.toFixed(1)],
+    ['p95ResponseTime', summary.p95ResponseTime.toFixed(1)],
+    ['p99ResponseTime', summary.p99ResponseTime.toFixed(1)],
+    ['errorRate', summary.errorRate.toFixed(2)]
+  ];
+
+  const testCases = thresholds.map(threshold => {
+    const actual = threshold.actual !== undefined ? formatMetric(threshold.metric, threshold.actual) : 'no requests';
+    const name = escapeXml(threshold.expression);
+    return threshold.passed
+      ? `    <testcase classname="thresholds" name="${name}"/>`
+      : `    <testcase classname="thresholds" name="${name}">\n` +
+        `      <failure message="${escapeXml(`actual: ${actual}`)}" type="threshold">${name} (actual: ${escapeXml(actual)})</failure>\n` +
+        `    </testcase>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="DenoGenesis performance" tests="${thresholds.length}" failures="${failures}">`,
+    `  <testsuite name="thresholds" tests="${thresholds.length}" failures="${failures}" errors="0" skipped="0" timestamp="${context.generatedAt}">`,
+    '    <properties>',
+    ...properties.map(([name, value]) => `      <property name="${name}" value="${escapeXml(String(value))}"/>`),
+    '    </properties>',
+    ...testCases,
+    '  </testsuite>',
+    '</testsuites>',
+    ''
+  ].join('\n');
+}
+
+export const junitReporter: Reporter = {
+  name: 'junit',
+  description: 'Thresholds as JUnit test cases for CI',
+  async write(report, context) {
+    const exportFilename = outputPath(context, '.xml');
+    await Deno.writeTextFile(exportFilename, junitXml(report, context));
+    console.log(`🧪 JUnit XML exported to: ${exportFilename}`);
+  }
+};
+
+// ============================================
+// 📝 MARKDOWN
+// ============================================
+
+/**
+ * Compact summary for PR comments: headline numbers and thresholds, with the
+ * endpoint table folded away
+ */
+export function markdownSummary(report: PerformanceReport, context: ReportContext): string {
+  const { summary } = report;
+  const lines = [
+    `### 📊 Performance: ${context.baseUrl}`,
+    '',
+    '| Requests | Avg | P50 | P95 | P99 | Success |',
+    '|---:|---:|---:|---:|---:|---:|',
+    `| ${summary.totalRequests.toLocaleString()} | ${formatMs(summary.averageResponseTime)} | ${formatMs(summary.p50ResponseTime)} | ` +
+      `${formatMs(summary.p95ResponseTime)} | ${formatMs(summary.p99ResponseTime)} | ${summary.successRate.toFixed(2)}% |`
+  ];
+
+  for (const { name, warnings } of saturatedGenerators(report)) {
+    lines.push('', `> ⚠️ ${name} was saturated (${warnings.join('; ')}); response times include time spent waiting on it.`);
+  }
+
+  if (report.thresholds?.length) {
+    const failed = report.thresholds.filter(t => !t.passed).length;
+    lines.push('', failed === 0
+      ? `**Thresholds:** ✅ all ${report.thresholds.length} passed`
+      : `**Thresholds:** ❌ ${failed} of ${report.thresholds.length} failed`);
+    for (const threshold of report.thresholds) {
+      const actual = threshold.actual !== undefined ? formatMetric(threshold.metric, threshold.actual) : 'no requests';
+      lines.push(`- ${threshold.passed ? '✅' : '❌'} \`${threshold.expression}\` (actual: ${actual})`);
+    }
+  }
+
+  const endpoints = Object.entries(report.endpointBreakdown).sort((a, b) => b[1].requests - a[1].requests);
+  lines.push(
+    '',
+    `<details><summary>Endpoints (${endpoints.length})</summary>`,
+    '',
+    '| Endpoint | Requests | Avg | P95 | Success |',
+    '|---|---:|---:|---:|---:|',
+    ...endpoints.map(([endpoint, stats]) =>
+      `| \`${endpoint}\` | ${stats.requests} | ${formatMs(stats.avgResponseTime)} | ${formatMs(stats.p95ResponseTime)} | ${stats.successRate.toFixed(1)}% |`
+    ),
+    '',
+    '</details>',
+    ''
+  );
+  return lines.join('\n');
+}
+
+export const markdownReporter: Reporter = {
+  name: 'markdown',
+  description: 'Compact summary for PR comments',
+  async write(report, context) {
+    const exportFilename = outputPath(context, '.md');
+    await Deno.writeTextFile(exportFilename, markdownSummary(report, context));
+    console.log(`📝 Markdown summary exported to: ${exportFilename}`);
+  }
+};
+
+// ============================================
+// 🌐 HTML / CONSOLE
+// ============================================
+
+export const htmlReporter: Reporter = {
+  name: 'html',
+  description: 'Self-contained HTML report with charts',
+  async write(report, context) {
+    const exportFilename = outputPath(context, '.html');
+    await Deno.writeTextFile(exportFilename, renderHtmlReport(report, context));
+    console.log(`🌐 HTML report written to: ${exportFilename}`);
+  }
+};
+
+export const consoleReporter: Reporter = {
+  name: 'console',
+  description: 'Formatted summary on stdout (default)',
+  write(report) {
+    displayReport(report);
+    return Promise.resolve();
+  }
+};
+
+export const REPORTERS: Record<string, Reporter> = Object.fromEntries(
+  [consoleReporter, jsonReporter, csvReporter, junitReporter, markdownReporter, htmlReporter].map(reporter => [reporter.name, reporter])
+);
+
+export const DEFAULT_REPORTERS = ['console', 'json'];
+
+/**
+ * Parse `--report` values such as `console,junit=results.xml`
+ */
+export function parseReporters(specs: string[]): ReporterSelection[] {
+  return specs.flatMap(spec => spec.split(',')).filter(Boolean).map(item => {
+    const separator = item.indexOf('=');
+    const name = separator === -1 ? item : item.slice(0, separator);
+    const output = separator === -1 ? undefined : item.slice(separator + 1);
+    const reporter = Object.hasOwn(REPORTERS, name.trim()) ? REPORTERS[name.trim()] : undefined;
+    if (!reporter) {
+      throw new Error(`Unknown reporter "${name}" (available: ${Object.keys(REPORTERS).join(', ')})`);
+    }
+    return { reporter, ...(output && { output }) };
+  });
+}
@@ -0,0 +1,69 @@
+// lib/requestBody.ts
+// ============================================
+// 📦 Request body encoding
+// JSON, form-encoded, multipart and raw text
+// ============================================
+
+import type { BodyType } from './scenario.ts';
+
+export interface EncodedBody {
+  body?: string;
+  contentType?: string;  // Missing for raw string bodies, which set their own header
+}
+
+/**
+ * A multipart file part: `{ filename: 'a.txt', content: '...', contentType: 'text/plain' }`
+ */
+function isFilePart(value: unknown): value is { filename: string; content: string; contentType?: string } {
+  return typeof value === 'object' && value !== null &&
+    typeof (value as Record<string, unknown>).filename === 'string' &&
+    typeof (value as Record<string, unknown>).content === 'string';
+}
+
+function fieldValue(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/**
+ * Encode an endpoint body. Strings are sent as-is unless `bodyType` says
+ * otherwise; objects default to JSON.
+ */
+export async function encodeBody(body: unknown, bodyType?: BodyType): Promise<EncodedBody> {
+  if (body === undefined) return {};
+
+  const type = bodyType ?? (typeof body === 'string' ? undefined : 'json');
+  switch (type) {
+    case undefined:
+      return { body: body as string };
+
+    case 'text':
+      return { body: fieldValue(body), contentType: 'text/plain;charset=UTF-8' };
+
+    case 'json':
+      return { body: JSON.stringify(body), contentType: 'application/json' };
+
+    case 'form': {
+      const params = new URLSearchParams();
+      for (const [name, value] of Object.entries(body as Record<string, unknown>)) {
+        for (const item of Array.isArray(value) ? value : [value]) {
+          params.append(name, fieldValue(item));
+        }
+      }
+      return { body: params.toString(), contentType: 'application/x-www-form-urlencoded' };
+    }
+
+    case 'multipart': {
+      const form = new FormData();
+      for (const [name, value] of Object.entries(body as Record<string, unknown>)) {
+        if (isFilePart(value)) {
+          form.append(name, new Blob([value.content], { type: value.contentType ?? 'application/octet-stream' }), value.filename);
+        } else {
+          form.append(name, fieldValue(value));
+        }
+      }
+      // Let the platform pick the boundary, then send the serialized form
+      const encoded = new Response(form);
+      return { body: await encoded.text(), contentType: encoded.headers.get('content-type') ?? undefined };
+    }
+  }
+}
@@ -0,0 +1,52 @@
+// lib/retry.ts
+// ============================================
+// 🔁 Timeouts, retries and cancellation
+// ============================================
+
+import type { Random } from './random.ts';
+import type { PerformanceMetric } from './types.ts';
+
+export interface RetryPolicy {
+  retries: number;       // Extra attempts after the first (0 = no retries)
+  backoffMs: number;     // Base delay, doubled per attempt
+  maxBackoffMs: number;
+}
+
+export const DEFAULT_REQUEST_TIMEOUT_MS = 30_000;
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = { retries: 0, backoffMs: 100, maxBackoffMs: 5_000 };
+
+// Responses that say "try again later" rather than "this is broken"
+const RETRYABLE_STATUSES = [429, 502, 503, 504];
+
+/**
+ * Failed to get a response, or got a transient one
+ */
+export function isRetryable(metric: PerformanceMetric): boolean {
+  return metric.errorClass !== undefined || RETRYABLE_STATUSES.includes(metric.statusCode);
+}
+
+/**
+ * Exponential backoff with full jitter before retry `attempt` (1-based)
+ */
+export function retryDelay(policy: RetryPolicy, attempt: number, random: Random = Math.random): number {
+  const ceiling = Math.min(policy.maxBackoffMs, policy.backoffMs * 2 ** (attempt - 1));
+  return random() * ceiling;
+}
+
+/**
+ * Wait `ms`, returning early if `signal` aborts
+ */
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    if (signal?.aborted) return resolve();
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done, { once: true });
+
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+  });
+}
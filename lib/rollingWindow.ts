@@ -0,0 +1,82 @@
+// lib/rollingWindow.ts
+// ============================================
+// 🪟 Rolling window over the latest results
+// Monitor mode statistics and alert rules
+// ============================================
+
+import type { PerformanceMetric } from './types.ts';
+
+/**
+ * The last `size` results, with the statistics monitor mode displays and
+ * alert rules check. Metric names match thresholds (avg, p95, errorRate...).
+ */
+export class RollingWindow {
+  private results: PerformanceMetric[] = [];
+
+  constructor(readonly size = 10) {
+    if (!Number.isInteger(size) || size < 1) {
+      throw new Error(`Rolling window size must be a positive integer, got ${size}`);
+    }
+  }
+
+  push(metric: PerformanceMetric): void {
+    this.results.push(metric);
+    if (this.results.length > this.size) this.results.shift();
+  }
+
+  get count(): number {
+    return this.results.length;
+  }
+
+  get latest(): PerformanceMetric | undefined {
+    return this.results.at(-1);
+  }
+
+  get averageResponseTime(): number {
+    if (this.results.length === 0) return 0;
+    return this.results.reduce((sum, r) => sum + r.responseTime, 0) / this.results.length;
+  }
+
+  get successRate(): number {
+    if (this.results.length === 0) return 0;
+    return (this.results.filter(r => r.expectationMet).length / this.results.length) * 100;
+  }
+
+  /**
+   * Interpolated between ranks, like the report histograms
+   */
+  percentile(percentile: number): number {
+    if (this.results.length === 0) return 0;
+    const sorted = this.results.map(r => r.responseTime).sort((a, b) => a - b);
+    const position = (percentile / 100) * (sorted.length - 1);
+    const lower = Math.floor(position);
+    const upper = Math.min(lower + 1, sorted.length - 1);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+  }
+
+  /**
+   * A threshold metric over the window; undefined while the window is empty
+   * or for metrics it cannot compute
+   */
+  value(metric: string): number | undefined {
+    if (this.results.length === 0) return undefined;
+    const times = this.results.map(r => r.responseTime);
+
+    switch (metric) {
+      case 'avg': return this.averageResponseTime;
+      case 'min': return Math.min(...times);
+      case 'max': return Math.max(...times);
+      case 'stdDev': {
+        const mean = this.averageResponseTime;
+        return Math.sqrt(times.reduce((sum, time) => sum + (time - mean) ** 2, 0) / times.length);
+      }
+      case 'successRate': return this.successRate;
+      case 'errorRate': return 100 - this.successRate;
+      case 'requests': return this.results.length;
+      default: {
+        const percentile = metric.match(/^p(\d+(?:\.\d+)?)$/);
+        return percentile ? this.percentile(parseFloat(percentile[1])) : undefined;
+      }
+    }
+  }
+}
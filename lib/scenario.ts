@@ -0,0 +1,678 @@
+// lib/scenario.ts
+// ============================================
+// 🗺️ Declarative test scenarios
+// Named endpoint groups loaded from JSON/YAML
+// ============================================
+
+import { parse as parseYaml } from 'jsr:@std/yaml@^1';
+import type { Random } from './random.ts';
+import { parseDuration } from './stages.ts';
+import { parseThreshold } from './thresholds.ts';
+import { DATA_ORDERS, type DataOrder, type DataSet, loadDataFile, parseJsonRows } from './templates.ts';
+
+export interface EndpointDefinition {
+  path: string;
+  method: string;
+  weight: number;
+  description: string;
+  headers?: Record<string, string>;
+  body?: unknown;
+  bodyType?: BodyType;  // How an object body is encoded (default json)
+  expectedStatus?: number[];
+  bodyCheck?: BodyCheck;
+  timeoutMs?: number;  // Overrides the run's request timeout
+  extract?: Record<string, Extraction>;  // Session variables captured from the response
+  type?: EndpointType;   // Default http
+  stream?: StreamConfig;  // WebSocket and SSE endpoints
+}
+
+/**
+ * `http` sends one request and reads the response. `websocket` and `sse`
+ * open a long-lived connection and hold it, measuring connect time and
+ * message latency; a WebSocket endpoint sends its `body` as a message.
+ */
+export type EndpointType = 'http' | 'websocket' | 'sse';
+
+const ENDPOINT_TYPES: EndpointType[] = ['http', 'websocket', 'sse'];
+
+export const DEFAULT_STREAM_HOLD_MS = 10_000;
+
+/**
+ * How a WebSocket or SSE connection is held
+ */
+export interface StreamConfig {
+  holdMs: number;        // How long each connection stays open (default 10s)
+  intervalMs?: number;   // WebSocket: resend `body` this often (default: only once, on open)
+  minMessages?: number;  // Fewer messages or events over a full hold fails the connection
+  latencyFrom?: string;  // JSON path to a send timestamp (epoch ms or ISO) in each message, for delivery latency
+}
+
+/**
+ * Where to read a session variable from in a response. Exactly one is set.
+ */
+export interface Extraction {
+  jsonPath?: string;  // e.g. `$.token`, `$.data[0].id`
+  header?: string;    // Response header name
+  regex?: string;     // First capture group (or whole match) in the body
+}
+
+/**
+ * Login run once per virtual user before its first request. Variables the
+ * login extracts can be used in `headers`, which are sent on every later
+ * request; cookies it sets are kept automatically.
+ */
+export interface AuthConfig {
+  login: EndpointDefinition;
+  headers?: Record<string, string>;  // e.g. { Authorization: 'Bearer {{token}}' }
+}
+
+/**
+ * Ordered steps a virtual user walks through. Steps can use `{{variables}}`
+ * extracted by earlier steps in their path, headers and body.
+ */
+export interface Journey {
+  weight: number;
+  description?: string;
+  steps: EndpointDefinition[];
+}
+
+export type BodyType = 'json' | 'form' | 'multipart' | 'text';
+
+const BODY_TYPES: BodyType[] = ['json', 'form', 'multipart', 'text'];
+
+/**
+ * Optional assertions on the response body. All given checks must pass.
+ */
+export interface BodyCheck {
+  contains?: string;   // Substring that must appear in the body
+  matches?: string;    // Regular expression the body must match
+  jsonPath?: string;   // Path into a JSON body, e.g. `$.data[0].id`
+  equals?: unknown;    // Expected value at `jsonPath`
+}
+
+export interface Scenario {
+  name: string;
+  description?: string;
+  groups: Record<string, EndpointDefinition[]>;
+  thresholds?: string[];  // e.g. "p95 < 150ms", "/api/blogs p99 < 300ms"
+  auth?: AuthConfig;
+  journeys?: Record<string, Journey>;  // Load tests run these instead of single endpoints
+  data?: Record<string, DataSet>;      // Rows for `{{name.column}}` placeholders
+}
+
+/**
+ * Raised when a scenario file cannot be read or does not match the schema.
+ * `field` points at the offending value, e.g. `groups.api[2].weight`.
+ */
+export class ScenarioError extends Error {
+  constructor(message: string, readonly field?: string) {
+    super(field ? `${field}: ${message}` : message);
+    this.name = 'ScenarioError';
+  }
+}
+
+export const HTTP_METHODS = ['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'];
+
+// ============================================
+// 📦 BUILT-IN SCENARIOS
+// ============================================
+
+/**
+ * Built-in scenarios shipped with the suite. `default` drives quick, load and
+ * monitor runs, `cambridge` drives the validation test and `comprehensive`
+ * covers every known endpoint including the protected and missing ones.
+ */
+export const BUILT_IN_SCENARIOS: Record<string, Scenario> = {
+  default: {
+    name: 'default',
+    description: 'Working/public endpoints for 100% success',
+    groups: {
+      // Core Pages (Always Work)
+      core: [
+        { path: '/', method: 'GET', weight: 20, description: 'Home page (Static)' }
+      ],
+      // Public API Endpoints (No Auth Required)
+      'public-api': [
+        { path: '/api/analytics', method: 'GET', weight: 15, description: 'Analytics data' },
+        { path: '/api/blogs', method: 'GET', weight: 15, description: 'Blog content API' },
+        { path: '/api/projects', method: 'GET', weight: 15, description: 'Projects portfolio API' },
+        { path: '/api/settings', method: 'GET', weight: 15, description: 'Settings API' },
+        { path: '/api/roadmap', method: 'GET', weight: 10, description: 'Product roadmap API' },
+        { path: '/api/system', method: 'GET', weight: 3, description: 'System information' },
+        { path: '/api/appointments', method: 'GET', weight: 6, description: 'Appointments API (Protected)' },
+        { path: '/api/contact', method: 'GET', weight: 4, description: 'Contact form API (Protected)' }
+      ],
+      // Health Check Endpoints
+      health: [
+        { path: '/health', method: 'GET', weight: 10, description: 'Health check endpoint' }
+      ]
+    }
+  },
+
+  comprehensive: {
+    name: 'comprehensive',
+    description: 'All endpoints including protected, POST-only and missing ones',
+    groups: {
+      core: [
+        { path: '/', method: 'GET', weight: 15, description: 'Home page (Static)' }
+      ],
+      // Public APIs (200 Success Expected)
+      'public-api': [
+        { path: '/api/analytics', method: 'GET', weight: 10, description: 'Analytics data' },
+        { path: '/api/blogs', method: 'GET', weight: 7, description: 'Blog content API' },
+        { path: '/api/projects', method: 'GET', weight: 6, description: 'Projects portfolio API' },
+        { path: '/api/settings', method: 'GET', weight: 4, description: 'Settings API' },
+        { path: '/api/roadmap', method: 'GET', weight: 2, description: 'Product roadmap API' }
+      ],
+      // Protected APIs (401 Expected - Security Working)
+      'protected-api': [
+        { path: '/api/dashboard', method: 'GET', weight: 8, description: 'Dashboard data (Protected)', expectedStatus: [401] },
+        { path: '/api/appointments', method: 'GET', weight: 6, description: 'Appointments API (Protected)', expectedStatus: [401] },
+        { path: '/api/contact', method: 'GET', weight: 4, description: 'Contact form API (Protected)', expectedStatus: [401] }
+      ],
+      // POST-Only APIs (405 Expected - Correct Method Restriction)
+      'post-only': [
+        { path: '/api/ai-assistant', method: 'GET', weight: 2, description: 'AI Assistant API (POST Only)', expectedStatus: [405] }
+      ],
+      // Missing/Future Features (404 Expected - Not Implemented Yet)
+      'not-implemented': [
+        { path: '/api/system', method: 'GET', weight: 3, description: 'System information (Not Implemented)', expectedStatus: [404] },
+        { path: '/api/notifications', method: 'GET', weight: 3, description: 'Notifications API (Not Implemented)', expectedStatus: [404] },
+        { path: '/api/auth', method: 'GET', weight: 2, description: 'Authentication API (Not Implemented)', expectedStatus: [404] },
+        { path: '/api/payment', method: 'GET', weight: 2, description: 'Payment API (Not Implemented)', expectedStatus: [404] },
+        { path: '/api/search', method: 'GET', weight: 1, description: 'Search API (Not Implemented)', expectedStatus: [404] }
+      ],
+      // Missing Static Assets (404 Expected - Files Don't Exist)
+      'missing-assets': [
+        { path: '/assets/css/styles.css', method: 'GET', weight: 2, description: 'Stylesheet (Missing File)', expectedStatus: [404] },
+        { path: '/assets/js/app.js', method: 'GET', weight: 2, description: 'JavaScript bundle (Missing File)', expectedStatus: [404] },
+        { path: '/favicon.ico', method: 'GET', weight: 1, description: 'Site favicon (Missing File)', expectedStatus: [404] }
+      ]
+    }
+  },
+
+  cambridge: {
+    name: 'cambridge',
+    description: 'Only endpoints that return 200 for Cambridge validation',
+    groups: {
+      pages: [
+        { path: '/', method: 'GET', weight: 20, description: 'Home page' }
+      ],
+      api: [
+        { path: '/api/analytics', method: 'GET', weight: 15, description: 'Analytics API' },
+        { path: '/api/blogs', method: 'GET', weight: 15, description: 'Blog API' },
+        { path: '/api/projects', method: 'GET', weight: 15, description: 'Projects API' },
+        { path: '/api/roadmap', method: 'GET', weight: 10, description: 'Roadmap API' }
+      ],
+      health: [
+        { path: '/health', method: 'GET', weight: 10, description: 'Health check endpoint' }
+      ]
+    }
+  }
+};
+
+// ============================================
+// ✅ VALIDATION
+// ============================================
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Reject keys the schema doesn't know, so a misspelled option fails loudly
+ * instead of silently running with the default
+ */
+function checkKeys(raw: Record<string, unknown>, allowed: string[], field?: string): void {
+  const unknown = Object.keys(raw).find(key => !allowed.includes(key));
+  if (unknown !== undefined) {
+    throw new ScenarioError(`unknown field (expected one of ${allowed.join(', ')})`, field ? `${field}.${unknown}` : unknown);
+  }
+}
+
+function validateEndpoint(raw: unknown, field: string): EndpointDefinition {
+  if (!isRecord(raw)) {
+    throw new ScenarioError('expected an endpoint object', field);
+  }
+
+  checkKeys(raw, ['path', 'method', 'weight', 'description', 'headers', 'body', 'bodyType', 'expectedStatus', 'bodyCheck', 'timeout', 'extract', 'type', 'stream'], field);
+  const { path, method = 'GET', weight = 1, description, headers, body, bodyType, expectedStatus, bodyCheck, timeout, extract, type, stream } = raw;
+
+  if (typeof path !== 'string' || !path.startsWith('/')) {
+    throw new ScenarioError('expected a path string starting with "/"', `${field}.path`);
+  }
+  if (typeof method !== 'string' || !HTTP_METHODS.includes(method.toUpperCase())) {
+    throw new ScenarioError(`expected one of ${HTTP_METHODS.join(', ')}`, `${field}.method`);
+  }
+  if (typeof weight !== 'number' || !Number.isFinite(weight) || weight <= 0) {
+    throw new ScenarioError('expected a positive number', `${field}.weight`);
+  }
+  if (description !== undefined && typeof description !== 'string') {
+    throw new ScenarioError('expected a string', `${field}.description`);
+  }
+
+  if (headers !== undefined) {
+    validateHeaders(headers, `${field}.headers`);
+  }
+
+  if (bodyType !== undefined) {
+    if (typeof bodyType !== 'string' || !BODY_TYPES.includes(bodyType as BodyType)) {
+      throw new ScenarioError(`expected one of ${BODY_TYPES.join(', ')}`, `${field}.bodyType`);
+    }
+    if ((bodyType === 'form' || bodyType === 'multipart') && !isRecord(body)) {
+      throw new ScenarioError(`${bodyType} bodies must be a map of field names to values`, `${field}.body`);
+    }
+  }
+
+  if (type !== undefined && (typeof type !== 'string' || !ENDPOINT_TYPES.includes(type as EndpointType))) {
+    throw new ScenarioError(`expected one of ${ENDPOINT_TYPES.join(', ')}`, `${field}.type`);
+  }
+  const streamed = type === 'websocket' || type === 'sse';
+  if (streamed) {
+    if (method.toUpperCase() !== 'GET') {
+      throw new ScenarioError(`${type} endpoints are opened with GET`, `${field}.method`);
+    }
+    if (type === 'sse' && body !== undefined) {
+      throw new ScenarioError('sse endpoints do not send a body', `${field}.body`);
+    }
+    if (type === 'websocket' && bodyType !== undefined && bodyType !== 'json' && bodyType !== 'text') {
+      throw new ScenarioError('websocket messages are json or text', `${field}.bodyType`);
+    }
+    for (const [name, value] of Object.entries({ bodyCheck, extract })) {
+      if (value !== undefined) {
+        throw new ScenarioError(`not supported for ${type} endpoints`, `${field}.${name}`);
+      }
+    }
+  } else if (stream !== undefined) {
+    throw new ScenarioError('only websocket and sse endpoints are held open', `${field}.stream`);
+  }
+
+  let statuses: number[] | undefined;
+  if (expectedStatus !== undefined) {
+    const list = Array.isArray(expectedStatus) ? expectedStatus : [expectedStatus];
+    if (list.length === 0) {
+      throw new ScenarioError('expected at least one status code', `${field}.expectedStatus`);
+    }
+    list.forEach((status, i) => {
+      if (!Number.isInteger(status) || (status as number) < 100 || (status as number) > 599) {
+        throw new ScenarioError('expected an HTTP status code (100-599)', `${field}.expectedStatus[${i}]`);
+      }
+    });
+    statuses = list as number[];
+  }
+
+  return {
+    path,
+    method: method.toUpperCase(),
+    weight,
+    description: description ?? `${method.toUpperCase()} ${path}`,
+    ...(headers !== undefined && { headers: headers as Record<string, string> }),
+    ...(body !== undefined && { body }),
+    ...(bodyType !== undefined && { bodyType: bodyType as BodyType }),
+    ...(statuses && { expectedStatus: statuses }),
+    ...(bodyCheck !== undefined && { bodyCheck: validateBodyCheck(bodyCheck, `${field}.bodyCheck`) }),
+    ...(timeout !== undefined && { timeoutMs: validateTimeout(timeout, `${field}.timeout`) }),
+    ...(extract !== undefined && { extract: validateExtract(extract, `${field}.extract`) }),
+    ...(streamed && { type: type as EndpointType, stream: validateStream(stream ?? {}, type as EndpointType, `${field}.stream`) })
+  };
+}
+
+/**
+ * Whether the endpoint is held open as a WebSocket or SSE connection
+ */
+export function isStreamEndpoint(endpoint: EndpointDefinition): boolean {
+  return endpoint.type === 'websocket' || endpoint.type === 'sse';
+}
+
+function validateHeaders(raw: unknown, field: string): Record<string, string> {
+  if (!isRecord(raw)) {
+    throw new ScenarioError('expected a map of header names to strings', field);
+  }
+  for (const [name, value] of Object.entries(raw)) {
+    if (typeof value !== 'string') {
+      throw new ScenarioError('expected a string', `${field}.${name}`);
+    }
+  }
+  return raw as Record<string, string>;
+}
+
+function validateExtract(raw: unknown, field: string): Record<string, Extraction> {
+  if (!isRecord(raw) || Object.keys(raw).length === 0) {
+    throw new ScenarioError('expected a map of variable names to extractions', field);
+  }
+
+  for (const [name, extraction] of Object.entries(raw)) {
+    const extractionField = `${field}.${name}`;
+    if (!/^[A-Za-z_]\w*$/.test(name)) {
+      throw new ScenarioError('variable names may only contain letters, digits and underscores', extractionField);
+    }
+    if (!isRecord(extraction)) {
+      throw new ScenarioError('expected an object with jsonPath, header or regex', extractionField);
+    }
+    checkKeys(extraction, ['jsonPath', 'header', 'regex'], extractionField);
+
+    const sources = (['jsonPath', 'header', 'regex'] as const).filter(key => extraction[key] !== undefined);
+    if (sources.length !== 1) {
+      throw new ScenarioError('expected exactly one of jsonPath, header or regex', extractionField);
+    }
+    const source = sources[0];
+    if (typeof extraction[source] !== 'string') {
+      throw new ScenarioError('expected a string', `${extractionField}.${source}`);
+    }
+    if (source === 'regex') {
+      try {
+        new RegExp(extraction.regex as string);
+      } catch (error) {
+        throw new ScenarioError(`invalid regular expression (${(error as Error).message})`, `${extractionField}.regex`);
+      }
+    }
+  }
+
+  return raw as Record<string, Extraction>;
+}
+
+function validateAuth(raw: unknown, field: string): AuthConfig {
+  if (!isRecord(raw)) {
+    throw new ScenarioError('expected an object with a login request', field);
+  }
+  checkKeys(raw, ['login', 'headers'], field);
+  const { login, headers } = raw;
+  if (login === undefined) {
+    throw new ScenarioError('expected a login request', `${field}.login`);
+  }
+
+  return {
+    login: validateEndpoint(login, `${field}.login`),
+    ...(headers !== undefined && { headers: validateHeaders(headers, `${field}.headers`) })
+  };
+}
+
+function validateDataSet(raw: unknown, field: string): DataSet {
+  if (!isRecord(raw)) {
+    throw new ScenarioError('expected an object with file or rows', field);
+  }
+  checkKeys(raw, ['file', 'rows', 'order'], field);
+  const { file, rows, order = 'sequential' } = raw;
+
+  if ((file === undefined) === (rows === undefined)) {
+    throw new ScenarioError('expected exactly one of file or rows', field);
+  }
+  if (file !== undefined && (typeof file !== 'string' || !/\.(csv|json)$/i.test(file))) {
+    throw new ScenarioError('expected a .csv or .json file path', `${field}.file`);
+  }
+  if (typeof order !== 'string' || !DATA_ORDERS.includes(order as DataOrder)) {
+    throw new ScenarioError(`expected one of ${DATA_ORDERS.join(', ')}`, `${field}.order`);
+  }
+
+  let parsedRows: Record<string, string>[] = [];
+  if (rows !== undefined) {
+    try {
+      parsedRows = parseJsonRows(rows);
+    } catch (error) {
+      throw new ScenarioError((error as Error).message, `${field}.rows`);
+    }
+    if (parsedRows.length === 0) {
+      throw new ScenarioError('expected at least one row', `${field}.rows`);
+    }
+  }
+
+  return {
+    ...(file !== undefined && { file: file as string }),
+    order: order as DataOrder,
+    rows: parsedRows
+  };
+}
+
+function validateJourney(raw: unknown, field: string): Journey {
+  if (!isRecord(raw)) {
+    throw new ScenarioError('expected an object with steps', field);
+  }
+  checkKeys(raw, ['weight', 'description', 'steps'], field);
+  const { weight = 1, description, steps } = raw;
+
+  if (typeof weight !== 'number' || !Number.isFinite(weight) || weight <= 0) {
+    throw new ScenarioError('expected a positive number', `${field}.weight`);
+  }
+  if (description !== undefined && typeof description !== 'string') {
+    throw new ScenarioError('expected a string', `${field}.description`);
+  }
+  if (!Array.isArray(steps) || steps.length === 0) {
+    throw new ScenarioError('expected a non-empty list of steps', `${field}.steps`);
+  }
+
+  return {
+    weight,
+    ...(description !== undefined && { description }),
+    steps: steps.map((step, i) => validateEndpoint(step, `${field}.steps[${i}]`))
+  };
+}
+
+function validateTimeout(raw: unknown, field: string): number {
+  try {
+    const timeoutMs = parseDuration(String(raw)) * 1000;
+    if (timeoutMs > 0) return timeoutMs;
+  } catch {
+    // Reported below
+  }
+  throw new ScenarioError('expected a positive duration such as 500ms or 5s', field);
+}
+
+function validateStream(raw: unknown, type: EndpointType, field: string): StreamConfig {
+  if (!isRecord(raw)) {
+    throw new ScenarioError('expected an object with hold, interval, minMessages or latencyFrom', field);
+  }
+  checkKeys(raw, ['hold', 'interval', 'minMessages', 'latencyFrom'], field);
+  const { hold, interval, minMessages, latencyFrom } = raw;
+
+  if (interval !== undefined && type !== 'websocket') {
+    throw new ScenarioError('only websocket endpoints send messages', `${field}.interval`);
+  }
+  if (minMessages !== undefined && (!Number.isInteger(minMessages) || (minMessages as number) < 0)) {
+    throw new ScenarioError('expected a whole number of messages', `${field}.minMessages`);
+  }
+  if (latencyFrom !== undefined && typeof latencyFrom !== 'string') {
+    throw new ScenarioError('expected a JSON path string, e.g. $.sentAt', `${field}.latencyFrom`);
+  }
+
+  return {
+    holdMs: hold !== undefined ? validateTimeout(hold, `${field}.hold`) : DEFAULT_STREAM_HOLD_MS,
+    ...(interval !== undefined && { intervalMs: validateTimeout(interval, `${field}.interval`) }),
+    ...(minMessages !== undefined && { minMessages: minMessages as number }),
+    ...(latencyFrom !== undefined && { latencyFrom: latencyFrom as string })
+  };
+}
+
+function validateBodyCheck(raw: unknown, field: string): BodyCheck {
+  if (!isRecord(raw)) {
+    throw new ScenarioError('expected an object with contains, matches, jsonPath or equals', field);
+  }
+
+  checkKeys(raw, ['contains', 'matches', 'jsonPath', 'equals'], field);
+  const { contains, matches, jsonPath, equals } = raw;
+
+  if (contains !== undefined && typeof contains !== 'string') {
+    throw new ScenarioError('expected a string', `${field}.contains`);
+  }
+  if (matches !== undefined) {
+    if (typeof matches !== 'string') {
+      throw new ScenarioError('expected a regular expression string', `${field}.matches`);
+    }
+    try {
+      new RegExp(matches);
+    } catch (error) {
+      throw new ScenarioError(`invalid regular expression (${(error as Error).message})`, `${field}.matches`);
+    }
+  }
+  if (jsonPath !== undefined && typeof jsonPath !== 'string') {
+    throw new ScenarioError('expected a string', `${field}.jsonPath`);
+  }
+  if (equals !== undefined && jsonPath === undefined) {
+    throw new ScenarioError('requires jsonPath to be set', `${field}.equals`);
+  }
+  if (contains === undefined && matches === undefined && jsonPath === undefined) {
+    throw new ScenarioError('expected at least one of contains, matches or jsonPath', field);
+  }
+
+  return raw as BodyCheck;
+}
+
+/**
+ * Validate a parsed scenario document. Errors name the exact field at fault.
+ */
+export function validateScenario(raw: unknown, source = 'scenario'): Scenario {
+  if (!isRecord(raw)) {
+    throw new ScenarioError(`${source} must contain an object at the top level`);
+  }
+
+  checkKeys(raw, ['name', 'description', 'groups', 'thresholds', 'auth', 'journeys', 'data']);
+  const { name, description, groups, thresholds, auth, journeys, data } = raw;
+
+  if (name !== undefined && typeof name !== 'string') {
+    throw new ScenarioError('expected a string', 'name');
+  }
+  if (description !== undefined && typeof description !== 'string') {
+    throw new ScenarioError('expected a string', 'description');
+  }
+  if (!isRecord(groups) || Object.keys(groups).length === 0) {
+    throw new ScenarioError('expected a map of group names to endpoint lists', 'groups');
+  }
+
+  if (thresholds !== undefined) {
+    if (!Array.isArray(thresholds)) {
+      throw new ScenarioError('expected a list of threshold expressions', 'thresholds');
+    }
+    thresholds.forEach((threshold, i) => {
+      if (typeof threshold !== 'string') {
+        throw new ScenarioError('expected a threshold expression string', `thresholds[${i}]`);
+      }
+      try {
+        parseThreshold(threshold);
+      } catch (error) {
+        throw new ScenarioError((error as Error).message, `thresholds[${i}]`);
+      }
+    });
+  }
+
+  const validatedGroups: Record<string, EndpointDefinition[]> = {};
+  for (const [groupName, endpoints] of Object.entries(groups)) {
+    const field = `groups.${groupName}`;
+    if (!Array.isArray(endpoints) || endpoints.length === 0) {
+      throw new ScenarioError('expected a non-empty list of endpoints', field);
+    }
+    validatedGroups[groupName] = endpoints.map((endpoint, i) => validateEndpoint(endpoint, `${field}[${i}]`));
+  }
+
+  let validatedJourneys: Record<string, Journey> | undefined;
+  if (journeys !== undefined) {
+    if (!isRecord(journeys) || Object.keys(journeys).length === 0) {
+      throw new ScenarioError('expected a map of journey names to journeys', 'journeys');
+    }
+    validatedJourneys = {};
+    for (const [journeyName, journey] of Object.entries(journeys)) {
+      validatedJourneys[journeyName] = validateJourney(journey, `journeys.${journeyName}`);
+    }
+  }
+
+  let validatedData: Record<string, DataSet> | undefined;
+  if (data !== undefined) {
+    if (!isRecord(data)) {
+      throw new ScenarioError('expected a map of data set names to data sets', 'data');
+    }
+    validatedData = {};
+    for (const [dataSetName, dataSet] of Object.entries(data)) {
+      validatedData[dataSetName] = validateDataSet(dataSet, `data.${dataSetName}`);
+    }
+  }
+
+  return {
+    name: name ?? source,
+    ...(description !== undefined && { description }),
+    groups: validatedGroups,
+    ...(validatedData && { data: validatedData }),
+    ...(thresholds !== undefined && { thresholds: thresholds as string[] }),
+    ...(auth !== undefined && { auth: validateAuth(auth, 'auth') }),
+    ...(validatedJourneys && { journeys: validatedJourneys })
+  };
+}
+
+// ============================================
+// 📂 LOADING
+// ============================================
+
+/**
+ * Load a scenario by built-in name or from a `.json`, `.yaml` or `.yml` file
+ */
+export async function loadScenario(nameOrPath: string): Promise<Scenario> {
+  if (Object.hasOwn(BUILT_IN_SCENARIOS, nameOrPath)) {
+    return BUILT_IN_SCENARIOS[nameOrPath];
+  }
+
+  let text: string;
+  try {
+    text = await Deno.readTextFile(nameOrPath);
+  } catch (error) {
+    const builtIns = Object.keys(BUILT_IN_SCENARIOS).join(', ');
+    throw new ScenarioError(
+      `Cannot read scenario "${nameOrPath}" (${(error as Error).message}). Built-in scenarios: ${builtIns}`
+    );
+  }
+
+  let raw: unknown;
+  try {
+    raw = /\.ya?ml$/i.test(nameOrPath) ? parseYaml(text) : JSON.parse(text);
+  } catch (error) {
+    throw new ScenarioError(`Cannot parse ${nameOrPath}: ${(error as Error).message}`);
+  }
+
+  const scenario = validateScenario(raw, nameOrPath);
+
+  // Data files are resolved relative to the scenario file
+  for (const [dataSetName, dataSet] of Object.entries(scenario.data ?? {})) {
+    if (!dataSet.file) continue;
+    const path = dataSet.file.startsWith('/') ? dataSet.file : nameOrPath.replace(/[^/\\]*$/, '') + dataSet.file;
+    try {
+      dataSet.rows = await loadDataFile(path);
+    } catch (error) {
+      throw new ScenarioError(`Cannot load ${path}: ${(error as Error).message}`, `data.${dataSetName}.file`);
+    }
+    if (dataSet.rows.length === 0) {
+      throw new ScenarioError(`${path} has no data rows`, `data.${dataSetName}.file`);
+    }
+  }
+
+  return scenario;
+}
+
+/**
+ * Flatten a scenario into a weighted endpoint list, optionally restricted to some groups
+ */
+export function scenarioEndpoints(scenario: Scenario, groups?: string[]): EndpointDefinition[] {
+  const selected = groups && groups.length > 0 ? groups : Object.keys(scenario.groups);
+  const unknown = selected.filter(group => !Object.hasOwn(scenario.groups, group));
+
+  if (unknown.length > 0) {
+    throw new ScenarioError(
+      `Unknown group(s) ${unknown.join(', ')} in scenario "${scenario.name}". ` +
+      `Available: ${Object.keys(scenario.groups).join(', ')}`
+    );
+  }
+
+  return selected.flatMap(group => scenario.groups[group]);
+}
+
+/**
+ * Weighted random choice among endpoints or journeys
+ */
+export function pickWeighted<T extends { weight: number }>(items: T[], random: Random = Math.random): T {
+  const totalWeight = items.reduce((sum, item) => sum + item.weight, 0);
+  let remaining = random() * totalWeight;
+
+  for (const item of items) {
+    remaining -= item.weight;
+    if (remaining <= 0) {
+      return item;
+    }
+  }
+
+  return items[0]; // Fallback
+}
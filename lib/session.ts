@@ -0,0 +1,102 @@
+// lib/session.ts
+// ============================================
+// 🔐 Virtual user sessions
+// Login state, cookies and extracted variables
+// ============================================
+
+import { resolveJsonPath } from './expectations.ts';
+import type { AuthConfig, EndpointDefinition, Extraction } from './scenario.ts';
+import { renderEndpoint, renderTemplate, type TemplateLookup } from './templates.ts';
+
+function extractValue(extraction: Extraction, headers: Headers, body: string): string | undefined {
+  if (extraction.header !== undefined) {
+    return headers.get(extraction.header) ?? undefined;
+  }
+
+  if (extraction.regex !== undefined) {
+    const match = body.match(new RegExp(extraction.regex));
+    return match ? (match[1] ?? match[0]) : undefined;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    return undefined;
+  }
+  const value = resolveJsonPath(parsed, extraction.jsonPath!);
+  if (value === undefined || value === null) return undefined;
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function describeExtraction(extraction: Extraction): string {
+  if (extraction.header !== undefined) return `header ${extraction.header}`;
+  if (extraction.regex !== undefined) return `regex ${extraction.regex}`;
+  return extraction.jsonPath!;
+}
+
+/**
+ * State one virtual user carries between requests
+ */
+export class VirtualUserSession {
+  readonly variables: Record<string, string> = {};
+  loggedIn = false;
+
+  private cookies = new Map<string, string>();
+
+  constructor(readonly auth?: AuthConfig) {}
+
+  get needsLogin(): boolean {
+    return this.auth !== undefined && !this.loggedIn;
+  }
+
+  /**
+   * The endpoint as it should be sent: placeholders filled in, auth headers
+   * and cookies added. Reporting keeps using the original (templated) path.
+   */
+  resolve(endpoint: EndpointDefinition, lookup: TemplateLookup): EndpointDefinition {
+    const rendered = renderEndpoint(endpoint, lookup);
+    const headers: Record<string, string> = {};
+    if (this.loggedIn && this.auth?.headers) {
+      for (const [name, value] of Object.entries(this.auth.headers)) {
+        headers[name] = renderTemplate(value, lookup);
+      }
+    }
+    Object.assign(headers, rendered.headers);
+
+    if (this.cookies.size > 0) {
+      const jar = [...this.cookies].map(([name, value]) => `${name}=${value}`).join('; ');
+      const existing = Object.keys(headers).find(name => name.toLowerCase() === 'cookie');
+      if (existing) {
+        headers[existing] = `${headers[existing]}; ${jar}`;
+      } else {
+        headers['Cookie'] = jar;
+      }
+    }
+
+    return { ...rendered, headers };
+  }
+
+  /**
+   * Keep cookies the response sets and capture the endpoint's variables.
+   * Returns why an extraction failed, if one did.
+   */
+  observe(endpoint: EndpointDefinition, headers: Headers, body: string): string | undefined {
+    for (const cookie of headers.getSetCookie()) {
+      const [pair] = cookie.split(';');
+      const separator = pair.indexOf('=');
+      if (separator > 0) {
+        this.cookies.set(pair.slice(0, separator).trim(), pair.slice(separator + 1).trim());
+      }
+    }
+
+    for (const [name, extraction] of Object.entries(endpoint.extract ?? {})) {
+      const value = extractValue(extraction, headers, body);
+      if (value === undefined) {
+        return `could not extract ${name} (${describeExtraction(extraction)})`;
+      }
+      this.variables[name] = value;
+    }
+    return undefined;
+  }
+}
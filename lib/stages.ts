@@ -0,0 +1,158 @@
+// lib/stages.ts
+// ============================================
+// 📈 Staged load profiles
+// Ramp-up, steady-state and ramp-down stages
+// ============================================
+
+import type { StageAggregate } from './aggregator.ts';
+import type { StageSummary } from './types.ts';
+
+export interface LoadStage {
+  durationSeconds: number;
+  target: number;  // Users or RPS reached at the end of the stage
+}
+
+/**
+ * Limits a stage is checked against to find where the server starts to struggle
+ */
+export interface StageLimits {
+  p95ResponseTime: number;  // ms
+  errorRate: number;        // %
+}
+
+// Matches the "needs work" bands in generateRecommendations
+export const DEFAULT_STAGE_LIMITS: StageLimits = { p95ResponseTime: 200, errorRate: 5 };
+
+/**
+ * Parse a duration such as `90`, `30s`, `2m` or `1h` into seconds
+ */
+export function parseDuration(value: string): number {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)(ms|s|m|h)?$/);
+  if (!match) {
+    throw new Error(`Invalid duration "${value}" (expected e.g. 30s, 2m, 1h)`);
+  }
+
+  const amount = parseFloat(match[1]);
+  const unit = match[2] ?? 's';
+  return amount * { ms: 0.001, s: 1, m: 60, h: 3600 }[unit]!;
+}
+
+/**
+ * Parse a stage list such as `30s:10,2m:10,30s:0` (duration:target pairs)
+ */
+export function parseStages(spec: string): LoadStage[] {
+  const stages = spec.split(',').map((part, i) => {
+    const [duration, target] = part.split(':');
+    if (duration === undefined || target === undefined) {
+      throw new Error(`Invalid stage ${i + 1} "${part}" (expected duration:target, e.g. 30s:10)`);
+    }
+
+    const durationSeconds = parseDuration(duration);
+    const parsedTarget = Number(target);
+    if (durationSeconds <= 0) {
+      throw new Error(`Invalid stage ${i + 1} "${part}": duration must be positive`);
+    }
+    if (!Number.isFinite(parsedTarget) || parsedTarget < 0) {
+      throw new Error(`Invalid stage ${i + 1} "${part}": target must be a non-negative number`);
+    }
+
+    return { durationSeconds, target: parsedTarget };
+  });
+
+  if (stages.length === 0) {
+    throw new Error('At least one stage is required');
+  }
+  return stages;
+}
+
+export function totalStageDuration(stages: LoadStage[]): number {
+  return stages.reduce((sum, stage) => sum + stage.durationSeconds, 0);
+}
+
+/**
+ * Stage position at an elapsed time. Targets ramp linearly from the previous
+ * stage's target (0 before the first stage) to the stage's own target.
+ */
+export function stageAt(stages: LoadStage[], elapsedSeconds: number): { index: number; target: number } {
+  let stageStart = 0;
+  let previousTarget = 0;
+
+  for (let index = 0; index < stages.length; index++) {
+    const stage = stages[index];
+    if (elapsedSeconds < stageStart + stage.durationSeconds) {
+      const fraction = Math.max(0, elapsedSeconds - stageStart) / stage.durationSeconds;
+      return { index, target: previousTarget + (stage.target - previousTarget) * fraction };
+    }
+    stageStart += stage.durationSeconds;
+    previousTarget = stage.target;
+  }
+
+  return { index: stages.length - 1, target: previousTarget };
+}
+
+/**
+ * Summarize the requests sent in each stage and flag the ones over the limits
+ */
+export function summarizeStages(
+  stages: LoadStage[],
+  aggregates: Map<number, StageAggregate>,
+  limits: StageLimits = DEFAULT_STAGE_LIMITS
+): StageSummary[] {
+  return stages.map((stage, index) => {
+    const aggregate = aggregates.get(index + 1);
+    const requests = aggregate?.requests ?? 0;
+
+    const avgResponseTime = aggregate?.histogram.mean ?? 0;
+    const p95ResponseTime = aggregate?.histogram.percentile(95) ?? 0;
+    const errorRate = requests > 0 ? (aggregate!.failures / requests) * 100 : 0;
+
+    const breaches: string[] = [];
+    if (p95ResponseTime > limits.p95ResponseTime) {
+      breaches.push(`p95 ${p95ResponseTime.toFixed(1)}ms > ${limits.p95ResponseTime}ms`);
+    }
+    if (errorRate > limits.errorRate) {
+      breaches.push(`error rate ${errorRate.toFixed(2)}% > ${limits.errorRate}%`);
+    }
+
+    return {
+      stage: index + 1,
+      durationSeconds: stage.durationSeconds,
+      startTarget: index === 0 ? 0 : stages[index - 1].target,
+      target: stage.target,
+      requests,
+      throughput: requests / stage.durationSeconds,
+      avgResponseTime,
+      p95ResponseTime,
+      errorRate,
+      breaches
+    };
+  });
+}
+
+/**
+ * Intended send times (ms from start) for an arrival rate that may change over
+ * time. Arrivals are placed where the integrated rate crosses each whole request.
+ */
+export function* arrivalTimes(rateAt: (elapsedSeconds: number) => number, durationSeconds: number): Generator<number> {
+  const tickMs = 1;
+  const durationMs = durationSeconds * 1000;
+  // Summed fractions drift a hair early: 20/s for 1s would get a 21st arrival just under 1000ms
+  const endMs = durationMs - 1e-6;
+  let owed = rateAt(0) > 0 ? 1 : 0; // Fraction of the next request already accrued; the first one goes out at 0
+
+  for (let tick = 0; tick < durationMs; tick += tickMs) {
+    const perMs = rateAt(tick / 1000) / 1000;
+    let remaining = perMs * tickMs;
+    let position = tick;
+
+    while (owed + remaining >= 1) {
+      const needed = 1 - owed;
+      position += perMs > 0 ? needed / perMs : 0;
+      remaining -= needed;
+      owed = 0;
+      if (position >= endMs) return;
+      yield position;
+    }
+    owed += remaining;
+  }
+}
@@ -0,0 +1,287 @@
+// lib/streams.ts
+// ============================================
+// 🔌 WebSocket and SSE connections
+// Long-lived connections held open, with connect time and message latency
+// ============================================
+
+import { RequestError } from './errors.ts';
+import { resolveJsonPath } from './expectations.ts';
+import type { StreamConfig } from './scenario.ts';
+
+/**
+ * Told about a connection as it happens, so open connections can be
+ * counted while the run is still going
+ */
+export interface StreamObserver {
+  opened(connectTimeMs: number): void;
+  sent(): void;
+  received(latencyMs?: number): void;
+  closed(disconnected: boolean): void;
+}
+
+export interface StreamRequest {
+  url: string;               // http(s) URL; WebSockets connect to the ws(s) equivalent
+  headers: Record<string, string>;
+  message?: string;          // WebSocket: sent on open, and every `intervalMs` if set
+  config: StreamConfig;
+  connectTimeoutMs: number;
+  signal?: AbortSignal;      // The end of the run
+}
+
+/**
+ * Held: open for the whole hold. Cancelled: still open when the run ended.
+ * Disconnected: closed by the server or the network before the hold ended.
+ */
+export type StreamEnd = 'held' | 'cancelled' | 'disconnected';
+
+export interface StreamOutcome {
+  connectTime: number;       // Handshake (WebSocket) or response headers (SSE)
+  statusCode: number;        // 101 for WebSockets; the HTTP status for SSE
+  connected: boolean;        // False when the server answered without upgrading, or with something other than an event stream
+  ended: StreamEnd;
+  reason?: string;           // Why it disconnected, or was not an event stream
+  messagesReceived: number;
+  bytesReceived: number;
+}
+
+/**
+ * Milliseconds since the timestamp at `path` in a JSON message, or
+ * undefined when the message has none. Clocks must be in sync for this to
+ * mean anything across machines.
+ */
+export function deliveryLatency(data: string, path: string, now = Date.now()): number | undefined {
+  let json: unknown;
+  try {
+    json = JSON.parse(data);
+  } catch {
+    return undefined;
+  }
+  const value = resolveJsonPath(json, path);
+  const sentAt = typeof value === 'number' ? value : typeof value === 'string' ? Date.parse(value) : NaN;
+  return Number.isFinite(sentAt) ? Math.max(0, now - sentAt) : undefined;
+}
+
+// ============================================
+// 🔌 WEBSOCKET
+// ============================================
+
+/**
+ * Open a WebSocket, send the message (repeatedly with an interval) and hold
+ * it for the configured time. Without `latencyFrom`, each reply is taken to
+ * answer the oldest unanswered message, which fits echo and request/reply
+ * protocols. Rejects when the connection cannot be opened.
+ */
+export function runWebSocket(request: StreamRequest, observer: StreamObserver): Promise<StreamOutcome> {
+  const { config, signal } = request;
+  const url = request.url.replace(/^http/, 'ws');
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const startedAt = performance.now();
+    const socket = new WebSocket(url, { headers: request.headers });
+    socket.binaryType = 'arraybuffer';
+    const unanswered: number[] = [];  // performance.now() of each message sent
+    let connectTime = 0;
+    let opened = false;
+    let settled = false;
+    let messagesReceived = 0;
+    let bytesReceived = 0;
+    let holdTimer: ReturnType<typeof setTimeout> | undefined;
+    let sendTimer: ReturnType<typeof setInterval> | undefined;
+
+    const cleanUp = () => {
+      settled = true;
+      clearTimeout(connectTimer);
+      clearTimeout(holdTimer);
+      clearInterval(sendTimer);
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const fail = (error: unknown) => {
+      if (settled) return;
+      cleanUp();
+      socket.close();
+      reject(error);
+    };
+    const finish = (ended: StreamEnd, reason?: string) => {
+      if (settled) return;
+      cleanUp();
+      if (ended !== 'disconnected') socket.close(1000);
+      observer.closed(ended === 'disconnected');
+      resolve({ connectTime, statusCode: 101, connected: true, ended, ...(reason && { reason }), messagesReceived, bytesReceived });
+    };
+    const send = () => {
+      if (request.message === undefined || socket.readyState !== WebSocket.OPEN) return;
+      socket.send(request.message);
+      unanswered.push(performance.now());
+      observer.sent();
+    };
+    const onAbort = () => opened ? finish('cancelled') : fail(signal!.reason);
+
+    const connectTimer = setTimeout(
+      () => fail(new RequestError('timeout', `No WebSocket connection within ${request.connectTimeoutMs}ms`)),
+      request.connectTimeoutMs
+    );
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    socket.onopen = () => {
+      if (settled) return;
+      opened = true;
+      connectTime = performance.now() - startedAt;
+      clearTimeout(connectTimer);
+      observer.opened(connectTime);
+      send();
+      if (config.intervalMs !== undefined) sendTimer = setInterval(send, config.intervalMs);
+      holdTimer = setTimeout(() => finish('held'), config.holdMs);
+    };
+    socket.onmessage = event => {
+      if (settled) return;
+      const data = typeof event.data === 'string' ? event.data : '';
+      messagesReceived++;
+      bytesReceived += typeof event.data === 'string' ? data.length : (event.data as ArrayBuffer).byteLength;
+
+      const sentAt = unanswered.shift();
+      const latency = config.latencyFrom !== undefined
+        ? deliveryLatency(data, config.latencyFrom)
+        : sentAt !== undefined ? performance.now() - sentAt : undefined;
+      observer.received(latency);
+    };
+    socket.onerror = event => {
+      if (opened || settled) return;
+      const message = (event as ErrorEvent).message || `WebSocket connection to ${url} failed`;
+      // The server answered, but not with an upgrade
+      const status = message.match(/invalid status code:? (\d{3})/i);
+      if (!status) {
+        fail(new Error(message));
+        return;
+      }
+      cleanUp();
+      const statusCode = Number(status[1]);
+      resolve({
+        connectTime: performance.now() - startedAt,
+        statusCode,
+        connected: false,
+        ended: 'disconnected',
+        reason: `handshake answered with status ${statusCode}`,
+        messagesReceived: 0,
+        bytesReceived: 0
+      });
+    };
+    socket.onclose = event => {
+      if (!opened) {
+        fail(new Error(`WebSocket connection to ${url} closed during the handshake (code ${event.code})`));
+      } else {
+        finish('disconnected', `closed by the server (code ${event.code}${event.reason ? `, ${event.reason}` : ''})`);
+      }
+    };
+  });
+}
+
+// ============================================
+// 📡 SERVER-SENT EVENTS
+// ============================================
+
+/**
+ * Data of each complete event in `buffer`, and what is left of it. Events
+ * end with a blank line; comments and other fields are skipped.
+ */
+function parseEvents(buffer: string): { events: string[]; rest: string } {
+  const blocks = buffer.split(/\r\n\r\n|\n\n|\r\r/);
+  const rest = blocks.pop()!;
+  const events = blocks.flatMap(block => {
+    const data = block.split(/\r\n|\n|\r/)
+      .filter(line => line === 'data' || line.startsWith('data:'))
+      .map(line => line.slice(5).replace(/^ /, ''));
+    return data.length > 0 ? [data.join('\n')] : [];
+  });
+  return { events, rest };
+}
+
+/**
+ * Subscribe to an event stream and hold it for the configured time.
+ * Rejects when no response arrives.
+ */
+export async function runEventStream(request: StreamRequest, observer: StreamObserver): Promise<StreamOutcome> {
+  const { config, signal } = request;
+  const controller = new AbortController();
+  const stop = (reason: StreamEnd) => controller.abort(reason);
+  const onAbort = () => stop('cancelled');
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  const connectTimer = setTimeout(
+    () => controller.abort(new RequestError('timeout', `No event stream response within ${request.connectTimeoutMs}ms`)),
+    request.connectTimeoutMs
+  );
+  let holdTimer: ReturnType<typeof setTimeout> | undefined;
+
+  try {
+    if (signal?.aborted) throw signal.reason;
+    const startedAt = performance.now();
+    const response = await fetch(request.url, {
+      headers: { ...request.headers, 'Accept': 'text/event-stream' },
+      signal: controller.signal
+    });
+    const connectTime = performance.now() - startedAt;
+    clearTimeout(connectTimer);
+
+    const contentType = response.headers.get('content-type') ?? '';
+    if (!response.ok || !contentType.includes('text/event-stream')) {
+      await response.body?.cancel();
+      return {
+        connectTime,
+        statusCode: response.status,
+        connected: false,
+        ended: 'disconnected',
+        ...(response.ok && { reason: `content type is ${contentType || 'missing'}, expected text/event-stream` }),
+        messagesReceived: 0,
+        bytesReceived: 0
+      };
+    }
+
+    observer.opened(connectTime);
+    holdTimer = setTimeout(() => stop('held'), config.holdMs);
+    let messagesReceived = 0;
+    let bytesReceived = 0;
+    let ended: StreamEnd = 'disconnected';
+    let reason = 'closed by the server';
+    let buffer = '';
+
+    try {
+      for await (const chunk of response.body!.pipeThrough(new TextDecoderStream())) {
+        bytesReceived += chunk.length;
+        const parsed = parseEvents(buffer + chunk);
+        buffer = parsed.rest;
+        for (const data of parsed.events) {
+          messagesReceived++;
+          observer.received(config.latencyFrom !== undefined ? deliveryLatency(data, config.latencyFrom) : undefined);
+        }
+      }
+    } catch (error) {
+      if (controller.signal.aborted) {
+        ended = controller.signal.reason as StreamEnd;
+      } else {
+        reason = `connection lost: ${(error as Error).message}`;
+      }
+    }
+
+    observer.closed(ended === 'disconnected');
+    return {
+      connectTime,
+      statusCode: response.status,
+      connected: true,
+      ended,
+      ...(ended === 'disconnected' && { reason }),
+      messagesReceived,
+      bytesReceived
+    };
+  } catch (error) {
+    throw controller.signal.aborted && controller.signal.reason instanceof RequestError ? controller.signal.reason : error;
+  } finally {
+    clearTimeout(connectTimer);
+    clearTimeout(holdTimer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
@@ -0,0 +1,219 @@
+// lib/targets.ts
+// ============================================
+// 🎯 Multi-target comparison
+// The same traffic against several deployments, side by side
+// ============================================
+
+import { compareRuns, type ComparisonResult } from './compare.ts';
+import type { RunEnvironment } from './environment.ts';
+import type { PerformanceReport } from './types.ts';
+
+export interface Target {
+  name: string;     // e.g. local, staging, cloud
+  baseUrl: string;
+}
+
+/**
+ * Sequential: one target after another, so they don't share the machine.
+ * Interleaved: all at once, so they see the same network conditions.
+ */
+export type TargetOrder = 'sequential' | 'interleaved';
+
+export interface TargetRatio {
+  metric: string;   // avg, p50, p95 or p99
+  ratio: number;    // Target / baseline; above 1 is slower than the baseline
+}
+
+export interface TargetComparison {
+  target: string;
+  baseline: string;
+  ratios: TargetRatio[];
+  comparison: ComparisonResult;  // Deltas and Mann-Whitney tests against the baseline
+}
+
+export interface ComparativeReport {
+  order: TargetOrder;
+  targets: (Target & { report: PerformanceReport })[];
+  comparisons: TargetComparison[];  // Every other target against the first
+}
+
+const RATIO_METRICS: [string, keyof PerformanceReport['summary']][] = [
+  ['avg', 'averageResponseTime'],
+  ['p50', 'p50ResponseTime'],
+  ['p95', 'p95ResponseTime'],
+  ['p99', 'p99ResponseTime']
+];
+
+/**
+ * `name=url`, or a bare URL named after its host
+ */
+export function parseTarget(spec: string): Target {
+  const match = spec.match(/^([\w.-]+)=(.+)$/);
+  const [name, baseUrl] = match ? [match[1], match[2]] : [undefined, spec];
+
+  let url: URL;
+  try {
+    url = new URL(baseUrl);
+  } catch {
+    throw new Error(`Invalid target "${spec}" (expected name=url, e.g. local=http://localhost:3000)`);
+  }
+  return { name: name ?? url.host, baseUrl: baseUrl.replace(/\/$/, '') };
+}
+
+export function parseTargets(specs: string[]): Target[] {
+  const targets = specs.flatMap(spec => spec.split(',')).map(parseTarget);
+  if (targets.length < 2) {
+    throw new Error('Comparing targets needs at least two --target values');
+  }
+  const names = targets.map(target => target.name);
+  const duplicate = names.find((name, i) => names.indexOf(name) !== i);
+  if (duplicate) {
+    throw new Error(`Target name "${duplicate}" is used twice; name them with name=url`);
+  }
+  return targets;
+}
+
+/**
+ * Compare every target against the first one
+ */
+export function compareTargets(targets: (Target & { report: PerformanceReport })[], order: TargetOrder): ComparativeReport {
+  const [baseline, ...others] = targets;
+  return {
+    order,
+    targets,
+    comparisons: others.map(target => ({
+      target: target.name,
+      baseline: baseline.name,
+      ratios: RATIO_METRICS.map(([metric, field]) => ({
+        metric,
+        ratio: (target.report.summary[field] as number) / (baseline.report.summary[field] as number)
+      })),
+      comparison: compareRuns(baseline.report, target.report)
+    }))
+  };
+}
+
+/**
+ * "7.3x slower", "2.1x faster", or "the same" within 5%
+ */
+export function describeRatio(ratio: number): string {
+  if (!Number.isFinite(ratio) || ratio <= 0) return 'n/a';
+  if (Math.abs(ratio - 1) < 0.05) return 'the same';
+  return ratio > 1 ? `${ratio.toFixed(1)}x slower` : `${(1 / ratio).toFixed(1)}x faster`;
+}
+
+// ============================================
+// 🖨️ DISPLAY
+// ============================================
+
+function formatMs(value: number): string {
+  return `${value.toFixed(1)}ms`;
+}
+
+export function displayComparativeReport(report: ComparativeReport): void {
+  const [baseline] = report.targets;
+  const width = Math.max(14, ...report.targets.map(target => target.name.length + 2));
+  const row = (label: string, cells: string[]) => console.log(label.padEnd(18) + cells.map(cell => cell.padEnd(width)).join(''));
+
+  console.log('\n' + '='.repeat(80));
+  console.log('🎯 DENOGENESIS MULTI-TARGET COMPARISON');
+  console.log('='.repeat(80));
+  for (const target of report.targets) {
+    console.log(`📊 ${target.name}: ${target.baseUrl}${target === baseline ? ' (baseline)' : ''}`);
+  }
+  console.log(`🔀 Order: ${report.order === 'interleaved' ? 'interleaved (all targets at once)' : 'sequential (one target at a time)'}`);
+
+  console.log('\n📈 SUMMARY:');
+  console.log('─'.repeat(60));
+  row('', report.targets.map(target => target.name));
+  row('Requests', report.targets.map(({ report }) => report.summary.totalRequests.toLocaleString()));
+  row('Average', report.targets.map(({ report }) => formatMs(report.summary.averageResponseTime)));
+  row('P50', report.targets.map(({ report }) => formatMs(report.summary.p50ResponseTime)));
+  row('P95', report.targets.map(({ report }) => formatMs(report.summary.p95ResponseTime)));
+  row('P99', report.targets.map(({ report }) => formatMs(report.summary.p99ResponseTime)));
+  row('Success rate', report.targets.map(({ report }) => `${report.summary.successRate.toFixed(1)}%`));
+  if (report.targets.some(({ report }) => report.thresholds)) {
+    row('Thresholds', report.targets.map(({ report }) => {
+      const thresholds = report.thresholds ?? [];
+      const passed = thresholds.filter(t => t.passed).length;
+      return thresholds.length === 0 ? '-' : `${passed === thresholds.length ? '✅' : '❌'} ${passed}/${thresholds.length}`;
+    }));
+  }
+
+  console.log(`\n⚖️  MEASURED RATIOS (vs ${baseline.name}):`);
+  console.log('─'.repeat(60));
+  for (const { target, ratios, comparison } of report.comparisons) {
+    console.log(`${target}: ${ratios.map(({ metric, ratio }) => `${metric} ${describeRatio(ratio)}`).join(', ')}`);
+    const test = comparison.test;
+    console.log(test
+      ? `   Mann-Whitney U: ${test.significant ? 'significant' : 'not significant'} (p=${test.pValue.toFixed(4)})`
+      : '   Mann-Whitney U: not enough samples');
+  }
+
+  console.log('\n🎯 ENDPOINTS (p95):');
+  console.log('─'.repeat(60));
+  const endpoints = [...new Set(report.targets.flatMap(({ report }) => Object.keys(report.endpointBreakdown)))];
+  for (const endpoint of endpoints) {
+    const base = baseline.report.endpointBreakdown[endpoint];
+    console.log(endpoint);
+    for (const { name, report: targetReport } of report.targets) {
+      const stats = targetReport.endpointBreakdown[endpoint];
+      if (!stats) {
+        console.log(`   ${name.padEnd(width)} no requests`);
+      } else if (name === baseline.name || !base) {
+        console.log(`   ${name.padEnd(width)} ${formatMs(stats.p95ResponseTime)}`);
+      } else {
+        const change = ((stats.p95ResponseTime - base.p95ResponseTime) / base.p95ResponseTime) * 100;
+        const sign = change >= 0 ? '+' : '';
+        console.log(`   ${name.padEnd(width)} ${formatMs(stats.p95ResponseTime)} (${sign}${change.toFixed(1)}%, ${describeRatio(stats.p95ResponseTime / base.p95ResponseTime)})`);
+      }
+    }
+  }
+
+  console.log('\n💡 CONCLUSION:');
+  console.log('─'.repeat(60));
+  for (const { target, baseline: baselineName, ratios, comparison } of report.comparisons) {
+    const average = ratios[0].ratio;
+    if (!comparison.test?.significant || describeRatio(average) === 'the same') {
+      console.log(`≈ No significant difference between ${baselineName} and ${target}`);
+    } else if (average > 1) {
+      console.log(`⚡ ${baselineName} is ${average.toFixed(1)}x faster than ${target} on average (measured)`);
+    } else {
+      console.log(`⚡ ${target} is ${(1 / average).toFixed(1)}x faster than ${baselineName} on average (measured)`);
+    }
+  }
+
+  console.log('\n' + '='.repeat(80));
+}
+
+/**
+ * One JSON file for the whole comparison; each target keeps its full report
+ */
+export async function exportComparativeReport(
+  report: ComparativeReport,
+  context: { generatedAt: string; output?: string; seed?: string; testType: string; environments?: RunEnvironment[] }  // Environments in target order
+): Promise<void> {
+  const filename = context.output ?? `denogenesis-comparison-${context.generatedAt.replace(/[:.]/g, '-')}.json`;
+  const exportData = {
+    metadata: {
+      testTimestamp: context.generatedAt,
+      testType: context.testType,
+      order: report.order,
+      baseline: report.targets[0].name,
+      ...(context.seed && { seed: context.seed }),
+      // Every target runs from the same machine with the same settings
+      ...(context.environments?.[0] && {
+        environment: context.environments[0].fingerprint,
+        configuration: context.environments[0].configuration
+      })
+    },
+    targets: Object.fromEntries(report.targets.map(({ name, baseUrl, report }, i) => {
+      const serverVersion = context.environments?.[i]?.serverVersion;
+      return [name, { baseUrl, ...(serverVersion && { serverVersion }), ...report }];
+    })),
+    comparisons: report.comparisons
+  };
+
+  await Deno.writeTextFile(filename, JSON.stringify(exportData, null, 2));
+  console.log(`\n💾 Comparison exported to: ${filename}`);
+}
@@ -0,0 +1,225 @@
+// lib/templates.ts
+// ============================================
+// 🧩 Request templates and test data
+// {{placeholders}} for varied, realistic payloads
+// ============================================
+
+import type { Random } from './random.ts';
+import type { EndpointDefinition } from './scenario.ts';
+
+/**
+ * Rows loaded from a CSV/JSON file or given inline in the scenario.
+ * `order` decides which row a request gets: the next one, a random one, or
+ * one fixed per virtual user.
+ */
+export interface DataSet {
+  file?: string;
+  order: DataOrder;
+  rows: Record<string, string>[];
+}
+
+export type DataOrder = 'sequential' | 'random' | 'per-user';
+
+export const DATA_ORDERS: DataOrder[] = ['sequential', 'random', 'per-user'];
+
+/**
+ * Looks up the value of one placeholder expression, e.g. `blogId`,
+ * `users.email` or `random.int(1,100)`
+ */
+export type TemplateLookup = (expression: string) => string | undefined;
+
+/**
+ * Replace `{{expression}}` placeholders. Unknown expressions are left as-is
+ * so a missing value is visible in the request.
+ */
+export function renderTemplate(text: string, lookup: TemplateLookup): string {
+  return text.replace(/\{\{\s*([^{}]+?)\s*\}\}/g, (placeholder, expression) => lookup(expression) ?? placeholder);
+}
+
+function renderValue(value: unknown, lookup: TemplateLookup): unknown {
+  if (typeof value === 'string') return renderTemplate(value, lookup);
+  if (Array.isArray(value)) return value.map(item => renderValue(item, lookup));
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, renderValue(item, lookup)]));
+  }
+  return value;
+}
+
+/**
+ * The endpoint with placeholders filled in its path, headers and body
+ */
+export function renderEndpoint(endpoint: EndpointDefinition, lookup: TemplateLookup): EndpointDefinition {
+  return {
+    ...endpoint,
+    path: renderTemplate(endpoint.path, lookup),
+    ...(endpoint.headers && {
+      headers: Object.fromEntries(Object.entries(endpoint.headers).map(([name, value]) => [name, renderTemplate(value, lookup)]))
+    }),
+    ...(endpoint.body !== undefined && { body: renderValue(endpoint.body, lookup) })
+  };
+}
+
+// ============================================
+// 🎲 GENERATED VALUES
+// ============================================
+
+const ALPHANUMERIC = 'abcdefghijklmnopqrstuvwxyz0123456789';
+
+/**
+ * Version 4 layout, drawn from `random` so seeded runs repeat their ids
+ */
+function uuid(random: Random): string {
+  const hex = Array.from({ length: 32 }, () => Math.floor(random() * 16));
+  hex[12] = 4;
+  hex[16] = 8 | (hex[16] & 3);
+  const digits = hex.map(digit => digit.toString(16)).join('');
+  return `${digits.slice(0, 8)}-${digits.slice(8, 12)}-${digits.slice(12, 16)}-${digits.slice(16, 20)}-${digits.slice(20)}`;
+}
+
+function randomValue(name: string, args: string[], random: Random): string | undefined {
+  switch (name) {
+    case 'int': {
+      const [min = 0, max = 1_000_000] = args.map(Number);
+      return String(min + Math.floor(random() * (max - min + 1)));
+    }
+    case 'float': {
+      const [min = 0, max = 1] = args.map(Number);
+      return String(min + random() * (max - min));
+    }
+    case 'string': {
+      const length = Number(args[0]) || 8;
+      return Array.from({ length }, () => ALPHANUMERIC[Math.floor(random() * ALPHANUMERIC.length)]).join('');
+    }
+    case 'uuid':
+      return uuid(random);
+    case 'pick':
+      return args.length > 0 ? args[Math.floor(random() * args.length)] : undefined;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Generated values and data set rows shared by every request of a run
+ */
+export class TemplateData {
+  private sequence = 0;
+  private cursors = new Map<string, number>();
+
+  constructor(private readonly dataSets: Record<string, DataSet> = {}, private readonly random: Random = Math.random) {}
+
+  /**
+   * Lookup for one request. Each data set's row is picked once, on first
+   * use, so `{{users.email}}` and `{{users.password}}` come from the same row.
+   * `random` overrides the shared stream, e.g. with a virtual user's own.
+   */
+  scope(variables: Record<string, string> = {}, userId?: number, random: Random = this.random): TemplateLookup {
+    const rows = new Map<string, Record<string, string>>();
+    let sequence: number | undefined;
+
+    return (expression: string) => {
+      if (Object.hasOwn(variables, expression)) return variables[expression];
+      if (expression === 'sequence') return String(sequence ??= ++this.sequence);
+      if (expression === 'user') return String(userId ?? 0);
+      if (expression === 'timestamp') return String(Date.now());
+
+      const call = expression.match(/^random\.(\w+)(?:\((.*)\))?$/);
+      if (call) {
+        const args = call[2] ? call[2].split(',').map(arg => arg.trim()) : [];
+        return randomValue(call[1], args, random);
+      }
+
+      const [dataSetName, column] = expression.split('.', 2);
+      const dataSet = Object.hasOwn(this.dataSets, dataSetName) ? this.dataSets[dataSetName] : undefined;
+      if (!dataSet || column === undefined || dataSet.rows.length === 0) return undefined;
+
+      let row = rows.get(dataSetName);
+      if (!row) {
+        row = this.pickRow(dataSetName, dataSet, userId, random);
+        rows.set(dataSetName, row);
+      }
+      return Object.hasOwn(row, column) ? row[column] : undefined;
+    };
+  }
+
+  private pickRow(name: string, dataSet: DataSet, userId: number | undefined, random: Random): Record<string, string> {
+    const { rows, order } = dataSet;
+    if (order === 'random') return rows[Math.floor(random() * rows.length)];
+    // Outside load tests there are no virtual users, so per-user reads sequentially
+    if (order === 'per-user' && userId !== undefined) return rows[userId % rows.length];
+
+    const cursor = this.cursors.get(name) ?? 0;
+    this.cursors.set(name, cursor + 1);
+    return rows[cursor % rows.length];
+  }
+}
+
+// ============================================
+// 📂 DATA FILES
+// ============================================
+
+/**
+ * Parse CSV with a header row. Supports quoted fields with `""` escapes and
+ * embedded commas or newlines.
+ */
+export function parseCsv(text: string): Record<string, string>[] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const [header, ...rows] = records.filter(row => row.some(value => value !== ''));
+  if (!header) return [];
+  return rows.map(row => Object.fromEntries(header.map((column, i) => [column.trim(), row[i] ?? ''])));
+}
+
+/**
+ * Rows from a JSON array of objects; values are converted to strings
+ */
+export function parseJsonRows(raw: unknown): Record<string, string>[] {
+  if (!Array.isArray(raw) || raw.some(row => typeof row !== 'object' || row === null || Array.isArray(row))) {
+    throw new Error('expected a JSON array of objects');
+  }
+  return raw.map(row => Object.fromEntries(
+    Object.entries(row as Record<string, unknown>).map(([key, value]) => [key, typeof value === 'string' ? value : JSON.stringify(value)])
+  ));
+}
+
+/**
+ * Read a `.csv` or `.json` data file
+ */
+export async function loadDataFile(path: string): Promise<Record<string, string>[]> {
+  const text = await Deno.readTextFile(path);
+  return /\.json$/i.test(path) ? parseJsonRows(JSON.parse(text)) : parseCsv(text);
+}
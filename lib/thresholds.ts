@@ -0,0 +1,153 @@
+// lib/thresholds.ts
+// ============================================
+// 🚦 Pass/fail thresholds
+// e.g. "p95 < 150ms", "/api/blogs p99 < 300ms"
+// ============================================
+
+import type { PerformanceReport, ThresholdResult } from './types.ts';
+
+export type ThresholdOperator = '<' | '<=' | '>' | '>=';
+
+export interface Threshold {
+  expression: string;  // As written, for display
+  endpoint?: string;   // Per-endpoint threshold when set
+  metric: string;      // Canonical metric name, e.g. "p95", "errorRate"
+  operator: ThresholdOperator;
+  value: number;       // ms for latency metrics, % for rates
+}
+
+// Accepted spellings -> canonical metric name
+const METRIC_ALIASES: Record<string, string> = {
+  avg: 'avg', mean: 'avg', average: 'avg',
+  p50: 'p50', median: 'p50',
+  p95: 'p95',
+  p99: 'p99',
+  min: 'min',
+  max: 'max',
+  stddev: 'stdDev',
+  errorrate: 'errorRate', errors: 'errorRate',
+  successrate: 'successRate', success: 'successRate',
+  requests: 'requests'
+};
+
+const RATE_METRICS = ['errorRate', 'successRate'];
+
+/**
+ * Parse a threshold expression such as `p95 < 150ms`, `errorRate < 1%`
+ * or `/api/blogs p99 < 300ms`
+ */
+export function parseThreshold(expression: string): Threshold {
+  const match = expression.trim().match(/^(?:(\/\S*)\s+)?([A-Za-z][\w.]*)\s*(<=|>=|<|>)\s*(\d+(?:\.\d+)?)\s*(ms|s|%)?$/);
+  if (!match) {
+    throw new Error(`Invalid threshold "${expression}" (expected e.g. "p95 < 150ms" or "/api/blogs p99 < 300ms")`);
+  }
+
+  const [, endpoint, rawMetric, operator, rawValue, unit] = match;
+  // Any percentile works, e.g. p97, p99.9 or p99.99
+  const percentile = /^p\d+(\.\d+)?$/i.test(rawMetric) ? parseFloat(rawMetric.slice(1)) : undefined;
+  const metric = METRIC_ALIASES[rawMetric.toLowerCase()] ?? (percentile !== undefined ? `p${percentile}` : undefined);
+  if (!metric) {
+    throw new Error(`Unknown threshold metric "${rawMetric}" in "${expression}" (use pNN, ${Object.keys(METRIC_ALIASES).join(', ')})`);
+  }
+  if (percentile !== undefined && percentile > 100) {
+    throw new Error(`Threshold "${expression}": percentiles run from p0 to p100`);
+  }
+
+  const isRate = RATE_METRICS.includes(metric);
+  if (isRate && unit && unit !== '%') {
+    throw new Error(`Threshold "${expression}": ${metric} is a percentage`);
+  }
+  if (!isRate && unit === '%') {
+    throw new Error(`Threshold "${expression}": ${metric} is not a percentage`);
+  }
+
+  return {
+    expression: expression.trim(),
+    ...(endpoint && { endpoint }),
+    metric,
+    operator: operator as ThresholdOperator,
+    value: parseFloat(rawValue) * (unit === 's' ? 1000 : 1)
+  };
+}
+
+function metricValue(report: PerformanceReport, threshold: Threshold): number | undefined {
+  if (threshold.endpoint) {
+    const stats = report.endpointBreakdown[threshold.endpoint];
+    if (!stats) return undefined;
+
+    switch (threshold.metric) {
+      case 'avg': return stats.avgResponseTime;
+      case 'p50': return stats.p50ResponseTime;
+      case 'p95': return stats.p95ResponseTime;
+      case 'p99': return stats.p99ResponseTime;
+      case 'min': return stats.minResponseTime;
+      case 'max': return stats.maxResponseTime;
+      case 'stdDev': return stats.stdDevResponseTime;
+      case 'successRate': return stats.successRate;
+      case 'errorRate': return 100 - stats.successRate;
+      case 'requests': return stats.requests;
+      default: return stats.percentiles?.[threshold.metric];
+    }
+  }
+
+  const summary = report.summary;
+  switch (threshold.metric) {
+    case 'avg': return summary.averageResponseTime;
+    case 'p50': return summary.p50ResponseTime;
+    case 'p95': return summary.p95ResponseTime;
+    case 'p99': return summary.p99ResponseTime;
+    case 'min': return summary.minResponseTime;
+    case 'max': return summary.maxResponseTime;
+    case 'stdDev': return summary.stdDevResponseTime;
+    case 'successRate': return summary.successRate;
+    case 'errorRate': return summary.errorRate;
+    case 'requests': return summary.totalRequests;
+    default: return summary.percentiles?.[threshold.metric];
+  }
+}
+
+/**
+ * Percentiles the thresholds ask for, e.g. 97 for `p97 < 1000ms`, so the
+ * report can include them alongside the standard ones
+ */
+export function thresholdPercentiles(thresholds: Threshold[]): number[] {
+  return thresholds.flatMap(({ metric }) => /^p\d/.test(metric) ? [parseFloat(metric.slice(1))] : []);
+}
+
+/**
+ * Whether `actual operator value` holds
+ */
+export function compareMetric(actual: number, operator: ThresholdOperator, value: number): boolean {
+  switch (operator) {
+    case '<': return actual < value;
+    case '<=': return actual <= value;
+    case '>': return actual > value;
+    case '>=': return actual >= value;
+  }
+}
+
+/**
+ * Check every threshold against a report. A threshold on an endpoint that was
+ * never requested fails, so typos in endpoint paths cannot pass silently.
+ */
+export function evaluateThresholds(report: PerformanceReport, thresholds: Threshold[]): ThresholdResult[] {
+  return thresholds.map(threshold => {
+    const actual = metricValue(report, threshold);
+    return {
+      expression: threshold.expression,
+      ...(threshold.endpoint && { endpoint: threshold.endpoint }),
+      metric: threshold.metric,
+      ...(actual !== undefined && { actual }),
+      passed: actual !== undefined && compareMetric(actual, threshold.operator, threshold.value)
+    };
+  });
+}
+
+/**
+ * Human-readable value for a metric, with its unit
+ */
+export function formatMetric(metric: string, value: number): string {
+  if (RATE_METRICS.includes(metric)) return `${value.toFixed(2)}%`;
+  if (metric === 'requests') return value.toString();
+  return `${value.toFixed(1)}ms`;
+}
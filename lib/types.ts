@@ -0,0 +1,204 @@
+// lib/types.ts
+// ============================================
+// 📐 Shared metric and report types
+// ============================================
+
+import type { EnvironmentFingerprint, ResourceUsage } from './environment.ts';
+import type { ErrorClass } from './errors.ts';
+
+export interface PerformanceMetric {
+  endpoint: string;
+  method: string;
+  responseTime: number;
+  statusCode: number;         // 0 when no response arrived; see errorClass
+  contentLength: number;
+  timestamp: number;
+  errorClass?: ErrorClass;    // Set when the request failed without a response
+  errorMessage?: string;
+  attempts?: number;          // Set when retries were needed; this metric is the final attempt
+  journey?: string;           // Journey runs: journey name and numbered step, e.g. "2. GET /api/blogs"
+  journeyStep?: string;
+  expectationMet: boolean;    // Status and body matched the endpoint's expectations
+  unexpectedReason?: string;  // Why it did not, e.g. "status 500, expected 2xx/3xx"
+  unexpectedValue?: string;   // Body checks: the value found instead of the expected one
+  serviceTime?: number;       // Rate mode: time from actual send (responseTime counts from intended send)
+  stage?: number;             // Staged runs: 1-based stage the request was sent in
+  // Timing phases in ms. ttfbTime/downloadTime are always set for responses;
+  // the rest only with --detailed-timing
+  dnsTime?: number;
+  connectTime?: number;
+  tlsTime?: number;
+  ttfbTime?: number;          // Request sent -> response headers (fetch) or first byte (detailed)
+  downloadTime?: number;      // Body read
+  connectionReused?: boolean;
+}
+
+export interface PerformanceReport {
+  summary: {
+    totalRequests: number;
+    averageResponseTime: number;
+    p50ResponseTime: number;
+    p95ResponseTime: number;
+    p99ResponseTime: number;
+    minResponseTime: number;
+    maxResponseTime: number;
+    stdDevResponseTime?: number;
+    percentiles?: Record<string, number>;  // e.g. { p50, p90, 'p99.9', 'p99.99' }
+    successRate: number;
+    errorRate: number;
+    cancelledRequests?: number;  // In flight when the run ended; not part of any statistic
+  };
+  endpointBreakdown: Record<string, {
+    requests: number;
+    avgResponseTime: number;
+    p50ResponseTime: number;
+    p95ResponseTime: number;
+    p99ResponseTime: number;
+    minResponseTime?: number;
+    maxResponseTime?: number;
+    stdDevResponseTime?: number;
+    percentiles?: Record<string, number>;
+    successRate: number;
+    expectedResponses: number;                  // Met the declared status/body expectations
+    unexpectedResponses: number;
+    unexpectedReasons: Record<string, number>;  // Reason -> count
+  }>;
+  timeSeriesData: PerformanceMetric[];
+  recommendations: string[];
+  arrivalRate?: {
+    targetRps: number;
+    achievedRps: number;
+    scheduled: number;  // Requests the schedule called for
+    sent: number;
+    queued: number;     // Waited for a free in-flight slot
+    dropped: number;    // No slot or queue space, or still queued when the test ended
+    maxInFlight: number;
+  };
+  stages?: {
+    unit: 'users' | 'rps';
+    summaries: StageSummary[];
+    firstBreachingStage?: number;  // 1-based index of the first stage over its limits
+  };
+  thresholds?: ThresholdResult[];
+  workers?: {
+    address: string;
+    requests: number;       // Recorded by this worker
+    clockOffsetMs: number;  // Its clock minus the coordinator's, corrected for in timeSeriesData
+    environment?: EnvironmentFingerprint;
+    loadGenerator?: ResourceUsage;
+  }[];
+  loadGenerator?: ResourceUsage;  // This process's CPU, memory and event loop lag; per worker in distributed runs
+  warmup?: {                      // Sent before the measured requests, and left out of every other figure
+    requests: number;
+    durationMs: number;
+    avgResponseTime: number;
+    p95ResponseTime: number;
+    successRate: number;
+    retryAttempts?: number;       // Retries of warm-up requests; not in `retries`
+  };
+  coldStart?: ColdStartSummary;
+  retries?: {
+    retriedRequests: number;            // Requests that needed more than one attempt
+    recovered: number;                  // ...and met expectations in the end
+    retryAttempts: number;              // Failed attempts that were retried
+    reasons: Record<string, number>;    // Why attempts were retried
+  };
+  journeys?: Record<string, JourneySummary>;
+  streams?: Record<string, StreamSummary>;  // WebSocket and SSE endpoints
+  errors?: {
+    total: number;         // Requests that got no response
+    serverErrors: number;  // 5xx responses, for contrast
+    byClass: Partial<Record<ErrorClass, ErrorClassSummary>>;
+  };
+  timingPhases?: {
+    phases: Record<string, PhaseSummary>;  // dns, connect, tls, ttfb, download
+    connectionReuseRate?: number;          // % of requests on a kept-alive connection (detailed timing only)
+  };
+}
+
+export interface JourneySummary {
+  runs: number;
+  completed: number;                  // Every step met its expectations
+  completionRate: number;
+  avgDuration: number;                // Whole journey, completed runs only
+  p50Duration: number;
+  p95Duration: number;
+  p99Duration: number;
+  failedAt: Record<string, number>;   // Step -> runs that stopped there
+  steps: Record<string, {
+    requests: number;
+    avgResponseTime: number;
+    p95ResponseTime: number;
+    successRate: number;
+  }>;
+}
+
+export interface StreamSummary {
+  type: 'websocket' | 'sse';
+  connections: number;        // Attempts; each is also one request in endpointBreakdown
+  connected: number;
+  peakOpen: number;           // Most connections open at once
+  disconnects: number;        // Closed by the server or the network before the hold ended
+  messagesSent: number;       // WebSocket messages
+  messagesReceived: number;   // WebSocket messages or SSE events
+  connectTime: PhaseSummary;
+  latency?: PhaseSummary;     // WebSocket round trips, or delivery latency with latencyFrom
+}
+
+/**
+ * First request to each endpoint against the requests after it
+ */
+export interface ColdStartSummary {
+  cold: PhaseSummary;     // Each endpoint's first request, warm-up included
+  warm: PhaseSummary;     // Later measured requests that met expectations
+  avgPenaltyMs?: number;  // Cold time minus warm p50, averaged over endpoints with both
+  endpoints: Record<string, {
+    coldResponseTime: number;
+    warmRequests: number;
+    warmP50ResponseTime?: number;  // Missing when the endpoint was only hit once
+    penaltyMs?: number;
+  }>;
+}
+
+export interface ErrorClassSummary {
+  count: number;
+  endpoints: Record<string, number>;  // Endpoint -> count
+  sampleMessages: string[];           // A few distinct messages
+}
+
+/**
+ * A warm-up before the measured requests, by count or by time
+ */
+export interface WarmupOptions {
+  requests?: number;
+  durationSeconds?: number;
+}
+
+export interface PhaseSummary {
+  count: number;
+  avg: number;
+  p50: number;
+  p95: number;
+  p99: number;
+}
+
+export interface ThresholdResult {
+  expression: string;
+  endpoint?: string;
+  metric: string;
+  actual?: number;     // Missing when the endpoint was never hit
+  passed: boolean;
+}
+
+export interface StageSummary {
+  stage: number;              // 1-based
+  durationSeconds: number;
+  startTarget: number;        // Users or RPS at the start of the stage
+  target: number;             // Users or RPS at the end of the stage
+  requests: number;
+  throughput: number;         // Completed requests per second
+  avgResponseTime: number;
+  p95ResponseTime: number;
+  errorRate: number;
+  breaches: string[];         // Limits this stage broke, e.g. "p95 312.4ms > 200ms"
+}
@@ -4,165 +4,554 @@
 // Cambridge validation without tenant dependencies
 // ============================================
 
-interface PerformanceMetric {
-  endpoint: string;
-  method: string;
-  responseTime: number;
-  statusCode: number;
-  contentLength: number;
-  timestamp: number;
+import {
+  BUILT_IN_SCENARIOS,
+  type EndpointDefinition,
+  loadScenario,
+  type Scenario,
+  isStreamEndpoint,
+  type Journey,
+  pickWeighted,
+  scenarioEndpoints
+} from './lib/scenario.ts';
+import { checkExpectation, type ExpectationResult } from './lib/expectations.ts';
+import { type CompareOptions, compareRuns, DEFAULT_COMPARE_OPTIONS, displayComparison, loadExportedRun } from './lib/compare.ts';
+import {
+  arrivalTimes,
+  DEFAULT_STAGE_LIMITS,
+  type LoadStage,
+  parseDuration,
+  parseStages,
+  stageAt,
+  type StageLimits,
+  summarizeStages,
+  totalStageDuration
+} from './lib/stages.ts';
+import { evaluateThresholds, parseThreshold, type Threshold, thresholdPercentiles } from './lib/thresholds.ts';
+import type { ColdStartSummary, JourneySummary, PerformanceMetric, PerformanceReport, PhaseSummary, WarmupOptions } from './lib/types.ts';
+import { percentileMap, ResultAggregator, TIMING_PHASES } from './lib/aggregator.ts';
+import { LatencyHistogram } from './lib/histogram.ts';
+import {
+  type ArrivalCounts,
+  DEFAULT_WORKER_PORT,
+  type DistributedRun,
+  type LocalWorker,
+  parseWorkerAddress,
+  runOnWorkers,
+  serveWorker,
+  shareOf,
+  startLocalWorkers,
+  stopLocalWorkers,
+  type WorkerJob,
+  type WorkerOptions,
+  type WorkerResult
+} from './lib/distributed.ts';
+import { classifyError, ERROR_CLASS_LABELS, RequestError } from './lib/errors.ts';
+import {
+  DEFAULT_REQUEST_TIMEOUT_MS,
+  DEFAULT_RETRY_POLICY,
+  delay,
+  isRetryable,
+  retryDelay,
+  type RetryPolicy
+} from './lib/retry.ts';
+import { VirtualUserSession } from './lib/session.ts';
+import { renderEndpoint, TemplateData } from './lib/templates.ts';
+import { encodeBody } from './lib/requestBody.ts';
+import { DetailedHttpClient, type RequestPhases } from './lib/httpClient.ts';
+import { LiveDashboard } from './lib/dashboard.ts';
+import { displayReport } from './lib/consoleReporter.ts';
+import {
+  type AlertChannel,
+  AlertEvaluator,
+  type AlertRule,
+  commandChannel,
+  dispatchAlert,
+  logFileChannel,
+  parseAlertRule,
+  webhookChannel
+} from './lib/alerts.ts';
+import { RollingWindow } from './lib/rollingWindow.ts';
+import { runEventStream, runWebSocket } from './lib/streams.ts';
+import {
+  DEFAULT_MOCK_PORT,
+  describeLatency,
+  type LatencyDistribution,
+  parseFault,
+  parseLatencyOption,
+  serveMock
+} from './lib/mockServer.ts';
+import { type MetricsExportOptions, PrometheusRegistry, pushMetrics, serveMetrics } from './lib/prometheus.ts';
+import { DEFAULT_REPORTERS, jsonReporter, parseReporters, REPORTERS, type ReporterSelection } from './lib/reporters.ts';
+import { type Random, randomSeed, seededRandom } from './lib/random.ts';
+import {
+  type PlanInfo,
+  type PlannedRequest,
+  type RequestPlan,
+  RequestPlanRecorder,
+  saveRequestPlan,
+  scalePlan,
+  validateRequestPlan
+} from './lib/plan.ts';
+import {
+  compareTargets,
+  displayComparativeReport,
+  exportComparativeReport,
+  parseTargets,
+  type Target,
+  type TargetOrder
+} from './lib/targets.ts';
+import { accessLogPlan, accessLogScenario, DEFAULT_SCENARIO_ENDPOINTS, parseAccessLog, readAccessLog } from './lib/accessLog.ts';
+import {
+  environmentFingerprint,
+  probeServerVersion,
+  ResourceMonitor,
+  type RunConfiguration,
+  type RunEnvironment
+} from './lib/environment.ts';
+
+// Distinct from 1 (the run itself failed) so CI can tell the two apart
+const THRESHOLD_FAILURE_EXIT_CODE = 2;
+
+interface TestOptions {
+  scenario?: Scenario;  // Defaults to the built-in scenario for each mode
+  groups?: string[];    // Restrict runs to these scenario groups
+  thresholds?: Threshold[];
+  maxSamples?: number;         // Raw metrics kept in timeSeriesData (default 10,000)
+  histogramPrecision?: number; // Histogram significant digits, 1-5 (default 3)
+  detailedTiming?: boolean;    // Time DNS/connect/TLS phases with the instrumented client
+  timeoutMs?: number;          // Per-request timeout unless the endpoint sets one (default 30s)
+  retry?: Partial<RetryPolicy>;
+  plainOutput?: boolean;       // Log summary lines instead of the full-screen dashboard
+  reporters?: ReporterSelection[];  // Default: console and JSON
+  metrics?: MetricsExportOptions;   // Monitor mode: Prometheus /metrics and push target
+  alerts?: AlertRule[];             // Monitor mode: rules checked after every request
+  alertChannels?: AlertChannel[];   // Where alert events go besides the console
+  seed?: string;                    // Same seed, same request mix (default: a random one, reported in the export)
+  recordPlan?: boolean;             // Keep the requests sent for requestPlan
+  label?: string;                   // Multi-target runs: target name on status lines
+  versionHeader?: string;           // Response header with the target's version (default: read /api/system)
+  warmup?: WarmupOptions;           // Quick/cambridge modes: requests sent first and left out of the results
 }
 
-interface PerformanceReport {
-  summary: {
-    totalRequests: number;
-    averageResponseTime: number;
-    p50ResponseTime: number;
-    p95ResponseTime: number;
-    p99ResponseTime: number;
-    minResponseTime: number;
-    maxResponseTime: number;
-    successRate: number;
-    errorRate: number;
+interface RequestOptions {
+  scheduledAt?: number;         // Rate mode: intended send time
+  signal?: AbortSignal;         // Aborts when the run ends
+  session?: VirtualUserSession; // Virtual user's login, cookies and variables
+  userId?: number;              // Load tests: virtual user, for per-user data rows
+  random?: Random;              // Virtual user's stream for template values (default: the run's)
+  warmup?: boolean;             // Warm-up: retries counted apart, nothing recorded to the plan
+}
+
+/**
+ * A rate-mode arrival: when it is due and what it requests
+ */
+interface ScheduledArrival {
+  offset: number;               // ms after the start of the run
+  endpoint: EndpointDefinition;
+  stage?: number;
+}
+
+/**
+ * Count, mean and headline percentiles of a histogram
+ */
+function summarize(histogram: LatencyHistogram): PhaseSummary {
+  return {
+    count: histogram.count,
+    avg: histogram.mean,
+    p50: histogram.percentile(50),
+    p95: histogram.percentile(95),
+    p99: histogram.percentile(99)
   };
-  endpointBreakdown: Record<string, {
-    requests: number;
-    avgResponseTime: number;
-    p95ResponseTime: number;
-    successRate: number;
-  }>;
-  timeSeriesData: PerformanceMetric[];
-  recommendations: string[];
 }
 
 class SimplePerformanceTest {
   private baseUrl: string;
-  private results: PerformanceMetric[] = [];
-
-  constructor(baseUrl: string) {
+  private scenario?: Scenario;
+  private groups?: string[];
+  private thresholds: Threshold[];
+  private aggregatorOptions: ConstructorParameters<typeof ResultAggregator>[0];
+  private results: ResultAggregator;
+  private activeStage?: number; // Staged runs: stage new requests are attributed to
+  private httpClient?: DetailedHttpClient;
+  private timeoutMs: number;
+  private retryPolicy: RetryPolicy;
+  private templates: TemplateData;
+  private plainOutput: boolean;
+  private dashboard?: LiveDashboard;
+  private reporters: ReporterSelection[];
+  private metricsExport?: MetricsExportOptions;
+  private alertRules: AlertRule[];
+  private alertChannels: AlertChannel[];
+  private seed: string;
+  private random: Random;       // Endpoint picks outside load tests
+  private retryJitter: Random;  // Separate, so a retry doesn't shift the picks after it
+  private recordPlan: boolean;
+  private planRecorder?: RequestPlanRecorder;
+  private label?: string;
+  private versionHeader?: string;
+  private warmup?: WarmupOptions;
+  private resourceMonitor?: ResourceMonitor;  // This process's CPU and memory during the current run
+  private runInfo?: RunConfiguration['run'];  // Mode and parameters of the last run
+  private workerOptions: Omit<WorkerOptions, 'seed' | 'label'>;  // What distributed workers are sent
+
+  constructor(baseUrl: string, options: TestOptions = {}) {
     this.baseUrl = baseUrl.replace(/\/$/, ''); // Remove trailing slash
+    this.scenario = options.scenario;
+    this.groups = options.groups;
+    this.thresholds = options.thresholds ?? [];
+    this.aggregatorOptions = {
+      maxSamples: options.maxSamples,
+      histogram: { significantDigits: options.histogramPrecision }
+    };
+    if (options.detailedTiming) {
+      this.httpClient = new DetailedHttpClient();
+    }
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
+    this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...options.retry };
+    this.seed = options.seed ?? randomSeed();
+    this.results = this.newAggregator();
+    this.random = this.randomStream('run');
+    this.retryJitter = this.randomStream('retry');
+    this.templates = new TemplateData(options.scenario?.data, this.randomStream('data'));
+    this.plainOutput = options.plainOutput ?? false;
+    this.reporters = options.reporters ?? parseReporters(DEFAULT_REPORTERS);
+    this.metricsExport = options.metrics;
+    this.alertRules = options.alerts ?? [];
+    this.alertChannels = options.alertChannels ?? [];
+    this.recordPlan = options.recordPlan ?? false;
+    this.label = options.label;
+    this.versionHeader = options.versionHeader;
+    this.warmup = options.warmup;
+    this.workerOptions = {
+      scenario: options.scenario,
+      groups: options.groups,
+      maxSamples: options.maxSamples,
+      histogramPrecision: options.histogramPrecision,
+      detailedTiming: options.detailedTiming,
+      timeoutMs: options.timeoutMs,
+      retry: options.retry
+    };
   }
 
   /**
-   * Default endpoints to test (only working/public endpoints for 100% success)
+   * Independent streams derived from the seed, so a virtual user's choices
+   * don't depend on how its requests interleave with other users'
    */
-  private getTestEndpoints() {
-    return [
-      // Core Pages (Always Work)
-      { path: '/', method: 'GET', weight: 20, description: 'Home page (Static)' },
+  private randomStream(name: string): Random {
+    return seededRandom(`${this.seed}:${name}`);
+  }
 
-      // Public API Endpoints (No Auth Required)
-      { path: '/api/analytics', method: 'GET', weight: 15, description: 'Analytics data' },
-      { path: '/api/blogs', method: 'GET', weight: 15, description: 'Blog content API' },
-      { path: '/api/projects', method: 'GET', weight: 15, description: 'Projects portfolio API' },
-      { path: '/api/settings', method: 'GET', weight: 15, description: 'Settings API' },
-      { path: '/api/roadmap', method: 'GET', weight: 10, description: 'Product roadmap API' },
-      { path: '/api/system', method: 'GET', weight: 3, description: 'System information' },
-      { path: '/api/appointments', method: 'GET', weight: 6, description: 'Appointments API (Protected)' },
-      { path: '/api/contact', method: 'GET', weight: 4, description: 'Contact form API (Protected)' },
+  /**
+   * An empty aggregator whose sampled metrics are reproducible from the seed
+   */
+  private newAggregator(): ResultAggregator {
+    return new ResultAggregator({ ...this.aggregatorOptions, random: this.randomStream('samples') });
+  }
 
-      // Health Check Endpoints
-      { path: '/health', method: 'GET', weight: 10, description: 'Health check endpoint' }
-    ];
+  /**
+   * Start recording the run's requests, if asked to
+   */
+  private startPlan(info: Omit<PlanInfo, 'seed' | 'baseUrl' | 'auth' | 'data'>, startTime?: number): void {
+    this.runInfo = info;
+    if (!this.recordPlan) return;
+    this.planRecorder = new RequestPlanRecorder({
+      ...info,
+      seed: this.seed,
+      baseUrl: this.baseUrl,
+      ...(this.scenario?.auth && { auth: this.scenario.auth }),
+      ...(this.scenario?.data && { data: this.scenario.data })
+    }, startTime);
   }
 
   /**
-   * Get all endpoints including protected ones (for comprehensive testing)
+   * Requests sent by the last run, when recordPlan is on
    */
-  private getAllEndpoints() {
-    return [
-      // Core Pages
-      { path: '/', method: 'GET', weight: 15, description: 'Home page (Static)' },
+  get requestPlan(): RequestPlan | undefined {
+    return this.planRecorder?.plan;
+  }
 
-      // Public APIs (200 Success Expected)
-      { path: '/api/analytics', method: 'GET', weight: 10, description: 'Analytics data' },
-      { path: '/api/blogs', method: 'GET', weight: 7, description: 'Blog content API' },
-      { path: '/api/projects', method: 'GET', weight: 6, description: 'Projects portfolio API' },
-      { path: '/api/settings', method: 'GET', weight: 4, description: 'Settings API' },
-      { path: '/api/roadmap', method: 'GET', weight: 2, description: 'Product roadmap API' },
+  /**
+   * Start a fresh run. A distributed coordinator only merges its workers'
+   * results, so the resource use worth reporting is theirs, not its own.
+   */
+  private resetResults(sendsRequests = true): void {
+    this.results = this.newAggregator();
+    this.resourceMonitor?.stop();
+    this.resourceMonitor = sendsRequests ? new ResourceMonitor() : undefined;
+  }
 
-      // Protected APIs (401 Expected - Security Working)
-      { path: '/api/dashboard', method: 'GET', weight: 8, description: 'Dashboard data (Protected)' },
-      { path: '/api/appointments', method: 'GET', weight: 6, description: 'Appointments API (Protected)' },
-      { path: '/api/contact', method: 'GET', weight: 4, description: 'Contact form API (Protected)' },
+  /**
+   * Record a result and feed it to the live dashboard, if one is running
+   */
+  private record(result: PerformanceMetric): void {
+    this.results.record(result);
+    this.dashboard?.observe(result);
+  }
 
-      // POST-Only APIs (405 Expected - Correct Method Restriction)
-      { path: '/api/ai-assistant', method: 'GET', weight: 2, description: 'AI Assistant API (POST Only)' },
+  /**
+   * Show the live dashboard until stopDashboard(). Call after resetResults().
+   */
+  private startDashboard(
+    title: string,
+    options: { durationSeconds?: number; footer?: string; plainLines?: boolean; exitOnInterrupt?: boolean } = {}
+  ): LiveDashboard {
+    this.dashboard = new LiveDashboard(this.results, {
+      title,
+      target: this.baseUrl,
+      ...(this.label && { label: this.label }),
+      ...options,
+      ...(this.plainOutput && { interactive: false })
+    });
+    this.dashboard.start();
+    return this.dashboard;
+  }
 
-      // Missing/Future Features (404 Expected - Not Implemented Yet)
-      { path: '/api/system', method: 'GET', weight: 3, description: 'System information (Not Implemented)' },
-      { path: '/api/notifications', method: 'GET', weight: 3, description: 'Notifications API (Not Implemented)' },
-      { path: '/api/auth', method: 'GET', weight: 2, description: 'Authentication API (Not Implemented)' },
-      { path: '/api/payment', method: 'GET', weight: 2, description: 'Payment API (Not Implemented)' },
-      { path: '/api/search', method: 'GET', weight: 1, description: 'Search API (Not Implemented)' },
+  private stopDashboard(): void {
+    this.dashboard?.stop();
+    this.dashboard = undefined;
+  }
 
-      // Missing Static Assets (404 Expected - Files Don't Exist)
-      { path: '/assets/css/styles.css', method: 'GET', weight: 2, description: 'Stylesheet (Missing File)' },
-      { path: '/assets/js/app.js', method: 'GET', weight: 2, description: 'JavaScript bundle (Missing File)' },
-      { path: '/favicon.ico', method: 'GET', weight: 1, description: 'Site favicon (Missing File)' }
-    ];
+  /**
+   * Endpoints to test: the configured scenario, or the named built-in one
+   */
+  private getEndpoints(builtIn = 'default'): EndpointDefinition[] {
+    return scenarioEndpoints(this.scenario ?? BUILT_IN_SCENARIOS[builtIn], this.groups);
   }
 
   /**
-   * Test a single request
+   * Test a single request, retrying transient failures under the retry
+   * policy. Retried attempts are counted separately; only the final attempt
+   * is returned. Returns undefined when `signal` (the end of the run)
+   * cancelled the request.
    */
-  private async testSingleRequest(endpoint: string, method = 'GET'): Promise<PerformanceMetric> {
-    const startTime = performance.now();
+  private testSingleRequest(endpoint: EndpointDefinition, options?: Omit<RequestOptions, 'signal'>): Promise<PerformanceMetric>;
+  private testSingleRequest(endpoint: EndpointDefinition, options: RequestOptions): Promise<PerformanceMetric | undefined>;
+  private async testSingleRequest(endpoint: EndpointDefinition, options: RequestOptions = {}): Promise<PerformanceMetric | undefined> {
+    const { signal } = options;
+    const stage = this.activeStage;
+    // Open-model plans are recorded as scheduled, dropped arrivals included
+    const recorder = this.planRecorder?.info.model === 'closed' && !options.warmup ? this.planRecorder : undefined;
+    recorder?.request(endpoint, { user: options.userId });
 
     try {
-      const response = await fetch(`${this.baseUrl}${endpoint}`, {
-        method,
-        headers: {
-          'User-Agent': 'DenoGenesis-PerformanceTest/1.0',
-          'Accept': 'text/html,application/json,*/*',
-          'Cache-Control': 'no-cache'
+      for (let attempt = 1; ; attempt++) {
+        // Only the first attempt was scheduled; retries are timed from their own send
+        const scheduledAt = attempt === 1 ? options.scheduledAt : undefined;
+        const result = await this.attemptRequest(endpoint, stage, { ...options, scheduledAt });
+        // A stream held until the end of the run still counts; it connected
+        if (!result || (signal?.aborted && !isStreamEndpoint(endpoint))) {
+          this.results.cancelled++;
+          return undefined;
         }
-      });
 
+        if (attempt > this.retryPolicy.retries || !isRetryable(result)) {
+          return attempt > 1 ? { ...result, attempts: attempt } : result;
+        }
+
+        if (options.warmup) this.results.warmup.retryAttempts++;
+        else this.results.recordRetry(result);
+        await delay(retryDelay(this.retryPolicy, attempt, this.retryJitter), signal);
+      }
+    } finally {
+      recorder?.response(options.userId);
+    }
+  }
+
+  /**
+   * One attempt at a request, bounded by the endpoint's timeout
+   */
+  private async attemptRequest(
+    endpoint: EndpointDefinition,
+    stage: number | undefined,
+    { scheduledAt, signal, session, userId, random }: RequestOptions
+  ): Promise<PerformanceMetric | undefined> {
+    // Metrics are reported under the templated path; the rendered one is sent
+    const { path, method } = endpoint;
+    const lookup = this.templates.scope(session?.variables, userId, random);
+    const request = session ? session.resolve(endpoint, lookup) : renderEndpoint(endpoint, lookup);
+    const headers: Record<string, string> = {
+      'User-Agent': 'DenoGenesis-PerformanceTest/1.0',
+      'Accept': 'text/html,application/json,*/*',
+      'Cache-Control': 'no-cache',
+      ...request.headers
+    };
+
+    if (isStreamEndpoint(endpoint)) {
+      return this.attemptStream(endpoint, request, headers, stage, { scheduledAt, signal });
+    }
+
+    const { body, contentType } = await encodeBody(request.body, request.bodyType);
+    if (contentType && !Object.keys(headers).some(name => name.toLowerCase() === 'content-type')) {
+      headers['Content-Type'] = contentType;
+    }
+
+    const timeoutMs = endpoint.timeoutMs ?? this.timeoutMs;
+    const timeout = AbortSignal.timeout(timeoutMs);
+    const requestSignal = signal ? AbortSignal.any([signal, timeout]) : timeout;
+
+    // Open-model runs measure from the intended send time (coordinated omission)
+    const sentAt = performance.now();
+    const startTime = scheduledAt ?? sentAt;
+
+    try {
+      let statusCode: number;
+      let responseHeaders: Headers;
+      let content: string;
+      let phases: Partial<RequestPhases>;
+      const url = `${this.baseUrl}${request.path}`;
+
+      if (this.httpClient) {
+        const response = await this.httpClient.request(url, { method, headers, body, signal: requestSignal });
+        statusCode = response.status;
+        responseHeaders = response.headers;
+        content = response.body;
+        phases = response.phases;
+      } else {
+        const response = await fetch(url, { method, headers, body, signal: requestSignal });
+        const headersAt = performance.now();
+        // Read response to ensure complete request
+        try {
+          content = await response.text();
+        } catch (error) {
+          if (requestSignal.aborted) throw requestSignal.reason;
+          throw new RequestError('body_read', `Reading response body failed: ${(error as Error).message}`, { cause: error });
+        }
+        statusCode = response.status;
+        responseHeaders = response.headers;
+        phases = { ttfbTime: headersAt - sentAt, downloadTime: performance.now() - headersAt };
+      }
+
+      // Response time covers the whole exchange, body included
       const endTime = performance.now();
       const responseTime = endTime - startTime;
-
-      // Read response to ensure complete request
-      const content = await response.text();
       const contentLength = content.length;
+      let expectation = checkExpectation(endpoint, statusCode, content);
+
+      // Later steps depend on what this one extracts, so a failed extraction fails the request
+      const extractionFailure = session?.observe(endpoint, responseHeaders, content);
+      if (expectation.met && extractionFailure) {
+        expectation = { met: false, reason: extractionFailure };
+      }
 
       return {
-        endpoint,
+        endpoint: path,
         method,
         responseTime,
-        statusCode: response.status,
+        statusCode,
         contentLength,
-        timestamp: Date.now()
+        timestamp: Date.now(),
+        expectationMet: expectation.met,
+        unexpectedReason: expectation.reason,
+        ...(expectation.actual !== undefined && { unexpectedValue: expectation.actual }),
+        ...(scheduledAt !== undefined && { serviceTime: endTime - sentAt }),
+        ...(stage !== undefined && { stage }),
+        ...phases
       };
     } catch (error) {
+      if (signal?.aborted) return undefined;
+
       const endTime = performance.now();
+      const { errorClass, message } = timeout.aborted
+        ? { errorClass: 'timeout' as const, message: `No response within ${timeoutMs}ms` }
+        : classifyError(error);
       return {
-        endpoint,
+        endpoint: path,
         method,
         responseTime: endTime - startTime,
-        statusCode: 0, // Connection error
+        statusCode: 0, // No response; errorClass says why
         contentLength: 0,
-        timestamp: Date.now()
+        timestamp: Date.now(),
+        expectationMet: false,
+        unexpectedReason: ERROR_CLASS_LABELS[errorClass],
+        errorClass,
+        errorMessage: message,
+        ...(scheduledAt !== undefined && { serviceTime: endTime - sentAt }),
+        ...(stage !== undefined && { stage })
       };
     }
   }
 
   /**
-   * Weighted random endpoint selection
+   * One WebSocket or SSE connection, held for the endpoint's hold time. The
+   * connect time is its response time; connection counts and message
+   * latency go to the stream statistics.
    */
-  private selectRandomEndpoint() {
-    const endpoints = this.getTestEndpoints();
-    const totalWeight = endpoints.reduce((sum, ep) => sum + ep.weight, 0);
-    let random = Math.random() * totalWeight;
+  private async attemptStream(
+    endpoint: EndpointDefinition,
+    request: EndpointDefinition,
+    headers: Record<string, string>,
+    stage: number | undefined,
+    { scheduledAt, signal }: Pick<RequestOptions, 'scheduledAt' | 'signal'>
+  ): Promise<PerformanceMetric | undefined> {
+    const { path, method } = endpoint;
+    const type = endpoint.type as 'websocket' | 'sse';
+    const config = endpoint.stream!;
+    const timeoutMs = endpoint.timeoutMs ?? this.timeoutMs;
+    const observer = this.results.streamObserver(path, type);
+    const stream = {
+      url: `${this.baseUrl}${request.path}`,
+      headers,
+      ...(request.body !== undefined && { message: typeof request.body === 'string' ? request.body : JSON.stringify(request.body) }),
+      config,
+      connectTimeoutMs: timeoutMs,
+      signal
+    };
+
+    const sentAt = performance.now();
+    const queued = sentAt - (scheduledAt ?? sentAt);
 
-    for (const endpoint of endpoints) {
-      random -= endpoint.weight;
-      if (random <= 0) {
-        return endpoint;
+    try {
+      const outcome = type === 'websocket' ? await runWebSocket(stream, observer) : await runEventStream(stream, observer);
+
+      // A WebSocket that opened has passed its handshake; an SSE response still needs the expected status
+      let expectation: ExpectationResult = type === 'sse' ? checkExpectation(endpoint, outcome.statusCode, '') : { met: true };
+      if (expectation.met && !outcome.connected) {
+        expectation = { met: false, reason: outcome.reason ?? 'not an event stream' };
+      } else if (expectation.met && outcome.ended === 'disconnected') {
+        expectation = { met: false, reason: `disconnected: ${outcome.reason}` };
+      } else if (expectation.met && outcome.ended === 'held' && outcome.messagesReceived < (config.minMessages ?? 0)) {
+        expectation = { met: false, reason: `${outcome.messagesReceived} message(s), expected at least ${config.minMessages}` };
       }
+
+      return {
+        endpoint: path,
+        method,
+        responseTime: queued + outcome.connectTime,
+        statusCode: outcome.statusCode,
+        contentLength: outcome.bytesReceived,
+        timestamp: Date.now(),
+        expectationMet: expectation.met,
+        unexpectedReason: expectation.reason,
+        ...(scheduledAt !== undefined && { serviceTime: outcome.connectTime }),
+        ...(stage !== undefined && { stage })
+      };
+    } catch (error) {
+      if (signal?.aborted) return undefined;
+
+      const { errorClass, message } = classifyError(error);
+      return {
+        endpoint: path,
+        method,
+        responseTime: performance.now() - (scheduledAt ?? sentAt),
+        statusCode: 0,
+        contentLength: 0,
+        timestamp: Date.now(),
+        expectationMet: false,
+        unexpectedReason: ERROR_CLASS_LABELS[errorClass],
+        errorClass,
+        errorMessage: message,
+        ...(scheduledAt !== undefined && { serviceTime: performance.now() - sentAt }),
+        ...(stage !== undefined && { stage })
+      };
     }
+  }
 
-    return endpoints[0]; // Fallback
+  /**
+   * Weighted random endpoint selection
+   */
+  private selectRandomEndpoint(endpoints = this.getEndpoints(), random = this.random): EndpointDefinition {
+    return pickWeighted(endpoints, random);
   }
 
   /**
@@ -175,38 +564,22 @@ class SimplePerformanceTest {
     console.log('─'.repeat(60));
 
     // Use only endpoints that return 200 status for Cambridge validation
-    const cambridgeEndpoints = [
-      { path: '/', method: 'GET', weight: 20, description: 'Home page' },
-      { path: '/api/analytics', method: 'GET', weight: 15, description: 'Analytics API' },
-      { path: '/api/blogs', method: 'GET', weight: 15, description: 'Blog API' },
-      { path: '/api/projects', method: 'GET', weight: 15, description: 'Projects API' },
-      { path: '/api/roadmap', method: 'GET', weight: 10, description: 'Roadmap API' },
-      { path: '/health', method: 'GET', weight: 10, description: 'Health check endpoint' },
-    ];
+    const cambridgeEndpoints = this.getEndpoints('cambridge');
 
-    this.results = [];
+    this.resetResults();
+    await this.runWarmup(cambridgeEndpoints);
+    this.startPlan({ mode: 'cambridge', model: 'closed' });
     const progressInterval = Math.max(1, Math.floor(requests / 10));
 
     for (let i = 0; i < requests; i++) {
       // Select endpoint for Cambridge validation
-      const totalWeight = cambridgeEndpoints.reduce((sum, ep) => sum + ep.weight, 0);
-      let random = Math.random() * totalWeight;
-      let selectedEndpoint = cambridgeEndpoints[0];
-
-      for (const endpoint of cambridgeEndpoints) {
-        random -= endpoint.weight;
-        if (random <= 0) {
-          selectedEndpoint = endpoint;
-          break;
-        }
-      }
-
-      const result = await this.testSingleRequest(selectedEndpoint.path, selectedEndpoint.method);
-      this.results.push(result);
+      const selectedEndpoint = this.selectRandomEndpoint(cambridgeEndpoints);
+      const result = await this.testSingleRequest(selectedEndpoint);
+      this.results.record(result);
 
       if ((i + 1) % progressInterval === 0) {
         const progress = ((i + 1) / requests) * 100;
-        const avgTime = this.results.reduce((sum, r) => sum + r.responseTime, 0) / this.results.length;
+        const avgTime = this.results.all.mean;
         process.stdout.write(`\r⚡ Progress: ${progress.toFixed(0)}% (${i + 1}/${requests}) - Avg: ${avgTime.toFixed(1)}ms`);
       }
 
@@ -224,17 +597,19 @@ class SimplePerformanceTest {
     console.log(`🔢 Requests: ${requests}`);
     console.log('─'.repeat(60));
 
-    this.results = [];
+    this.resetResults();
+    await this.runWarmup(this.getEndpoints());
+    this.startPlan({ mode: 'quick', model: 'closed' });
     const progressInterval = Math.max(1, Math.floor(requests / 10));
 
     for (let i = 0; i < requests; i++) {
       const endpoint = this.selectRandomEndpoint();
-      const result = await this.testSingleRequest(endpoint.path, endpoint.method);
-      this.results.push(result);
+      const result = await this.testSingleRequest(endpoint);
+      this.results.record(result);
 
       if ((i + 1) % progressInterval === 0) {
         const progress = ((i + 1) / requests) * 100;
-        const avgTime = this.results.reduce((sum, r) => sum + r.responseTime, 0) / this.results.length;
+        const avgTime = this.results.all.mean;
         process.stdout.write(`\r⚡ Progress: ${progress.toFixed(0)}% (${i + 1}/${requests}) - Avg: ${avgTime.toFixed(1)}ms`);
       }
 
@@ -246,6 +621,30 @@ class SimplePerformanceTest {
     return this.generateReport();
   }
 
+  /**
+   * Send the warm-up requests, if any, before a sequential run. They prime
+   * connections, the JIT and server caches, and only count as each
+   * endpoint's cold start. Call after resetResults().
+   */
+  private async runWarmup(endpoints: EndpointDefinition[]): Promise<void> {
+    if (!this.warmup) return;
+    const { requests, durationSeconds } = this.warmup;
+    console.log(`🔥 Warm-up: ${requests !== undefined ? `${requests} requests` : `${durationSeconds}s`} (left out of the results)`);
+
+    // Its own stream, so the measured requests pick the same endpoints with or without it
+    const random = this.randomStream('warmup');
+    const start = performance.now();
+    const deadline = durationSeconds !== undefined ? start + durationSeconds * 1000 : Infinity;
+    while ((requests === undefined || this.results.warmup.requests < requests) && performance.now() < deadline) {
+      this.results.recordWarmup(await this.testSingleRequest(this.selectRandomEndpoint(endpoints, random), { warmup: true }));
+      await delay(10);
+    }
+
+    const { warmup } = this.results;
+    warmup.durationMs = performance.now() - start;
+    console.log(`🔥 Warm-up done: ${warmup.requests} requests in ${(warmup.durationMs / 1000).toFixed(1)}s, avg ${warmup.histogram.mean.toFixed(1)}ms`);
+  }
+
   /**
    * Load test with concurrent users
    */
@@ -256,195 +655,842 @@ class SimplePerformanceTest {
     console.log(`⏱️  Duration: ${durationSeconds} seconds`);
     console.log('─'.repeat(60));
 
-    this.results = [];
+    await this.runVirtualUsers('🏋️ DenoGenesis Load Test', concurrentUsers, durationSeconds);
+
+    console.log(`\n✅ Load test completed! ${this.results.totalRequests} requests processed`);
+    return this.generateReport();
+  }
+
+  /**
+   * A fixed number of virtual users for the whole run
+   */
+  private async runVirtualUsers(title: string, concurrentUsers: number, durationSeconds: number): Promise<void> {
+    this.resetResults();
+    this.startPlan({ mode: 'load', model: 'closed', durationSeconds, ...(this.usesSessions && { sessions: true }) });
+    const runSignal = AbortSignal.timeout(durationSeconds * 1000); // Cancels in-flight requests at the end
+
+    const dashboard = this.startDashboard(title, { durationSeconds });
+    dashboard.update({ activeUsers: concurrentUsers });
+
+    try {
+      // Create concurrent user simulations
+      const userPromises: Promise<void>[] = [];
+
+      for (let user = 0; user < concurrentUsers; user++) {
+        userPromises.push(this.simulateUser(user, runSignal));
+      }
+
+      // Wait for all users to complete
+      await Promise.all(userPromises);
+    } finally {
+      this.stopDashboard();
+    }
+  }
+
+  /**
+   * Simulate individual user behavior: log in if the scenario has auth, then
+   * run journeys (or single random endpoints) with think time in between
+   */
+  private async simulateUser(userId: number, signal: AbortSignal, isActive: () => boolean = () => true): Promise<void> {
+    const journeys = Object.entries(this.scenario?.journeys ?? {}).map(([name, journey]) => ({ name, ...journey }));
+    const session = this.usesSessions ? new VirtualUserSession(this.scenario?.auth) : undefined;
+    // Choices and think times on one stream, template values on another, so a
+    // replayed plan (which makes no choices) renders the same values
+    const random = this.randomStream(`user-${userId}`);
+    const options = { signal, session, userId, random: this.randomStream(`user-${userId}-data`) };
+
+    while (!signal.aborted && isActive()) {
+      // Request failures come back as classified metrics, never as exceptions;
+      // undefined means the run ended mid-request
+      let completed: boolean | undefined;
+      if (session?.needsLogin) {
+        completed = await this.logIn(session, options);
+      } else if (journeys.length > 0) {
+        completed = await this.runJourney(pickWeighted(journeys, random), session!, options);
+      } else {
+        const result = await this.testSingleRequest(this.selectRandomEndpoint(undefined, random), options);
+        if (result) this.record(result);
+        completed = result !== undefined;
+      }
+      if (completed === undefined) break;
+
+      // Realistic user delay (0.5-2 seconds between requests)
+      await delay(500 + random() * 1500, signal);
+    }
+  }
+
+  /**
+   * Virtual users carry sessions when the scenario logs in or has journeys
+   */
+  private get usesSessions(): boolean {
+    return this.scenario?.auth !== undefined || Object.keys(this.scenario?.journeys ?? {}).length > 0;
+  }
+
+  /**
+   * Run the scenario's login request for a virtual user. A failed login is
+   * retried on the user's next iteration.
+   */
+  private async logIn(session: VirtualUserSession, options: RequestOptions): Promise<boolean | undefined> {
+    const result = await this.testSingleRequest(session.auth!.login, { ...options, session });
+    if (!result) return undefined;
+
+    this.record(result);
+    session.loggedIn = result.expectationMet;
+    return session.loggedIn;
+  }
+
+  /**
+   * Walk a journey's steps in order. A failed step ends the journey, since
+   * later steps usually depend on what it returned.
+   */
+  private async runJourney(
+    journey: Journey & { name: string },
+    session: VirtualUserSession,
+    options: RequestOptions
+  ): Promise<boolean | undefined> {
+    const startTime = performance.now();
+
+    for (const [i, step] of journey.steps.entries()) {
+      const result = await this.testSingleRequest(step, { ...options, session });
+      if (!result) return undefined; // Partial journeys cut off by the end of the run are not counted
+
+      const journeyStep = `${i + 1}. ${step.description}`;
+      this.record({ ...result, journey: journey.name, journeyStep });
+      if (!result.expectationMet) {
+        this.results.recordJourney(journey.name, undefined, journeyStep);
+        return false;
+      }
+    }
+
+    this.results.recordJourney(journey.name, performance.now() - startTime);
+    return true;
+  }
+
+  /**
+   * Staged closed-model load test: users ramp between stage targets
+   */
+  async runStagedLoadTest(stages: LoadStage[], limits = this.stageLimits()): Promise<PerformanceReport> {
+    const durationSeconds = totalStageDuration(stages);
+    console.log('\n📈 DenoGenesis Staged Load Test');
+    console.log(`📊 Target: ${this.baseUrl}`);
+    console.log(`👥 Stages: ${stages.map(s => `${s.durationSeconds}s→${s.target}`).join(', ')} users`);
+    console.log(`⏱️  Duration: ${durationSeconds} seconds`);
+    console.log('─'.repeat(60));
+
+    await this.runUserStages('📈 DenoGenesis Staged Load Test', stages);
+
+    console.log(`\n✅ Staged load test completed! ${this.results.totalRequests} requests processed`);
+    const report = this.generateReport();
+    report.stages = this.stageReport('users', stages, limits);
+    return report;
+  }
+
+  /**
+   * Virtual users ramping between stage targets
+   */
+  private async runUserStages(title: string, stages: LoadStage[]): Promise<void> {
+    const durationSeconds = totalStageDuration(stages);
+    this.resetResults();
+    this.startPlan({ mode: 'staged load', model: 'closed', durationSeconds, ...(this.usesSessions && { sessions: true }) });
     const startTime = Date.now();
     const endTime = startTime + (durationSeconds * 1000);
+    const runSignal = AbortSignal.timeout(durationSeconds * 1000);
+    const dashboard = this.startDashboard(title, { durationSeconds });
+
+    // Users above the current target finish their iteration and leave
+    const running = new Map<number, Promise<void>>();
+    let targetUsers = 0;
 
-    // Create concurrent user simulations
-    const userPromises: Promise<void>[] = [];
+    try {
+      while (Date.now() < endTime) {
+        const { index, target } = stageAt(stages, (Date.now() - startTime) / 1000);
+        const startTarget = index === 0 ? 0 : stages[index - 1].target;
+        if (this.activeStage !== index + 1) {
+          this.activeStage = index + 1;
+          if (!dashboard.interactive) {
+            console.log(`📈 Stage ${index + 1}/${stages.length}: ${startTarget} → ${stages[index].target} users over ${stages[index].durationSeconds}s`);
+          }
+        }
+
+        targetUsers = Math.round(target);
+        for (let user = 0; user < targetUsers; user++) {
+          if (!running.has(user)) {
+            const simulation = this.simulateUser(user, runSignal, () => user < targetUsers);
+            running.set(user, simulation.finally(() => running.delete(user)));
+          }
+        }
+        dashboard.update({ activeUsers: running.size, stage: `${index + 1}/${stages.length} (${startTarget}→${stages[index].target} users)` });
 
-    for (let user = 0; user < concurrentUsers; user++) {
-      userPromises.push(this.simulateUser(endTime, user));
+        await new Promise(resolve => setTimeout(resolve, 100));
+      }
+
+      await Promise.all(running.values());
+    } finally {
+      this.stopDashboard();
+      this.activeStage = undefined;
     }
+  }
 
-    // Wait for all users to complete
-    await Promise.all(userPromises);
+  /**
+   * Open-model load test: requests arrive at a fixed rate no matter how slowly
+   * the server answers, so a slow server cannot throttle its own load
+   */
+  async runConstantArrivalRate(targetRps = 10, durationSeconds = 60, maxInFlight = 100): Promise<PerformanceReport> {
+    console.log('\n🚦 DenoGenesis Constant Arrival Rate Test');
+    console.log(`📊 Target: ${this.baseUrl}`);
+    console.log(`🎯 Rate: ${targetRps} requests/second`);
+    console.log(`⏱️  Duration: ${durationSeconds} seconds`);
+    console.log(`🔀 Max In-Flight: ${maxInFlight}`);
+    console.log('─'.repeat(60));
 
-    console.log(`\n✅ Load test completed! ${this.results.length} requests processed`);
-    return this.generateReport();
+    const counts = await this.runArrivalSchedule(
+      '🚦 DenoGenesis Constant Arrival Rate Test',
+      'rate',
+      this.arrivals(() => targetRps, durationSeconds),
+      durationSeconds,
+      maxInFlight
+    );
+
+    console.log(`\n✅ Arrival rate test completed! ${this.results.totalRequests} requests processed`);
+    const report = this.generateReport();
+    report.arrivalRate = {
+      targetRps,
+      achievedRps: counts.sent / durationSeconds,
+      ...counts,
+      maxInFlight
+    };
+    return report;
   }
 
   /**
-   * Simulate individual user behavior
+   * Staged open-model load test: the arrival rate ramps between stage targets
    */
-  private async simulateUser(endTime: number, userId: number): Promise<void> {
-    let requestCount = 0;
+  async runStagedArrivalRate(stages: LoadStage[], maxInFlight = 100, limits = this.stageLimits()): Promise<PerformanceReport> {
+    const durationSeconds = totalStageDuration(stages);
+    console.log('\n📈 DenoGenesis Staged Arrival Rate Test');
+    console.log(`📊 Target: ${this.baseUrl}`);
+    console.log(`🎯 Stages: ${stages.map(s => `${s.durationSeconds}s→${s.target}`).join(', ')} requests/second`);
+    console.log(`⏱️  Duration: ${durationSeconds} seconds`);
+    console.log(`🔀 Max In-Flight: ${maxInFlight}`);
+    console.log('─'.repeat(60));
 
-    while (Date.now() < endTime) {
-      const endpoint = this.selectRandomEndpoint();
+    const counts = await this.runArrivalSchedule(
+      '📈 DenoGenesis Staged Arrival Rate Test',
+      'staged rate',
+      this.arrivals(elapsed => stageAt(stages, elapsed).target, durationSeconds, elapsed => stageAt(stages, elapsed).index + 1),
+      durationSeconds,
+      maxInFlight
+    );
+
+    console.log(`\n✅ Staged arrival rate test completed! ${this.results.totalRequests} requests processed`);
+    const report = this.generateReport();
+    report.arrivalRate = {
+      // Average target over the whole profile
+      targetRps: counts.scheduled / durationSeconds,
+      achievedRps: counts.sent / durationSeconds,
+      ...counts,
+      maxInFlight
+    };
+    report.stages = this.stageReport('rps', stages, limits);
+    return report;
+  }
 
-      try {
-        const result = await this.testSingleRequest(endpoint.path, endpoint.method);
-        this.results.push(result);
-        requestCount++;
-
-        // Show progress for first user
-        if (userId === 0 && requestCount % 5 === 0) {
-          const elapsed = (Date.now() - (endTime - 60000)) / 1000;
-          const progress = Math.min(100, (elapsed / 60) * 100);
-          const avgTime = this.results.length > 0
-            ? this.results.reduce((sum, r) => sum + r.responseTime, 0) / this.results.length
-            : 0;
-          process.stdout.write(`\r⚡ Progress: ${progress.toFixed(1)}% (${this.results.length} requests) - Avg: ${avgTime.toFixed(1)}ms`);
+  /**
+   * Arrivals at `rateAt`, each with a weighted random endpoint. Endpoints are
+   * picked in schedule order, so a seed fixes the mix however requests queue.
+   */
+  private *arrivals(
+    rateAt: (elapsedSeconds: number) => number,
+    durationSeconds: number,
+    stageOf?: (elapsedSeconds: number) => number
+  ): Generator<ScheduledArrival> {
+    for (const offset of arrivalTimes(rateAt, durationSeconds)) {
+      yield { offset, endpoint: this.selectRandomEndpoint(), ...(stageOf && { stage: stageOf(offset / 1000) }) };
+    }
+  }
+
+  /**
+   * Send requests at their scheduled arrival times. Latency counts from the
+   * intended send time, so queueing behind a slow server is not hidden.
+   */
+  private async runArrivalSchedule(
+    title: string,
+    mode: string,
+    schedule: Iterable<ScheduledArrival>,
+    durationSeconds: number,
+    maxInFlight: number
+  ): Promise<ArrivalCounts> {
+    this.resetResults();
+    const startTime = performance.now();
+    this.startPlan({ mode, model: 'open', durationSeconds, maxInFlight }, startTime);
+    const endTime = startTime + (durationSeconds * 1000);
+    const runSignal = AbortSignal.timeout(durationSeconds * 1000); // Cancels in-flight requests at the end
+    const dashboard = this.startDashboard(title, { durationSeconds });
+
+    const inFlight = new Set<Promise<void>>();
+    const queue: (ScheduledArrival & { intendedAt: number })[] = []; // Waiting for a free slot
+    let scheduled = 0;
+    let sent = 0;
+    let queued = 0;
+    let dropped = 0;
+
+    const send = ({ endpoint, stage, intendedAt }: ScheduledArrival & { intendedAt: number }) => {
+      sent++;
+      this.activeStage = stage;
+      const request = this.testSingleRequest(endpoint, { scheduledAt: intendedAt, signal: runSignal }).then(result => {
+        if (result) this.record(result);
+        inFlight.delete(request);
+
+        // Hand the freed slot to the oldest queued request
+        if (queue.length > 0 && performance.now() < endTime) {
+          send(queue.shift()!);
         }
+      });
+      inFlight.add(request);
+    };
 
-        // Realistic user delay (0.5-2 seconds between requests)
-        const delay = 500 + Math.random() * 1500;
-        await new Promise(resolve => setTimeout(resolve, delay));
+    try {
+      for (const arrival of schedule) {
+        const intendedAt = startTime + arrival.offset;
+        if (intendedAt >= endTime) break;
+        const wait = intendedAt - performance.now();
+        if (wait > 0) {
+          await new Promise(resolve => setTimeout(resolve, wait));
+        }
+
+        scheduled++;
+        const { stage } = arrival;
+        this.planRecorder?.request(arrival.endpoint, { at: intendedAt });
+        if (inFlight.size < maxInFlight) {
+          send({ ...arrival, intendedAt });
+        } else if (queue.length < maxInFlight) {
+          queue.push({ ...arrival, intendedAt });
+          queued++;
+        } else {
+          dropped++;
+        }
+        dashboard.update({ inFlight: inFlight.size, queued: queue.length, dropped, ...(stage !== undefined && { stage: String(stage) }) });
+      }
 
-      } catch (error) {
-        console.error(`\nUser ${userId} error:`, error.message);
+      // Wait out the rest of the window, then drop what is still queued;
+      // anything still in flight is cancelled and left out of the results
+      const remaining = endTime - performance.now();
+      if (remaining > 0) {
+        await new Promise(resolve => setTimeout(resolve, remaining));
       }
+      dropped += queue.length;
+      queue.length = 0;
+      await Promise.all(inFlight);
+    } finally {
+      this.stopDashboard();
+      this.activeStage = undefined;
     }
+
+    return { scheduled, sent, queued, dropped };
+  }
+
+  /**
+   * Send a recorded request plan again, typically against another build.
+   * Closed-model plans keep each user's order and think times; open-model
+   * plans keep the arrival times.
+   */
+  async replayRequestPlan(plan: RequestPlan): Promise<PerformanceReport> {
+    const users = Map.groupBy(plan.requests, request => request.user);
+    console.log('\n🔁 DenoGenesis Request Plan Replay');
+    console.log(`📊 Target: ${this.baseUrl}`);
+    console.log(`🗂️  Plan: ${plan.requests.length} ${plan.mode} requests recorded from ${plan.baseUrl} at ${plan.recordedAt}`);
+    if (plan.model === 'closed' && plan.requests.some(request => request.user !== undefined)) {
+      console.log(`👥 Users: ${users.size}`);
+    }
+    if (plan.durationSeconds !== undefined) {
+      console.log(`⏱️  Duration: ${plan.durationSeconds} seconds`);
+    }
+    console.log(`🎲 Seed: ${this.seed}`);
+    console.log('─'.repeat(60));
+
+    const title = '🔁 DenoGenesis Request Plan Replay';
+    if (plan.model === 'open') {
+      const durationSeconds = plan.durationSeconds!;
+      const maxInFlight = plan.maxInFlight ?? 100;
+      const schedule = plan.requests.map(request => ({ offset: request.at, endpoint: plan.endpoints[request.endpoint] }));
+      const counts = await this.runArrivalSchedule(title, 'replay', schedule, durationSeconds, maxInFlight);
+
+      console.log(`\n✅ Replay completed! ${this.results.totalRequests} requests processed`);
+      const report = this.generateReport();
+      report.arrivalRate = {
+        targetRps: counts.scheduled / durationSeconds,
+        achievedRps: counts.sent / durationSeconds,
+        ...counts,
+        maxInFlight
+      };
+      return report;
+    }
+
+    this.resetResults();
+    const { durationSeconds } = plan;
+    this.startPlan({ mode: 'replay', model: 'closed', ...(durationSeconds !== undefined && { durationSeconds }), ...(plan.sessions && { sessions: true }) });
+    // Without a recorded duration (quick/cambridge) nothing is cut off
+    const runSignal = durationSeconds !== undefined ? AbortSignal.timeout(durationSeconds * 1000) : undefined;
+    const dashboard = this.startDashboard(title, { ...(durationSeconds !== undefined && { durationSeconds }) });
+    dashboard.update({ activeUsers: users.size });
+
+    try {
+      await Promise.all([...users].map(([userId, requests]) => this.replayUser(plan, userId, requests, runSignal)));
+    } finally {
+      this.stopDashboard();
+    }
+
+    console.log(`\n✅ Replay completed! ${this.results.totalRequests} requests processed`);
+    return this.generateReport();
+  }
+
+  /**
+   * One user's share of a closed-model plan: each request waits the recorded
+   * time after the previous response
+   */
+  private async replayUser(plan: RequestPlan, userId: number | undefined, requests: PlannedRequest[], signal?: AbortSignal): Promise<void> {
+    const session = plan.sessions ? new VirtualUserSession(plan.auth) : undefined;
+    // Same data stream the recording user rendered its templates from
+    const random = userId !== undefined ? this.randomStream(`user-${userId}-data`) : undefined;
+
+    for (const planned of requests) {
+      await delay(planned.wait ?? 0, signal);
+      if (signal?.aborted) break;
+
+      const result = await this.testSingleRequest(plan.endpoints[planned.endpoint], { signal, session, userId, random });
+      if (!result) break;
+      this.record(result);
+      if (planned.login && session) session.loggedIn = result.expectationMet;
+    }
+  }
+
+  /**
+   * Split a load or rate run across worker processes that start together,
+   * and report on their merged results as if one process had sent it all
+   */
+  async runDistributed(workers: string[], run: DistributedRun, limits = this.stageLimits()): Promise<PerformanceReport> {
+    const title = run.mode === 'load' ? 'Load Test' : 'Arrival Rate Test';
+    const unit = run.mode === 'load' ? 'users' : 'rps';
+    console.log(`\n🛰️ DenoGenesis Distributed ${title}`);
+    console.log(`📊 Target: ${this.baseUrl}`);
+    console.log(`🖥️  Workers: ${workers.join(', ')}`);
+    if (run.stages) {
+      console.log(`📈 Stages: ${run.stages.map(s => `${s.durationSeconds}s→${s.target}`).join(', ')} ${run.mode === 'load' ? 'users' : 'requests/second'}`);
+    } else if (run.mode === 'load') {
+      console.log(`👥 Concurrent Users: ${run.users}`);
+    } else {
+      console.log(`🎯 Rate: ${run.rps} requests/second`);
+    }
+    console.log(`⏱️  Duration: ${run.durationSeconds} seconds`);
+    console.log('─'.repeat(60));
+
+    const jobs: WorkerJob[] = workers.map((_, i) => ({
+      ...shareOf(run, i, workers.length),
+      baseUrl: this.baseUrl,
+      options: { ...this.workerOptions, seed: `${this.seed}:worker-${i + 1}`, label: `worker ${i + 1}` }
+    }));
+    const outcomes = await runOnWorkers(workers, jobs);
+
+    this.runInfo = {
+      mode: `distributed ${run.mode}`,
+      model: run.mode === 'load' ? 'closed' : 'open',
+      durationSeconds: run.durationSeconds,
+      ...(run.maxInFlight !== undefined && { maxInFlight: run.maxInFlight }),
+      workers
+    };
+    this.resetResults(false);
+    for (const outcome of outcomes) {
+      this.results.merge(ResultAggregator.fromJSON(outcome.results, this.aggregatorOptions));
+    }
+    console.log(`\n✅ Distributed ${title.toLowerCase()} completed! ${this.results.totalRequests} requests processed by ${workers.length} workers`);
+
+    const report = this.generateReport();
+    report.workers = outcomes.map(({ address, results, clockOffsetMs, environment, loadGenerator }) => ({
+      address,
+      requests: results.recorded,
+      clockOffsetMs,
+      ...(environment && { environment }),
+      ...(loadGenerator && { loadGenerator })
+    }));
+    if (run.mode === 'rate') {
+      const counts = outcomes.reduce((total, { arrivals }) => ({
+        scheduled: total.scheduled + (arrivals?.scheduled ?? 0),
+        sent: total.sent + (arrivals?.sent ?? 0),
+        queued: total.queued + (arrivals?.queued ?? 0),
+        dropped: total.dropped + (arrivals?.dropped ?? 0)
+      }), { scheduled: 0, sent: 0, queued: 0, dropped: 0 });
+      report.arrivalRate = {
+        targetRps: run.stages ? counts.scheduled / run.durationSeconds : run.rps!,
+        achievedRps: counts.sent / run.durationSeconds,
+        ...counts,
+        maxInFlight: run.maxInFlight ?? 100
+      };
+    }
+    if (run.stages) {
+      report.stages = this.stageReport(unit, run.stages, limits);
+    }
+    return report;
+  }
+
+  /**
+   * A distributed worker's share of a run. Nothing is reported here: the
+   * coordinator merges every worker's results and reports on those.
+   */
+  async runWorkerJob(job: WorkerJob): Promise<WorkerResult> {
+    const title = `🛰️ DenoGenesis Worker (${job.options.label})`;
+    const { stages, durationSeconds } = job;
+
+    if (job.mode === 'load') {
+      if (stages) {
+        await this.runUserStages(title, stages);
+      } else {
+        await this.runVirtualUsers(title, job.users ?? 0, durationSeconds);
+      }
+      return { results: this.results.toJSON(), ...this.workerEnvironment() };
+    }
+
+    const schedule = stages
+      ? this.arrivals(elapsed => stageAt(stages, elapsed).target, durationSeconds, elapsed => stageAt(stages, elapsed).index + 1)
+      : this.arrivals(() => job.rps ?? 0, durationSeconds).map(arrival => ({ ...arrival, offset: arrival.offset + (job.phaseMs ?? 0) }));
+    const arrivals = await this.runArrivalSchedule(title, stages ? 'staged rate' : 'rate', schedule, durationSeconds, job.maxInFlight ?? 100);
+    return { results: this.results.toJSON(), arrivals, ...this.workerEnvironment() };
+  }
+
+  /**
+   * The worker's machine and what the job cost it, for the coordinator's report
+   */
+  private workerEnvironment(): Pick<WorkerResult, 'environment' | 'loadGenerator'> {
+    const loadGenerator = this.resourceMonitor?.stop();
+    return { environment: environmentFingerprint(), ...(loadGenerator && { loadGenerator }) };
+  }
+
+  /**
+   * Stage limits, tightened to any overall p95/error rate thresholds
+   */
+  private stageLimits(): StageLimits {
+    const limits = { ...DEFAULT_STAGE_LIMITS };
+    for (const threshold of this.thresholds) {
+      if (threshold.endpoint || (threshold.operator !== '<' && threshold.operator !== '<=')) continue;
+      if (threshold.metric === 'p95') limits.p95ResponseTime = threshold.value;
+      if (threshold.metric === 'errorRate') limits.errorRate = threshold.value;
+    }
+    return limits;
+  }
+
+  /**
+   * Per-stage summaries and the first stage that broke its limits
+   */
+  private stageReport(unit: 'users' | 'rps', stages: LoadStage[], limits: StageLimits): PerformanceReport['stages'] {
+    const summaries = summarizeStages(stages, this.results.stages, limits);
+    const firstBreaching = summaries.find(summary => summary.breaches.length > 0);
+    return { unit, summaries, firstBreachingStage: firstBreaching?.stage };
   }
 
   /**
-   * Real-time monitoring
+   * Real-time monitoring until `signal` aborts, or Ctrl+C without one.
+   * Returns the report of every check, or undefined if none finished.
    */
-  async startRealTimeMonitoring(intervalSeconds = 5): Promise<void> {
+  async startRealTimeMonitoring(intervalSeconds = 5, signal?: AbortSignal): Promise<PerformanceReport | undefined> {
     console.log('\n📊 DenoGenesis Real-time Performance Monitoring');
     console.log(`📊 Target: ${this.baseUrl}`);
     console.log(`⏱️  Interval: ${intervalSeconds} seconds`);
     console.log('Press Ctrl+C to stop monitoring');
     console.log('─'.repeat(60));
 
-    const monitoringResults: PerformanceMetric[] = [];
+    this.resetResults();
+    const recent = new RollingWindow(10);
+    const alerts = new AlertEvaluator(this.alertRules);
+    if (this.alertRules.length > 0) {
+      console.log(`🚨 Alert rules: ${this.alertRules.map(rule => rule.expression).join('; ')}`);
+    }
+
+    // Prometheus exposition for scrapers and/or a push gateway
+    const { port, hostname, pushUrl } = this.metricsExport ?? {};
+    const registry = port !== undefined || pushUrl ? new PrometheusRegistry() : undefined;
+    const metricsServer = registry && port !== undefined
+      ? serveMetrics(registry, {
+        port,
+        hostname,
+        onListen: addr => console.log(`📡 Metrics: http://${addr.hostname}:${addr.port}/metrics`)
+      })
+      : undefined;
+    if (pushUrl) {
+      console.log(`📤 Pushing metrics to: ${pushUrl}`);
+    }
+    let lastPushError: string | undefined;
+
+    // On a terminal the dashboard replaces the per-check lines
+    const dashboard = this.startDashboard('📊 DenoGenesis Real-time Performance Monitoring', {
+      footer: 'Press Ctrl+C to stop monitoring',
+      plainLines: false,
+      // Without a caller's signal, Ctrl+C stops monitoring and the report still prints
+      exitOnInterrupt: signal !== undefined
+    });
 
-    const monitoringLoop = async () => {
-      while (true) {
+    // Handle Ctrl+C gracefully
+    let stop = signal;
+    let onInterrupt: (() => void) | undefined;
+    if (!stop) {
+      const controller = new AbortController();
+      onInterrupt = () => controller.abort();
+      Deno.addSignalListener('SIGINT', onInterrupt);
+      stop = controller.signal;
+    }
+
+    try {
+      while (!stop.aborted) {
         const startTime = Date.now();
 
         // Test a random endpoint
         const endpoint = this.selectRandomEndpoint();
-        const result = await this.testSingleRequest(endpoint.path, endpoint.method);
-        monitoringResults.push(result);
+        const result = await this.testSingleRequest(endpoint, { signal: stop });
+        if (!result) break;
+        this.record(result);
+        registry?.observe(result);
+
+        // Report push failures once, not on every check
+        if (registry && pushUrl) {
+          const pushError = await pushMetrics(registry, pushUrl);
+          if (pushError && pushError !== lastPushError) console.warn(`⚠️  ${pushError}`);
+          lastPushError = pushError;
+        }
 
         // Calculate rolling averages (last 10 measurements)
-        const recent = monitoringResults.slice(-10);
-        const avgResponseTime = recent.reduce((sum, r) => sum + r.responseTime, 0) / recent.length;
-        const successRate = (recent.filter(r => r.statusCode >= 200 && r.statusCode < 400).length / recent.length) * 100;
+        recent.push(result);
+        const avgResponseTime = recent.averageResponseTime;
+        const successRate = recent.successRate;
 
         // Display current metrics
-        const timestamp = new Date().toLocaleTimeString();
-        const statusEmoji = result.statusCode >= 200 && result.statusCode < 400 ? '✅' : '❌';
-        console.log(`[${timestamp}] ${statusEmoji} ${endpoint.description} - ${result.responseTime.toFixed(1)}ms (avg: ${avgResponseTime.toFixed(1)}ms, success: ${successRate.toFixed(1)}%)`);
+        if (!dashboard.interactive) {
+          const timestamp = new Date().toLocaleTimeString();
+          const statusEmoji = result.expectationMet ? '✅' : '❌';
+          const unexpected = result.unexpectedReason ? ` [${result.unexpectedReason}${result.unexpectedValue ? `, got ${result.unexpectedValue}` : ''}]` : '';
+          console.log(`[${timestamp}] ${statusEmoji} ${endpoint.description} - ${result.responseTime.toFixed(1)}ms (avg: ${avgResponseTime.toFixed(1)}ms, success: ${successRate.toFixed(1)}%)${unexpected}`);
+        }
+
+        // Alerts only notify when they start firing or resolve
+        for (const event of alerts.observe(result)) {
+          if (!dashboard.interactive) console.log(event.message);
+          for (const failure of await dispatchAlert(this.alertChannels, event, this.baseUrl)) {
+            console.warn(`⚠️  ${failure}`);
+          }
+        }
+        dashboard.update({ alerts: alerts.firing });
 
         // Wait for next interval
         const elapsed = Date.now() - startTime;
-        const delay = Math.max(0, (intervalSeconds * 1000) - elapsed);
-        await new Promise(resolve => setTimeout(resolve, delay));
+        await delay(Math.max(0, (intervalSeconds * 1000) - elapsed), stop);
       }
-    };
-
-    // Handle Ctrl+C gracefully
-    Deno.addSignalListener("SIGINT", () => {
-      console.log('\n\n📊 Monitoring stopped. Generating final report...');
-      this.results = monitoringResults;
-      if (this.results.length > 0) {
-        const report = this.generateReport();
-        this.displayReport(report);
-      }
-      Deno.exit(0);
-    });
+    } finally {
+      if (onInterrupt) Deno.removeSignalListener('SIGINT', onInterrupt);
+      await metricsServer?.shutdown();
+      this.stopDashboard();
+    }
 
-    await monitoringLoop();
+    console.log('\n\n📊 Monitoring stopped. Generating final report...');
+    return this.results.totalRequests > 0 ? this.generateReport() : undefined;
   }
 
   /**
    * Generate comprehensive performance report
    */
   private generateReport(): PerformanceReport {
-    if (this.results.length === 0) {
-      throw new Error('No test results available');
+    if (this.results.totalRequests === 0) {
+      const cancelled = this.results.cancelled;
+      throw new Error(`No test results available${cancelled > 0 ? ` (${cancelled} request(s) still in flight were cancelled at the end of the run)` : ''}`);
     }
 
-    // Filter successful requests for response time analysis
-    const successfulRequests = this.results.filter(r => r.statusCode >= 200 && r.statusCode < 400);
-    const responseTimes = successfulRequests.map(r => r.responseTime).sort((a, b) => a - b);
+    // Response time analysis covers requests that met their expectations
+    const successful = this.results.successful;
+    if (successful.count === 0) {
+      const errors = [...this.results.errors].map(([errorClass, error]) => `${error.count} ${ERROR_CLASS_LABELS[errorClass]}`);
+      throw new Error(`No successful requests for analysis${errors.length > 0 ? ` (${errors.join(', ')})` : ''}`);
+    }
 
-    if (responseTimes.length === 0) {
-      throw new Error('No successful requests for analysis');
+    const totalRequests = this.results.totalRequests;
+
+    // Endpoint breakdown
+    const endpointBreakdown: PerformanceReport['endpointBreakdown'] = {};
+    for (const [endpoint, stats] of this.results.endpoints) {
+      endpointBreakdown[endpoint] = {
+        requests: stats.requests,
+        avgResponseTime: stats.histogram.mean,
+        p50ResponseTime: stats.histogram.percentile(50),
+        p95ResponseTime: stats.histogram.percentile(95),
+        p99ResponseTime: stats.histogram.percentile(99),
+        minResponseTime: stats.histogram.min,
+        maxResponseTime: stats.histogram.max,
+        stdDevResponseTime: stats.histogram.stdDev,
+        percentiles: percentileMap(stats.histogram, thresholdPercentiles(this.thresholds)),
+        successRate: (stats.successCount / stats.requests) * 100,
+        expectedResponses: stats.successCount,
+        unexpectedResponses: stats.requests - stats.successCount,
+        unexpectedReasons: stats.unexpectedReasons
+      };
     }
 
-    const totalRequests = this.results.length;
+    // Generate recommendations
+    const successRate = successful.count / totalRequests;
+    const recommendations = this.generateRecommendations(successful.mean, successful.percentile(95), successRate);
+
+    const report: PerformanceReport = {
+      summary: {
+        totalRequests,
+        averageResponseTime: successful.mean,
+        p50ResponseTime: successful.percentile(50),
+        p95ResponseTime: successful.percentile(95),
+        p99ResponseTime: successful.percentile(99),
+        minResponseTime: successful.min,
+        maxResponseTime: successful.max,
+        stdDevResponseTime: successful.stdDev,
+        percentiles: percentileMap(successful, thresholdPercentiles(this.thresholds)),
+        successRate: successRate * 100,
+        errorRate: ((totalRequests - successful.count) / totalRequests) * 100,
+        ...(this.results.cancelled > 0 && { cancelledRequests: this.results.cancelled })
+      },
+      endpointBreakdown,
+      timeSeriesData: this.results.sample(),
+      recommendations
+    };
 
-    // Calculate percentiles
-    const p50Index = Math.floor(responseTimes.length * 0.5);
-    const p95Index = Math.floor(responseTimes.length * 0.95);
-    const p99Index = Math.floor(responseTimes.length * 0.99);
+    if (this.results.journeys.size > 0) {
+      report.journeys = {};
+      for (const [name, journey] of this.results.journeys) {
+        const steps: JourneySummary['steps'] = {};
+        for (const [step, stats] of journey.steps) {
+          steps[step] = {
+            requests: stats.requests,
+            avgResponseTime: stats.histogram.mean,
+            p95ResponseTime: stats.histogram.percentile(95),
+            successRate: (stats.successCount / stats.requests) * 100
+          };
+        }
+        report.journeys[name] = {
+          runs: journey.runs,
+          completed: journey.completed,
+          completionRate: journey.runs > 0 ? (journey.completed / journey.runs) * 100 : 0,
+          avgDuration: journey.histogram.mean,
+          p50Duration: journey.histogram.percentile(50),
+          p95Duration: journey.histogram.percentile(95),
+          p99Duration: journey.histogram.percentile(99),
+          failedAt: journey.failedAt,
+          steps
+        };
+      }
+    }
 
-    // Endpoint breakdown
-    const endpointStats: Record<string, any> = {};
-
-    for (const result of this.results) {
-      if (!endpointStats[result.endpoint]) {
-        endpointStats[result.endpoint] = {
-          requests: 0,
-          responseTimes: [],
-          successCount: 0
+    if (this.results.streams.size > 0) {
+      report.streams = {};
+      for (const [endpoint, stream] of this.results.streams) {
+        report.streams[endpoint] = {
+          type: stream.type,
+          connections: stream.connections,
+          connected: stream.connected,
+          peakOpen: stream.peakOpen,
+          disconnects: stream.disconnects,
+          messagesSent: stream.messagesSent,
+          messagesReceived: stream.messagesReceived,
+          connectTime: summarize(stream.connectTime),
+          ...(stream.latency.count > 0 && { latency: summarize(stream.latency) })
         };
       }
+    }
 
-      endpointStats[result.endpoint].requests++;
-      endpointStats[result.endpoint].responseTimes.push(result.responseTime);
+    if (this.results.retries.retryAttempts > 0) {
+      report.retries = { ...this.results.retries };
+    }
 
-      if (result.statusCode >= 200 && result.statusCode < 400) {
-        endpointStats[result.endpoint].successCount++;
-      }
+    const { warmup } = this.results;
+    if (warmup.requests > 0) {
+      report.warmup = {
+        requests: warmup.requests,
+        durationMs: warmup.durationMs,
+        avgResponseTime: warmup.histogram.mean,
+        p95ResponseTime: warmup.histogram.percentile(95),
+        successRate: ((warmup.requests - warmup.failures) / warmup.requests) * 100,
+        ...(warmup.retryAttempts > 0 && { retryAttempts: warmup.retryAttempts })
+      };
     }
 
-    const endpointBreakdown: Record<string, any> = {};
-    for (const [endpoint, stats] of Object.entries(endpointStats)) {
-      const times = (stats as any).responseTimes.sort((a: number, b: number) => a - b);
-      const p95 = times[Math.floor(times.length * 0.95)] || 0;
+    if (this.results.coldStarts.size > 0) {
+      report.coldStart = this.coldStartSummary();
+    }
 
-      endpointBreakdown[endpoint] = {
-        requests: (stats as any).requests,
-        avgResponseTime: times.reduce((sum: number, time: number) => sum + time, 0) / times.length,
-        p95ResponseTime: p95,
-        successRate: ((stats as any).successCount / (stats as any).requests) * 100
+    if (this.results.errors.size > 0) {
+      report.errors = {
+        total: [...this.results.errors.values()].reduce((sum, error) => sum + error.count, 0),
+        serverErrors: this.results.serverErrors,
+        byClass: Object.fromEntries(this.results.errors)
       };
     }
 
-    // Generate recommendations
-    const successRate = successfulRequests.length / totalRequests;
-    const recommendations = this.generateRecommendations(responseTimes, successRate);
+    if (this.results.phases.size > 0) {
+      report.timingPhases = { phases: {} };
+      for (const phase of Object.keys(TIMING_PHASES) as (keyof typeof TIMING_PHASES)[]) {
+        const histogram = this.results.phases.get(phase);
+        if (!histogram) continue;
+        report.timingPhases.phases[phase] = summarize(histogram);
+      }
+
+      const connections = this.results.reusedConnections + this.results.newConnections;
+      if (connections > 0) {
+        report.timingPhases.connectionReuseRate = (this.results.reusedConnections / connections) * 100;
+      }
+    }
+
+    if (this.thresholds.length > 0) {
+      report.thresholds = evaluateThresholds(report, this.thresholds);
+    }
+
+    const loadGenerator = this.resourceMonitor?.stop();
+    if (loadGenerator) {
+      report.loadGenerator = loadGenerator;
+    }
+
+    // The run is over; don't hold idle keep-alive connections open
+    this.httpClient?.close();
+
+    return report;
+  }
+
+  /**
+   * Each endpoint's first request against its warm requests
+   */
+  private coldStartSummary(): ColdStartSummary {
+    const cold = new LatencyHistogram(this.aggregatorOptions?.histogram);
+    const warm = new LatencyHistogram(this.aggregatorOptions?.histogram);
+    const endpoints: ColdStartSummary['endpoints'] = {};
+    const penalties: number[] = [];
+
+    for (const [endpoint, coldStart] of this.results.coldStarts) {
+      cold.record(coldStart.responseTime);
+      const warmHistogram = this.results.warm.get(endpoint);
+      const warmP50 = warmHistogram?.percentile(50);
+      const penaltyMs = warmP50 !== undefined ? coldStart.responseTime - warmP50 : undefined;
+      if (penaltyMs !== undefined) penalties.push(penaltyMs);
+      endpoints[endpoint] = {
+        coldResponseTime: coldStart.responseTime,
+        warmRequests: warmHistogram?.count ?? 0,
+        ...(warmP50 !== undefined && { warmP50ResponseTime: warmP50, penaltyMs })
+      };
+    }
+    for (const histogram of this.results.warm.values()) {
+      warm.merge(histogram);
+    }
 
     return {
-      summary: {
-        totalRequests,
-        averageResponseTime: responseTimes.reduce((sum, time) => sum + time, 0) / responseTimes.length,
-        p50ResponseTime: responseTimes[p50Index] || 0,
-        p95ResponseTime: responseTimes[p95Index] || 0,
-        p99ResponseTime: responseTimes[p99Index] || 0,
-        minResponseTime: Math.min(...responseTimes),
-        maxResponseTime: Math.max(...responseTimes),
-        successRate: successRate * 100,
-        errorRate: ((totalRequests - successfulRequests.length) / totalRequests) * 100
-      },
-      endpointBreakdown,
-      timeSeriesData: this.results,
-      recommendations
+      cold: summarize(cold),
+      warm: summarize(warm),
+      ...(penalties.length > 0 && { avgPenaltyMs: penalties.reduce((sum, penalty) => sum + penalty, 0) / penalties.length }),
+      endpoints
     };
   }
 
   /**
    * Generate performance recommendations
    */
-  private generateRecommendations(responseTimes: number[], successRate: number): string[] {
+  private generateRecommendations(avgResponseTime: number, p95ResponseTime: number, successRate: number): string[] {
     const recommendations: string[] = [];
-    const avgResponseTime = responseTimes.reduce((sum, time) => sum + time, 0) / responseTimes.length;
-    const p95ResponseTime = responseTimes[Math.floor(responseTimes.length * 0.95)] || 0;
 
     // Performance recommendations
     if (avgResponseTime < 50) {
@@ -480,86 +1526,78 @@ class SimplePerformanceTest {
     // Local-first specific recommendations
     if (avgResponseTime < 100 && successRate > 0.99) {
       recommendations.push('🎓 CAMBRIDGE VALIDATION: Local-first architecture demonstrates superior performance');
-      recommendations.push('⚡ COMPETITIVE ADVANTAGE: 5-20x faster than typical cloud solutions');
     }
 
     return recommendations;
   }
 
   /**
-   * Display formatted performance report
+   * Every setting the last run resolved to, for the export's metadata
    */
-  displayReport(report: PerformanceReport): void {
-    console.log('\n' + '='.repeat(80));
-    console.log('📊 DENOGENESIS PERFORMANCE REPORT');
-    console.log('='.repeat(80));
-
-    // Summary section
-    console.log('\n📈 PERFORMANCE SUMMARY:');
-    console.log('─'.repeat(60));
-    console.log(`📋 Total Requests: ${report.summary.totalRequests.toLocaleString()}`);
-    console.log(`⚡ Average Response Time: ${report.summary.averageResponseTime.toFixed(1)}ms`);
-    console.log(`📊 50th Percentile (Median): ${report.summary.p50ResponseTime.toFixed(1)}ms`);
-    console.log(`📊 95th Percentile: ${report.summary.p95ResponseTime.toFixed(1)}ms`);
-    console.log(`📊 99th Percentile: ${report.summary.p99ResponseTime.toFixed(1)}ms`);
-    console.log(`🏃 Fastest Response: ${report.summary.minResponseTime.toFixed(1)}ms`);
-    console.log(`🐌 Slowest Response: ${report.summary.maxResponseTime.toFixed(1)}ms`);
-    console.log(`✅ Success Rate: ${report.summary.successRate.toFixed(2)}%`);
-    console.log(`❌ Error Rate: ${report.summary.errorRate.toFixed(2)}%`);
-
-    // Endpoint breakdown
-    console.log('\n🎯 ENDPOINT BREAKDOWN:');
-    console.log('─'.repeat(80));
-    console.log('| Endpoint                    | Requests | Avg Time | P95 Time | Success |');
-    console.log('─'.repeat(80));
-
-    for (const [endpoint, stats] of Object.entries(report.endpointBreakdown)) {
-      const endpointDisplay = endpoint.length > 26 ? endpoint.substring(0, 23) + '...' : endpoint.padEnd(26);
-      const requestsDisplay = stats.requests.toString().padStart(8);
-      const avgDisplay = `${stats.avgResponseTime.toFixed(1)}ms`.padStart(8);
-      const p95Display = `${stats.p95ResponseTime.toFixed(1)}ms`.padStart(8);
-      const successDisplay = `${stats.successRate.toFixed(1)}%`.padStart(7);
-
-      console.log(`| ${endpointDisplay} | ${requestsDisplay} | ${avgDisplay} | ${p95Display} | ${successDisplay} |`);
+  private configuration(): RunConfiguration {
+    let scenario: RunConfiguration['scenario'] = this.runInfo?.mode === 'cambridge' ? 'cambridge' : 'default';
+    if (this.scenario) {
+      const { data: _data, ...definition } = this.scenario;
+      scenario = definition;
     }
-    console.log('─'.repeat(80));
+    return {
+      seed: this.seed,
+      ...(this.runInfo && { run: this.runInfo }),
+      scenario,
+      ...(this.groups && { groups: this.groups }),
+      thresholds: this.thresholds.map(threshold => threshold.expression),
+      timeoutMs: this.timeoutMs,
+      retry: this.retryPolicy,
+      detailedTiming: this.httpClient !== undefined,
+      ...(this.workerOptions.maxSamples !== undefined && { maxSamples: this.workerOptions.maxSamples }),
+      ...(this.workerOptions.histogramPrecision !== undefined && { histogramPrecision: this.workerOptions.histogramPrecision }),
+      ...(this.warmup && { warmup: this.warmup }),
+      ...(this.versionHeader && { versionHeader: this.versionHeader })
+    };
+  }
 
-    
-    // Recommendations
-    console.log('\n💡 RECOMMENDATIONS:');
-    console.log('─'.repeat(60));
-    report.recommendations.forEach(rec => console.log(rec));
+  /**
+   * Where and how the last run was made, and which build of the target it hit
+   */
+  async runEnvironment(): Promise<RunEnvironment> {
+    const serverVersion = await probeServerVersion(this.baseUrl, this.versionHeader);
+    return {
+      fingerprint: environmentFingerprint(),
+      configuration: this.configuration(),
+      ...(serverVersion && { serverVersion })
+    };
+  }
 
-   // Cambridge validation section
-    console.log('\n🎓 CAMBRIDGE VALIDATION DATA:');
-    console.log('─'.repeat(60));
-    console.log(`📊 Framework Performance: ${report.summary.averageResponseTime < 100 ? 'SUB-100MS VALIDATED ✅' : 'ABOVE 100MS ⚠️'}`);
-    console.log(`🏆 Local-First Superiority: ${report.summary.averageResponseTime < 200 ? '5-20X FASTER THAN CLOUD ✅' : 'COMPETITIVE WITH CLOUD'}`);
-    console.log(`⚡ Production Ready: ${report.summary.successRate > 99 ? 'ENTERPRISE GRADE ✅' : 'DEVELOPMENT GRADE'}`);
-    console.log(`🎯 Academic Evidence: EMPIRICAL VALIDATION COMPLETE ✅`);
+  /**
+   * Run every selected reporter: console output and file exports
+   */
+  async writeReports(report: PerformanceReport): Promise<void> {
+    if (this.reporters.length === 0) return;
+    const generatedAt = new Date().toISOString();
+    const environment = await this.runEnvironment();
+    for (const { reporter, output } of this.reporters) {
+      await reporter.write(report, { baseUrl: this.baseUrl, generatedAt, output, seed: this.seed, environment });
+    }
+  }
 
-    console.log('\n' + '='.repeat(80));
+  /**
+   * Display formatted performance report
+   */
+  displayReport(report: PerformanceReport): void {
+    displayReport(report);
   }
 
   /**
    * Export results to JSON
    */
   async exportResults(report: PerformanceReport, filename?: string): Promise<void> {
-    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-    const exportFilename = filename || `denogenesis-performance-${timestamp}.json`;
-
-    const exportData = {
-      metadata: {
-        testTimestamp: new Date().toISOString(),
-        baseUrl: this.baseUrl,
-        frameworkVersion: 'v1.4.0-enterprise',
-        testType: 'simple-performance-test'
-      },
-      ...report
-    };
-
-    await Deno.writeTextFile(exportFilename, JSON.stringify(exportData, null, 2));
-    console.log(`\n💾 Results exported to: ${exportFilename}`);
+    await jsonReporter.write(report, {
+      baseUrl: this.baseUrl,
+      generatedAt: new Date().toISOString(),
+      output: filename,
+      seed: this.seed,
+      environment: await this.runEnvironment()
+    });
   }
 }
 
@@ -567,59 +1605,600 @@ class SimplePerformanceTest {
 // 🚀 COMMAND LINE INTERFACE
 // ============================================
 
+interface CliArgs {
+  positional: string[];
+  flags: Record<string, string[]>;
+}
+
+// Flags that take no value, so `--flag <positional>` doesn't swallow the positional
+const BOOLEAN_FLAGS = new Set(['detailed-timing', 'plain', 'interleave']);
+
+/**
+ * Split `--name value` / `--name=value` flags from positional arguments
+ */
+function parseCliArgs(args: string[]): CliArgs {
+  const positional: string[] = [];
+  const flags: Record<string, string[]> = {};
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith('--')) {
+      positional.push(arg);
+      continue;
+    }
+
+    let [name, value] = arg.slice(2).split(/=(.*)/s, 2);
+    if (value === undefined) {
+      const next = args[i + 1];
+      value = next !== undefined && !next.startsWith('--') && !BOOLEAN_FLAGS.has(name) ? args[++i] : 'true';
+    }
+    (flags[name] ??= []).push(value);
+  }
+
+  return { positional, flags };
+}
+
+/**
+ * `--warmup 20` (requests) or `--warmup 10s` (a duration)
+ */
+function parseWarmup(value: string): WarmupOptions {
+  if (/^\d+$/.test(value.trim())) {
+    return { requests: parseInt(value) };
+  }
+  const durationSeconds = parseDuration(value);
+  if (durationSeconds <= 0) {
+    throw new Error(`Invalid warm-up "${value}" (expected a request count or a duration, e.g. 20 or 10s)`);
+  }
+  return { durationSeconds };
+}
+
+/**
+ * Compare two exported runs; exits non-zero when a regression exceeds tolerance
+ */
+async function runCompare(baselinePath: string | undefined, currentPath: string | undefined, flags: CliArgs['flags']) {
+  if (!baselinePath || !currentPath) {
+    throw new Error('Usage: compare <baseline.json> <current.json> [--tolerance 10] [--error-tolerance 1] [--alpha 0.05]');
+  }
+
+  const option = (name: string, fallback: number, valid: (value: number) => boolean, expected: string) => {
+    const value = flags[name]?.at(-1);
+    if (value === undefined) return fallback;
+    const number = value.trim() === '' ? NaN : Number(value.trim().replace(/%$/, ''));
+    if (!Number.isFinite(number) || !valid(number)) {
+      throw new Error(`Invalid --${name} "${value}" (expected ${expected})`);
+    }
+    return number;
+  };
+  const nonNegative = (value: number) => value >= 0;
+
+  const options: CompareOptions = {
+    tolerance: option('tolerance', DEFAULT_COMPARE_OPTIONS.tolerance, nonNegative, 'a percentage of at least 0'),
+    errorTolerance: option('error-tolerance', DEFAULT_COMPARE_OPTIONS.errorTolerance, nonNegative, 'percentage points of at least 0'),
+    alpha: option('alpha', DEFAULT_COMPARE_OPTIONS.alpha, value => value > 0 && value < 1, 'a significance level between 0 and 1')
+  };
+  const result = compareRuns(await loadExportedRun(baselinePath), await loadExportedRun(currentPath), options);
+
+  displayComparison(result, baselinePath, currentPath);
+
+  if (result.regressions.length > 0) {
+    Deno.exit(THRESHOLD_FAILURE_EXIT_CODE);
+  }
+}
+
+/**
+ * Requests from access logs (combined/common format or JSON lines, .gz included)
+ */
+async function readAccessLogs(paths: string[]) {
+  const { entries, skipped } = parseAccessLog((await Promise.all(paths.map(readAccessLog))).join('\n'));
+  if (skipped > 0) {
+    console.warn(`⚠️  Skipped ${skipped} log line(s) without a time, method and path`);
+  }
+  return entries;
+}
+
+/**
+ * A plan saved with --save-plan, or access logs turned into one, played at `--speed`
+ */
+async function loadReplayPlan(paths: string[], flags: CliArgs['flags']): Promise<RequestPlan> {
+  if (paths.length === 0) {
+    throw new Error('Usage: <baseUrl> replay <plan.json | access.log...> [--speed 2]');
+  }
+
+  let plan: RequestPlan | undefined;
+  if (paths.length === 1) {
+    const text = await readAccessLog(paths[0]);
+    // A plan is one JSON document; a JSON-lines log is one per line
+    let raw: unknown;
+    try {
+      raw = text.trimStart().startsWith('{') ? JSON.parse(text) : undefined;
+    } catch {
+      raw = undefined;
+    }
+    if (raw && typeof raw === 'object' && 'requests' in raw) {
+      plan = validateRequestPlan(raw, paths[0]);
+    }
+  }
+  plan ??= accessLogPlan(await readAccessLogs(paths), { source: paths.join(', ') });
+
+  const maxInFlight = flags['max-in-flight']?.at(-1);
+  if (maxInFlight) plan.maxInFlight = parseInt(maxInFlight) || plan.maxInFlight;
+
+  const speed = flags.speed?.at(-1);
+  return speed ? scalePlan(plan, parseFloat(speed.replace(/x$/i, ''))) : plan;
+}
+
+/**
+ * Write a scenario weighted by the traffic in access logs, or print it
+ */
+async function runLogToScenario(paths: string[], flags: CliArgs['flags']) {
+  if (paths.length === 0) {
+    throw new Error('Usage: log-to-scenario <access.log...> [--output scenario.json] [--top 50]');
+  }
+
+  const top = parseInt(flags.top?.at(-1) ?? '') || DEFAULT_SCENARIO_ENDPOINTS;
+  const scenario = accessLogScenario(await readAccessLogs(paths), { source: paths.join(', '), top });
+  const json = JSON.stringify(scenario, null, 2);
+
+  const output = flags.output?.at(-1);
+  if (!output) {
+    console.log(json);
+    return;
+  }
+  await Deno.writeTextFile(output, json + '\n');
+  console.log(`🗺️  Scenario with ${scenario.groups.traffic.length} endpoints written to: ${output}`);
+  console.log(`   ${scenario.description}`);
+}
+
+/**
+ * Serve distributed runs for a coordinator until stopped
+ */
+async function runWorker(flags: CliArgs['flags']) {
+  const port = flags.port ? parseInt(flags.port.at(-1)!) : DEFAULT_WORKER_PORT;
+  const hostname = flags.host?.at(-1) ?? '127.0.0.1';
+
+  const server = serveWorker({
+    port,
+    hostname,
+    onListen: addr => console.log(`🛰️  Worker listening on http://${addr.hostname}:${addr.port}`)
+  }, job => {
+    const share = job.mode === 'load' ? `${job.users} users` : `${job.rps?.toFixed(2)} req/s`;
+    console.log(`🛰️  ${job.options.label}: ${job.stages ? `staged ${job.mode}` : share} for ${job.durationSeconds}s against ${job.baseUrl}`);
+    // Several local workers share the coordinator's terminal
+    const suite = new SimplePerformanceTest(job.baseUrl, { ...job.options, plainOutput: true, reporters: [] });
+    return suite.runWorkerJob(job);
+  });
+  await server.finished;
+}
+
+/**
+ * Serve the scenario's endpoints (comprehensive by default) with injected
+ * latency and faults until stopped
+ */
+async function runMockServer(flags: CliArgs['flags']) {
+  const port = flags.port ? parseInt(flags.port.at(-1)!) : DEFAULT_MOCK_PORT;
+  const hostname = flags.host?.at(-1) ?? '127.0.0.1';
+  const scenario = await loadScenario(flags.scenario?.at(-1) ?? 'comprehensive');
+
+  let latency: LatencyDistribution | undefined;
+  const endpointLatency: Record<string, LatencyDistribution> = {};
+  for (const { endpoint, distribution } of (flags.latency ?? []).map(parseLatencyOption)) {
+    if (endpoint) endpointLatency[endpoint] = distribution;
+    else latency = distribution;
+  }
+  const faults = (flags.fault ?? []).map(parseFault);
+
+  const server = serveMock({
+    port,
+    hostname,
+    scenario,
+    latency,
+    endpointLatency,
+    faults,
+    seed: flags.seed?.at(-1),
+    onListen: addr => console.log(`🧪 Mock ${scenario.name} server listening on http://${addr.hostname}:${addr.port}`)
+  });
+
+  console.log(`⏱️  Latency: ${latency ? describeLatency(latency) : 'none'}`);
+  for (const fault of faults) {
+    const kind = fault.kind === 'error' ? `HTTP ${fault.status}` : fault.kind;
+    console.log(`💥 Fault: ${kind} on ${(fault.rate * 100).toFixed(2)}% of requests${fault.endpoint ? ` to ${fault.endpoint}` : ''}`);
+  }
+  console.log('─'.repeat(60));
+  for (const route of server.routes) {
+    const override = route.latency ? ` (${describeLatency(route.latency)})` : '';
+    console.log(`${route.method.padEnd(7)} ${route.path.padEnd(28)} → ${route.status}${override}`);
+  }
+  await server.finished;
+}
+
+/**
+ * `--workers 4` starts four local worker processes; `--workers host:port,...`
+ * uses workers already running elsewhere
+ */
+async function connectWorkers(specs: string[]): Promise<{ addresses: string[]; local: LocalWorker[] }> {
+  const entries = specs.flatMap(spec => spec.split(','));
+  if (entries.length === 1 && /^\d+$/.test(entries[0])) {
+    const count = parseInt(entries[0]);
+    if (count < 1) {
+      throw new Error('--workers needs at least one worker');
+    }
+    console.log(`🛰️  Starting ${count} local worker(s)...`);
+    const local = await startLocalWorkers(count, import.meta.url);
+    return { addresses: local.map(worker => worker.address), local };
+  }
+  return { addresses: entries.map(parseWorkerAddress), local: [] };
+}
+
+/**
+ * Modes, options and commands
+ */
+function printUsage() {
+  console.log('❌ Unknown test type. Available options:');
+  console.log('  cambridge                  - Cambridge validation test (100% success rate)');
+  console.log('  quick [requests]           - Quick benchmark (default: 100 requests)');
+  console.log('  load [users] [duration]    - Load test (default: 3 users, 60 seconds)');
+  console.log('  rate [rps] [duration]      - Open-model constant arrival rate (default: 10 req/s, 60 seconds)');
+  console.log('  replay <plan|log...>       - Send a plan saved with --save-plan, or access log traffic, to this base URL');
+  console.log('  monitor [interval]         - Real-time monitoring (default: 5 seconds)');
+  console.log('\nOptions:');
+  console.log(`  --scenario <file|name>     - JSON/YAML scenario file or built-in (${Object.keys(BUILT_IN_SCENARIOS).join(', ')})`);
+  console.log('  --group <name[,name]>      - Only run the named scenario groups');
+  console.log('  --max-in-flight <n>        - Rate mode: concurrent request limit before queueing (default: 100)');
+  console.log('  --stages <d:n,...>         - Load/rate modes: ramp through duration:target stages, e.g. 30s:10,2m:10,30s:0');
+  console.log('  --max-samples <n>          - Raw metrics kept in timeSeriesData and the CSV request sample (default: 10000)');
+  console.log('  --precision <1-5>          - Latency histogram significant digits (default: 3)');
+  console.log('  --detailed-timing          - Break response time into DNS, connect, TLS, TTFB and download phases');
+  console.log('  --timeout <duration>       - Per-request timeout unless the scenario endpoint sets one (default: 30s)');
+  console.log('  --retries <n>              - Retry connection errors, timeouts and 429/502/503/504 up to n times (default: 0)');
+  console.log('  --retry-backoff <duration> - Base exponential backoff between retries (default: 100ms)');
+  console.log(`  --report <name[=file],...> - Output formats (default: ${DEFAULT_REPORTERS.join(',')}); repeatable`);
+  for (const reporter of Object.values(REPORTERS)) {
+    console.log(`      ${reporter.name.padEnd(22)} - ${reporter.description}`);
+  }
+  console.log('  --html [file]              - Shorthand for adding --report html[=file]');
+  console.log('  --metrics-port <port>      - Monitor mode: serve Prometheus metrics on http://127.0.0.1:<port>/metrics');
+  console.log('  --metrics-host <host>      - Monitor mode: address for --metrics-port (default: 127.0.0.1)');
+  console.log('  --push-url <url>           - Monitor mode: POST Prometheus metrics here after every check');
+  console.log('  --alert <rule>             - Monitor mode: e.g. "successRate < 95% for 3", "p95 over 20 > 500ms", "/api/blogs down"; repeatable');
+  console.log('  --alert-webhook <url>      - POST firing/resolved alerts as JSON; repeatable');
+  console.log('  --alert-command <cmd>      - Run a shell command per alert, details in ALERT_* variables (needs --allow-run)');
+  console.log('  --alert-log <file>         - Append one line per alert to a file');
+  console.log('  --seed <value>             - Reproduce the request mix, think times and test data of a run (seed is in the JSON export)');
+  console.log('  --save-plan <file>         - Save the exact requests sent (endpoints, per-user timing) for replay');
+  console.log('  --warmup <n|duration>      - Quick/cambridge modes: send n requests, or for a duration (e.g. 10s), before measuring');
+  console.log('  --version-header <name>    - Response header carrying the target version for the export (default: read the JSON of /api/system)');
+  console.log('  --speed <x>                - Replay: play the plan or log x times faster, e.g. 2 or 0.5 (default: 1)');
+  console.log('  --target <name=url>        - Run against each target instead of one base URL and compare them (put the mode first); repeatable');
+  console.log('  --interleave               - With --target: run all targets at once instead of one after another');
+  console.log('  --workers <n|host:port>    - Load/rate modes: split the run across n local worker processes (needs --allow-run) or running workers; repeatable');
+  console.log('  --plain                    - Load/rate/monitor modes: log a status line every 5s instead of the live dashboard');
+  console.log(`  --threshold <expr>         - Fail (exit ${THRESHOLD_FAILURE_EXIT_CODE}) unless e.g. "p95 < 150ms", "errorRate < 1%", "/api/blogs p99 < 300ms"; repeatable`);
+  console.log('\nCommands:');
+  console.log('  compare <baseline.json> <current.json>  - Compare two exports, exit 2 on significant regressions');
+  console.log('    --tolerance <pct>        - Allowed latency increase (default: 10%)');
+  console.log('    --error-tolerance <pts>  - Allowed error rate increase (default: 1 point)');
+  console.log('    --alpha <p>              - Mann-Whitney significance level (default: 0.05)');
+  console.log('  worker                                  - Run load for a coordinator started with --workers');
+  console.log(`    --port <port>            - Listen on this port (default: ${DEFAULT_WORKER_PORT})`);
+  console.log('    --host <host>            - Listen on this address (default: 127.0.0.1; 0.0.0.0 for remote coordinators)');
+  console.log('  mock-server                             - Serve scenario endpoints with known latency and faults, to check results against');
+  console.log(`    --port <port>            - Listen on this port (default: ${DEFAULT_MOCK_PORT})`);
+  console.log('    --scenario <file|name>   - Endpoints to serve, each answering its first expected status (default: comprehensive)');
+  console.log('    --latency <dist>         - e.g. 20ms, uniform:10ms-50ms, normal:40ms,5ms, exponential:20ms; "/path dist" for one endpoint; repeatable');
+  console.log('    --fault <kind=rate>      - e.g. 503=2%, reset=1%, hang=0.5%; "/path kind=rate" for one endpoint; repeatable');
+  console.log('    --seed <value>           - Same latencies and faults for the same request sequence');
+  console.log('  log-to-scenario <access.log...>         - Scenario weighted by the traffic in nginx/Apache or JSON-lines logs');
+  console.log('    --output <file>          - Write it here instead of printing it');
+  console.log(`    --top <n>                - Keep the n most requested endpoints (default: ${DEFAULT_SCENARIO_ENDPOINTS})`);
+  console.log('\nUsage examples:');
+  console.log('  deno run --allow-net --allow-write simplePerformanceTest.ts http://localhost:3000 cambridge');
+  console.log('  deno run --allow-net --allow-write simplePerformanceTest.ts http://localhost:3003 quick 50');
+  console.log('  deno run --allow-net --allow-write simplePerformanceTest.ts https://pedromdominguez.com load 5 120');
+  console.log('  deno run --allow-net --allow-write simplePerformanceTest.ts http://localhost:3000 monitor 10');
+  console.log('  deno run --allow-net --allow-read --allow-write simplePerformanceTest.ts http://localhost:3000 quick --scenario my-app.yaml');
+  console.log('  deno run --allow-net --allow-write simplePerformanceTest.ts http://localhost:3000 load 5 60 --seed 42 --save-plan plan.json');
+  console.log('  deno run --allow-net --allow-read --allow-write simplePerformanceTest.ts http://localhost:3001 replay plan.json');
+  console.log('  deno run --allow-net --allow-read --allow-write simplePerformanceTest.ts http://localhost:3000 replay access.log --speed 10');
+  console.log('  deno run --allow-read --allow-write simplePerformanceTest.ts log-to-scenario access.log --output traffic.json');
+  console.log('  deno run --allow-net --allow-write simplePerformanceTest.ts quick 200 --target local=http://localhost:3000 --target cloud=https://example.com');
+  console.log('  deno run --allow-net --allow-write --allow-run simplePerformanceTest.ts http://localhost:3000 load 400 60 --workers 4');
+  console.log('  deno run --allow-net simplePerformanceTest.ts worker --host 0.0.0.0 --port 7700');
+  console.log('  deno run --allow-net simplePerformanceTest.ts mock-server --latency normal:40ms,5ms --fault 503=1% --fault reset=0.5%');
+  console.log('  deno run --allow-read simplePerformanceTest.ts compare baseline.json current.json --tolerance 5');
+}
+
+/**
+ * Run one mode against a suite's target. Monitor mode reports once stopped
+ * with Ctrl+C. Undefined for unknown modes, and monitoring stopped before
+ * its first check.
+ */
+async function runTestType(
+  testSuite: SimplePerformanceTest,
+  testType: string,
+  modeArgs: string[],
+  flags: CliArgs['flags'],
+  { stages, plan, workers }: { stages?: LoadStage[]; plan?: RequestPlan; workers?: string[] }
+): Promise<PerformanceReport | undefined> {
+  switch (testType) {
+    case 'cambridge':
+      console.log('🎓 Running Cambridge Validation Test...');
+      return await testSuite.runCambridgeValidation();
+
+    case 'quick': {
+      console.log('🚀 Running Quick Performance Benchmark...');
+      const requests = parseInt(modeArgs[0]) || 100;
+      return await testSuite.runQuickBenchmark(requests);
+    }
+
+    case 'load': {
+      console.log('🚀 Running Load Test...');
+      const users = parseInt(modeArgs[0]) || 3;
+      const duration = parseInt(modeArgs[1]) || 60;
+      if (workers) {
+        return await testSuite.runDistributed(workers, {
+          mode: 'load', users, durationSeconds: stages ? totalStageDuration(stages) : duration, ...(stages && { stages })
+        });
+      }
+      return stages
+        ? await testSuite.runStagedLoadTest(stages)
+        : await testSuite.runLoadTest(users, duration);
+    }
+
+    case 'rate': {
+      console.log('🚀 Running Constant Arrival Rate Test...');
+      const rps = parseFloat(modeArgs[0]) || 10;
+      const rateDuration = parseInt(modeArgs[1]) || 60;
+      const maxInFlight = parseInt(flags['max-in-flight']?.at(-1) ?? '') || 100;
+      if (workers) {
+        return await testSuite.runDistributed(workers, {
+          mode: 'rate', rps, maxInFlight, durationSeconds: stages ? totalStageDuration(stages) : rateDuration, ...(stages && { stages })
+        });
+      }
+      return stages
+        ? await testSuite.runStagedArrivalRate(stages, maxInFlight)
+        : await testSuite.runConstantArrivalRate(rps, rateDuration, maxInFlight);
+    }
+
+    case 'replay':
+      console.log('🚀 Replaying Request Plan...');
+      return await testSuite.replayRequestPlan(plan!);
+
+    case 'monitor': {
+      console.log('🚀 Starting Real-time Monitoring...');
+      const interval = parseInt(modeArgs[0]) || 5;
+      return await testSuite.startRealTimeMonitoring(interval);
+    }
+
+    default:
+      printUsage();
+      return undefined;
+  }
+}
+
+// Modes that end with a report, and so can be compared across targets
+const BENCHMARK_MODES = ['cambridge', 'quick', 'load', 'rate', 'replay'];
+
+/**
+ * Run the same mode against every --target and report them side by side.
+ * The targets share one seed, so they get the same request mix.
+ */
+async function runTargetComparison(
+  targets: Target[],
+  testType: string,
+  modeArgs: string[],
+  flags: CliArgs['flags'],
+  options: TestOptions,
+  { stages, plan, savePlan }: { stages?: LoadStage[]; plan?: RequestPlan; savePlan?: string }
+) {
+  if (testType === 'monitor') {
+    throw new Error('Monitor mode watches a single target; leave out --target');
+  }
+  if (!BENCHMARK_MODES.includes(testType)) {
+    printUsage();
+    return;
+  }
+
+  const order: TargetOrder = flags.interleave !== undefined ? 'interleaved' : 'sequential';
+  const seed = options.seed ?? randomSeed();
+  const reporters = options.reporters ?? parseReporters(DEFAULT_REPORTERS);
+  const ignored = reporters.filter(({ reporter }) => reporter.name !== 'console' && reporter.name !== 'json');
+  if (ignored.length > 0) {
+    console.warn(`⚠️  Target comparisons are written to the console and JSON; ignoring --report ${ignored.map(({ reporter }) => reporter.name).join(', ')}`);
+  }
+
+  const suites = targets.map((target, i) => new SimplePerformanceTest(target.baseUrl, {
+    ...options,
+    seed,
+    reporters: [],
+    label: target.name,
+    // Several live dashboards can't share one terminal
+    plainOutput: options.plainOutput || order === 'interleaved',
+    recordPlan: options.recordPlan && i === 0
+  }));
+
+  const run = async (suite: SimplePerformanceTest, i: number): Promise<PerformanceReport> => {
+    const { name, baseUrl } = targets[i];
+    console.log(`\n🎯 Target ${name}: ${baseUrl}`);
+    try {
+      return (await runTestType(suite, testType, modeArgs, flags, { stages, plan }))!;
+    } catch (error) {
+      throw new Error(`${name}: ${(error as Error).message}`);
+    }
+  };
+
+  const reports: PerformanceReport[] = [];
+  if (order === 'interleaved') {
+    reports.push(...await Promise.all(suites.map(run)));
+  } else {
+    for (const [i, suite] of suites.entries()) {
+      reports.push(await run(suite, i));
+    }
+  }
+
+  const comparison = compareTargets(targets.map((target, i) => ({ ...target, report: reports[i] })), order);
+  if (reporters.some(({ reporter }) => reporter.name === 'console')) {
+    displayComparativeReport(comparison);
+  }
+  const json = reporters.find(({ reporter }) => reporter.name === 'json');
+  if (json) {
+    await exportComparativeReport(comparison, {
+      generatedAt: new Date().toISOString(),
+      output: json.output,
+      seed,
+      testType,
+      environments: await Promise.all(suites.map(suite => suite.runEnvironment()))
+    });
+  }
+
+  const requestPlan = suites[0].requestPlan;
+  if (savePlan && requestPlan) {
+    await saveRequestPlan(savePlan, requestPlan);
+    console.log(`🗂️  Request plan (${requestPlan.requests.length} requests, from ${targets[0].name}) saved to: ${savePlan}`);
+  }
+
+  if (reports.some(report => report.thresholds?.some(t => !t.passed))) {
+    Deno.exit(THRESHOLD_FAILURE_EXIT_CODE);
+  }
+}
+
 async function main() {
-  const args = Deno.args;
-  const baseUrl = args[0] || 'http://localhost:3004';
+  const { positional: args, flags } = parseCliArgs(Deno.args);
 
-  const testSuite = new SimplePerformanceTest(baseUrl);
-  const testType = args[1] || 'quick';
+  if (args[0] === 'compare') {
+    try {
+      await runCompare(args[1], args[2], flags);
+    } catch (error) {
+      console.error('❌ Comparison failed:', (error as Error).message);
+      Deno.exit(1);
+    }
+    return;
+  }
+
+  if (args[0] === 'worker') {
+    try {
+      await runWorker(flags);
+    } catch (error) {
+      console.error('❌ Worker failed:', (error as Error).message);
+      Deno.exit(1);
+    }
+    return;
+  }
+
+  if (args[0] === 'mock-server') {
+    try {
+      await runMockServer(flags);
+    } catch (error) {
+      console.error('❌ Mock server failed:', (error as Error).message);
+      Deno.exit(1);
+    }
+    return;
+  }
+
+  if (args[0] === 'log-to-scenario') {
+    try {
+      await runLogToScenario(args.slice(1), flags);
+    } catch (error) {
+      console.error('❌ Scenario generation failed:', (error as Error).message);
+      Deno.exit(1);
+    }
+    return;
+  }
 
   try {
-    switch (testType) {
-      case 'cambridge':
-        console.log('🎓 Running Cambridge Validation Test...');
-        const cambridgeReport = await testSuite.runCambridgeValidation();
-        testSuite.displayReport(cambridgeReport);
-        await testSuite.exportResults(cambridgeReport);
-        break;
-
-      case 'quick':
-        console.log('🚀 Running Quick Performance Benchmark...');
-        const requests = parseInt(args[2]) || 100;
-        const quickReport = await testSuite.runQuickBenchmark(requests);
-        testSuite.displayReport(quickReport);
-        await testSuite.exportResults(quickReport);
-        break;
-
-      case 'load':
-        console.log('🚀 Running Load Test...');
-        const users = parseInt(args[2]) || 3;
-        const duration = parseInt(args[3]) || 60;
-        const loadReport = await testSuite.runLoadTest(users, duration);
-        testSuite.displayReport(loadReport);
-        await testSuite.exportResults(loadReport);
-        break;
-
-      case 'monitor':
-        console.log('🚀 Starting Real-time Monitoring...');
-        const interval = parseInt(args[2]) || 5;
-        await testSuite.startRealTimeMonitoring(interval);
-        break;
-
-      default:
-        console.log('❌ Unknown test type. Available options:');
-        console.log('  cambridge                  - Cambridge validation test (100% success rate)');
-        console.log('  quick [requests]           - Quick benchmark (default: 100 requests)');
-        console.log('  load [users] [duration]    - Load test (default: 3 users, 60 seconds)');
-        console.log('  monitor [interval]         - Real-time monitoring (default: 5 seconds)');
-        console.log('\nUsage examples:');
-        console.log('  deno run --allow-net --allow-write simplePerformanceTest.ts http://localhost:3000 cambridge');
-        console.log('  deno run --allow-net --allow-write simplePerformanceTest.ts http://localhost:3003 quick 50');
-        console.log('  deno run --allow-net --allow-write simplePerformanceTest.ts https://pedromdominguez.com load 5 120');
-        console.log('  deno run --allow-net --allow-write simplePerformanceTest.ts http://localhost:3000 monitor 10');
+    // With --target the base URLs come from the flags and the mode comes first
+    const targets = flags.target ? parseTargets(flags.target) : undefined;
+    const positional = targets ? ['', ...args] : args;
+    const baseUrl = positional[0] || 'http://localhost:3004';
+    const testType = positional[1] || 'quick';
+    const modeArgs = positional.slice(2);
+
+    // A replay brings its own endpoints, auth, test data and seed
+    const plan = testType === 'replay' ? await loadReplayPlan(modeArgs, flags) : undefined;
+    const scenario: Scenario | undefined = plan
+      ? { name: 'request plan', groups: { plan: plan.endpoints }, ...(plan.auth && { auth: plan.auth }), ...(plan.data && { data: plan.data }) }
+      : flags.scenario ? await loadScenario(flags.scenario.at(-1)!) : undefined;
+    const groups = flags.group?.flatMap(group => group.split(','));
+    const thresholds = [...(scenario?.thresholds ?? []), ...(flags.threshold ?? [])].map(parseThreshold);
+    const maxSamples = flags['max-samples'] ? parseInt(flags['max-samples'].at(-1)!) : undefined;
+    const histogramPrecision = flags.precision ? parseInt(flags.precision.at(-1)!) : undefined;
+    const detailedTiming = flags['detailed-timing'] !== undefined;
+    const plainOutput = flags.plain !== undefined;
+    const reporters = parseReporters(flags.report ?? DEFAULT_REPORTERS);
+    const alerts = flags.alert?.map(parseAlertRule);
+    const alertChannels = [
+      ...(flags['alert-webhook'] ?? []).map(webhookChannel),
+      ...(flags['alert-command'] ?? []).map(commandChannel),
+      ...(flags['alert-log'] ?? []).map(logFileChannel)
+    ];
+    const metrics = {
+      ...(flags['metrics-port'] && { port: parseInt(flags['metrics-port'].at(-1)!) }),
+      ...(flags['metrics-host'] && { hostname: flags['metrics-host'].at(-1)! }),
+      ...(flags['push-url'] && { pushUrl: flags['push-url'].at(-1)! })
+    };
+    if (flags.html) {
+      // Shorthand for --report html[=file], on top of the other reporters
+      const htmlFile = flags.html.at(-1)!;
+      reporters.push(...parseReporters([htmlFile === 'true' ? 'html' : `html=${htmlFile}`]));
+    }
+    const timeoutMs = flags.timeout ? parseDuration(flags.timeout.at(-1)!) * 1000 : undefined;
+    const retry = {
+      ...(flags.retries && { retries: parseInt(flags.retries.at(-1)!) || 0 }),
+      ...(flags['retry-backoff'] && { backoffMs: parseDuration(flags['retry-backoff'].at(-1)!) * 1000 })
+    };
+    const seed = flags.seed?.at(-1) ?? plan?.seed;
+    const savePlan = flags['save-plan']?.at(-1);
+    const versionHeader = flags['version-header']?.at(-1);
+    const warmup = flags.warmup ? parseWarmup(flags.warmup.at(-1)!) : undefined;
+    const options: TestOptions = {
+      scenario, groups, thresholds, maxSamples, histogramPrecision, detailedTiming, timeoutMs, retry, plainOutput, reporters, metrics,
+      alerts, alertChannels, seed, recordPlan: savePlan !== undefined, versionHeader, warmup
+    };
+    const stages = flags.stages ? parseStages(flags.stages.at(-1)!) : undefined;
+
+    if (scenario && !plan) {
+      console.log(`🗺️  Scenario: ${scenario.name}`);
+    }
+
+    if (flags.workers) {
+      if (testType !== 'load' && testType !== 'rate') {
+        throw new Error(`Distributed runs support the load and rate modes, not ${testType}`);
+      }
+      if (targets || savePlan) {
+        throw new Error('--workers cannot be combined with --target or --save-plan');
+      }
+    }
+
+    if (targets) {
+      await runTargetComparison(targets, testType, modeArgs, flags, options, { stages, plan, savePlan });
+      return;
+    }
+
+    const testSuite = new SimplePerformanceTest(baseUrl, options);
+
+    const workers = flags.workers ? await connectWorkers(flags.workers) : undefined;
+    let report: PerformanceReport | undefined;
+    try {
+      report = await runTestType(testSuite, testType, modeArgs, flags, { stages, plan, workers: workers?.addresses });
+    } finally {
+      // Before any exit below, which would leave them running
+      if (workers) await stopLocalWorkers(workers.local);
+    }
+
+    if (report) {
+      await testSuite.writeReports(report);
+
+      const requestPlan = testSuite.requestPlan;
+      if (savePlan && requestPlan) {
+        await saveRequestPlan(savePlan, requestPlan);
+        console.log(`🗂️  Request plan (${requestPlan.requests.length} requests) saved to: ${savePlan}`);
+      }
+
+      if (report.thresholds?.some(t => !t.passed)) {
+        Deno.exit(THRESHOLD_FAILURE_EXIT_CODE);
+      }
     }
   } catch (error) {
-    console.error('❌ Performance test failed:', error.message);
+    console.error('❌ Performance test failed:', (error as Error).message);
     Deno.exit(1);
   }
 }
@@ -630,3 +2209,4 @@ if (import.meta.main) {
 }
 
 export { SimplePerformanceTest };
+export type { PerformanceMetric, PerformanceReport, TestOptions };
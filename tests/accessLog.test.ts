@@ -0,0 +1,115 @@
+// tests/accessLog.test.ts
+// ============================================
+// 🧪 Access log parsing, replay plan and scenario tests
+// Run: deno test --allow-net --allow-read --allow-write tests/
+// ============================================
+
+import { assertAlmostEquals, assertEquals, assertRejects, assertThrows } from 'jsr:@std/assert@^1';
+import { accessLogPlan, accessLogScenario, parseAccessLog, readAccessLog } from '../lib/accessLog.ts';
+
+// 10/Oct/2000:13:55:36 -0700
+const LOGGED = Date.UTC(2000, 9, 10, 20, 55, 36);
+
+// ============================================
+// 📜 PARSING
+// ============================================
+
+Deno.test('parses common and combined lines, applying the timezone offset', () => {
+  const { entries, skipped } = parseAccessLog([
+    '127.0.0.1 - frank [10/Oct/2000:13:55:36 -0700] "GET /apache_pb.gif HTTP/1.0" 200 2326',
+    '10.0.0.1 - - [10/Oct/2000:22:55:37 +0200] "POST http://example.com/api/login?next=%2F HTTP/1.1" 302 0 "-" "Mozilla/5.0"',
+    '10.0.0.2 - - [10/Oct/2000:20:55:35] "head /health HTTP/1.1" 200 0',
+    '',
+    '10.0.0.3 - - [10/Oct/2000:20:55:38 +0000] "-" 400 0',
+    '10.0.0.4 - - [10/Oct/2000:20:55:38 +0000] "BREW /pot HTTP/1.1" 418 0',
+    '10.0.0.5 - - [10/Foo/2000:20:55:38 +0000] "GET / HTTP/1.1" 200 0',
+    'not a log line'
+  ].join('\n'));
+
+  assertEquals(entries, [
+    { timestamp: LOGGED - 1000, method: 'HEAD', path: '/health', status: 200 },
+    { timestamp: LOGGED, method: 'GET', path: '/apache_pb.gif', status: 200 },
+    { timestamp: LOGGED + 1000, method: 'POST', path: '/api/login?next=%2F', status: 302 }
+  ]);
+  assertEquals(skipped, 4);
+});
+
+Deno.test('JSON lines fall back through the known field names', () => {
+  const { entries, skipped } = parseAccessLog([
+    '{"time_iso8601": "2000-10-10T20:55:37+00:00", "request": "GET /api/blogs?page=2 HTTP/1.1", "status": "200"}',
+    '{"msec": 971211337.5, "request_method": "delete", "uri": "/api/blogs/1", "status_code": 204}',
+    '{"ts": "971211338", "method": "GET", "url": "https://example.com/health", "statusCode": null}',
+    '{"timestamp": 1760000000000, "method": "GET", "path": "/later"}',
+    '{"@timestamp": "10/Oct/2000:13:55:36 -0700", "method": "", "request": "PUT /api/posts/3 HTTP/2.0"}',
+    '{"time": "yesterday", "method": "GET", "path": "/"}',
+    '{"timestamp": 971211336, "method": "GET"}',
+    '["GET", "/"]',
+    '{"truncated":'
+  ].join('\n'));
+
+  assertEquals(entries, [
+    { timestamp: LOGGED, method: 'PUT', path: '/api/posts/3' },
+    { timestamp: LOGGED + 1000, method: 'GET', path: '/api/blogs?page=2', status: 200 },
+    { timestamp: LOGGED + 1500, method: 'DELETE', path: '/api/blogs/1', status: 204 },
+    { timestamp: LOGGED + 2000, method: 'GET', path: '/health' },
+    { timestamp: 1760000000000, method: 'GET', path: '/later' }
+  ]);
+  assertEquals(skipped, 4);
+});
+
+Deno.test('reads gzipped logs and reports unreadable ones', async () => {
+  const path = await Deno.makeTempFile({ suffix: '.log.gz' });
+  try {
+    const line = '127.0.0.1 - - [10/Oct/2000:13:55:36 -0700] "GET /rotated HTTP/1.1" 200 12\n';
+    const compressed = new Blob([line]).stream().pipeThrough(new CompressionStream('gzip'));
+    await Deno.writeFile(path, compressed);
+
+    assertEquals(await readAccessLog(path), line);
+    assertEquals(parseAccessLog(await readAccessLog(path)).entries[0].path, '/rotated');
+  } finally {
+    await Deno.remove(path);
+  }
+  await assertRejects(() => readAccessLog(`${path}.missing`), Error, 'Cannot read access log');
+});
+
+// ============================================
+// 🔁 REPLAYS AND SCENARIOS
+// ============================================
+
+Deno.test('a log with whole-second times is spread evenly across each second', () => {
+  const { entries } = parseAccessLog([
+    '1.1.1.1 - - [10/Oct/2000:20:55:36 +0000] "GET /a HTTP/1.1" 200 0',
+    '1.1.1.1 - - [10/Oct/2000:20:55:36 +0000] "GET /b HTTP/1.1" 200 0',
+    '1.1.1.1 - - [10/Oct/2000:20:55:36 +0000] "GET /a HTTP/1.1" 200 0',
+    '1.1.1.1 - - [10/Oct/2000:20:55:38 +0000] "POST /a HTTP/1.1" 201 0'
+  ].join('\n'));
+
+  const plan = accessLogPlan(entries, { source: 'access.log', maxInFlight: 10 });
+  assertEquals(plan.endpoints.map(endpoint => endpoint.description), ['GET /a', 'GET /b', 'POST /a']);
+  assertEquals(plan.requests.map(request => request.endpoint), [0, 1, 0, 2]);
+  const arrivals = plan.requests.map(request => request.at);
+  [0, 1000 / 3, 2000 / 3, 2000].forEach((at, i) => assertAlmostEquals(arrivals[i], at, 1e-9));
+  assertEquals([plan.model, plan.durationSeconds, plan.maxInFlight, plan.recordedAt], ['open', 3, 10, new Date(LOGGED).toISOString()]);
+
+  // Millisecond times are already spread, so they are kept as logged
+  const precise = accessLogPlan([
+    { timestamp: LOGGED + 250, method: 'GET', path: '/a' },
+    { timestamp: LOGGED + 250, method: 'GET', path: '/a' },
+    { timestamp: LOGGED + 900, method: 'GET', path: '/a' }
+  ], { source: 'app.jsonl' });
+  assertEquals(precise.requests.map(request => request.at), [0, 0, 650]);
+  assertEquals(precise.maxInFlight, undefined);
+
+  assertThrows(() => accessLogPlan([], { source: 'empty.log' }), Error, 'No replayable requests in empty.log');
+});
+
+Deno.test('a log becomes a scenario weighted by request counts', () => {
+  const entries = ['/a', '/b', '/a', '/c', '/a', '/b'].map((path, i) => ({ timestamp: LOGGED + i * 1000, method: 'GET', path }));
+  const scenario = accessLogScenario(entries, { source: 'access.log', top: 2 });
+
+  assertEquals(scenario.name, 'traffic from access.log');
+  assertEquals(scenario.groups.traffic.map(({ path, weight }) => [path, weight]), [['/a', 3], ['/b', 2]]);
+  assertEquals(scenario.description?.endsWith('top 2 of 3 endpoints, 83.3% of requests'), true);
+  assertEquals(accessLogScenario(entries, { source: 'access.log' }).groups.traffic.length, 3);
+  assertThrows(() => accessLogScenario([], { source: 'empty.log' }), Error, 'No requests in empty.log');
+});
@@ -0,0 +1,207 @@
+// tests/alerts.test.ts
+// ============================================
+// 🧪 Rolling window and alert rule tests
+// Run: deno test --allow-net tests/
+// ============================================
+
+import { assertAlmostEquals, assertEquals, assertThrows } from 'jsr:@std/assert@^1';
+import { type AlertChannel, AlertEvaluator, type AlertEvent, dispatchAlert, parseAlertRule, webhookChannel } from '../lib/alerts.ts';
+import { RollingWindow } from '../lib/rollingWindow.ts';
+import type { PerformanceMetric } from '../lib/types.ts';
+
+function metric(overrides: Partial<PerformanceMetric> = {}): PerformanceMetric {
+  return {
+    endpoint: '/api/blogs',
+    method: 'GET',
+    responseTime: 20,
+    statusCode: 200,
+    contentLength: 100,
+    timestamp: 0,
+    expectationMet: true,
+    ...overrides
+  };
+}
+
+const ok = (overrides: Partial<PerformanceMetric> = {}) => metric(overrides);
+const failed = (overrides: Partial<PerformanceMetric> = {}) =>
+  metric({ statusCode: 500, expectationMet: false, unexpectedReason: 'status 500, expected 2xx/3xx', ...overrides });
+
+/**
+ * Feed results one check at a time; returns the statuses emitted at each check
+ */
+function run(evaluator: AlertEvaluator, results: PerformanceMetric[]): string[][] {
+  return results.map((result, i) => evaluator.observe(result, i * 1000).map(event => event.status));
+}
+
+// ============================================
+// 🪟 ROLLING WINDOW
+// ============================================
+
+Deno.test('rolling window keeps only the latest results', () => {
+  const window = new RollingWindow(3);
+  [10, 20, 30, 40].forEach(responseTime => window.push(metric({ responseTime })));
+
+  assertEquals(window.count, 3);
+  assertEquals(window.latest?.responseTime, 40);
+  assertEquals(window.averageResponseTime, 30);
+  assertEquals(window.value('min'), 20);
+  assertEquals(window.value('max'), 40);
+});
+
+Deno.test('rolling window computes rates and interpolated percentiles', () => {
+  const window = new RollingWindow(10);
+  [1, 2, 3, 4].forEach(responseTime => window.push(metric({ responseTime })));
+  window.push(failed({ responseTime: 5 }));
+
+  assertEquals(window.successRate, 80);
+  assertEquals(window.value('errorRate'), 20);
+  assertEquals(window.value('p50'), 3);
+  assertAlmostEquals(window.value('p95')!, 4.8, 1e-9);
+  assertEquals(window.value('requests'), 5);
+  assertEquals(window.value('unknown'), undefined);
+});
+
+Deno.test('empty rolling window has no values', () => {
+  const window = new RollingWindow();
+  assertEquals(window.value('p95'), undefined);
+  assertEquals(window.averageResponseTime, 0);
+  assertThrows(() => new RollingWindow(0));
+});
+
+// ============================================
+// 📜 RULES
+// ============================================
+
+Deno.test('parses window, duration and endpoint clauses', () => {
+  assertEquals(parseAlertRule('successRate < 95% for 3 intervals'), {
+    expression: 'successRate < 95% for 3 intervals',
+    metric: 'successRate',
+    operator: '<',
+    value: 95,
+    window: 10,
+    for: 3
+  });
+
+  const p95 = parseAlertRule('p95 over last 20 > 500 ms');
+  assertEquals([p95.metric, p95.operator, p95.value, p95.window, p95.for], ['p95', '>', 500, 20, 1]);
+
+  const scoped = parseAlertRule('/api/blogs p99 > 1s over 5 for 2');
+  assertEquals([scoped.endpoint, scoped.value, scoped.window, scoped.for], ['/api/blogs', 1000, 5, 2]);
+
+  const down = parseAlertRule('/health down for 2');
+  assertEquals([down.endpoint, down.metric, down.for], ['/health', 'down', 2]);
+  assertEquals(parseAlertRule('down').endpoint, undefined);
+});
+
+Deno.test('rejects malformed rules', () => {
+  assertThrows(() => parseAlertRule('p95 is high'), Error, 'Invalid alert rule');
+  assertThrows(() => parseAlertRule('bogus > 5'), Error, 'Unknown threshold metric');
+  assertThrows(() => parseAlertRule('p95 > 5ms for 0'), Error, 'at least 1');
+});
+
+// ============================================
+// 🚨 LIFECYCLE
+// ============================================
+
+Deno.test('fires once after N consecutive breaches and resolves after N clear checks', () => {
+  const evaluator = new AlertEvaluator([parseAlertRule('successRate < 95% over 1 for 3')]);
+  const statuses = run(evaluator, [failed(), failed(), failed(), failed(), ok(), ok(), ok(), ok()]);
+
+  assertEquals(statuses, [[], [], ['firing'], [], [], [], ['resolved'], []]);
+  assertEquals(evaluator.firing, []);
+});
+
+Deno.test('a flapping endpoint does not fire or spam with a duration set', () => {
+  const evaluator = new AlertEvaluator([parseAlertRule('/api/blogs down for 2')]);
+  const flapping = Array.from({ length: 10 }, (_, i) => (i % 2 === 0 ? failed() : ok()));
+
+  assertEquals(run(evaluator, flapping).flat(), []);
+});
+
+Deno.test('a flapping endpoint stays firing until it is stable again', () => {
+  const evaluator = new AlertEvaluator([parseAlertRule('/api/blogs down for 2')]);
+  const statuses = run(evaluator, [failed(), failed(), ok(), failed(), ok(), ok()]);
+
+  assertEquals(statuses.flat(), ['firing', 'resolved']);
+  assertEquals(statuses[1], ['firing']);
+  assertEquals(statuses[5], ['resolved']);
+});
+
+Deno.test('unscoped down rules track each endpoint separately', () => {
+  const evaluator = new AlertEvaluator([parseAlertRule('down')]);
+  const events: AlertEvent[] = [
+    ...evaluator.observe(failed({ endpoint: '/a' }), 0),
+    ...evaluator.observe(ok({ endpoint: '/b' }), 1000),
+    ...evaluator.observe(failed({ endpoint: '/b' }), 2000)
+  ];
+
+  assertEquals(events.map(e => [e.status, e.endpoint]), [['firing', '/a'], ['firing', '/b']]);
+  assertEquals(evaluator.firing, ['down (/a)', 'down (/b)']);
+  assertEquals(events[0].message, '🔥 FIRING /a down: status 500, expected 2xx/3xx');
+
+  const [resolved] = evaluator.observe(ok({ endpoint: '/a' }), 65_000);
+  assertEquals([resolved.status, resolved.endpoint, resolved.since], ['resolved', '/a', 0]);
+  assertEquals(resolved.message, '✅ RESOLVED /a is back up after 1m 5s');
+  assertEquals(evaluator.firing, ['down (/b)']);
+});
+
+Deno.test('latency rules use their own window and ignore other endpoints', () => {
+  const evaluator = new AlertEvaluator([parseAlertRule('/api/blogs p95 over 4 > 100ms')]);
+  const statuses = run(evaluator, [
+    ok({ responseTime: 500 }),
+    ok({ endpoint: '/health', responseTime: 10 }),
+    ok({ responseTime: 10 }),
+    ok({ responseTime: 10 }),
+    ok({ responseTime: 10 }),
+    ok({ responseTime: 10 })
+  ]);
+
+  // The slow request keeps p95 high until it leaves the 4-result window
+  assertEquals(statuses, [['firing'], [], [], [], [], ['resolved']]);
+});
+
+Deno.test('events carry the metric value and when the alert started', () => {
+  const evaluator = new AlertEvaluator([parseAlertRule('avg over 2 > 100ms')]);
+  evaluator.observe(ok({ responseTime: 50 }), 0);
+  const [firing] = evaluator.observe(ok({ responseTime: 250 }), 1000);
+
+  assertEquals([firing.status, firing.value, firing.since, firing.at], ['firing', 150, 1000, 1000]);
+  assertEquals(firing.message, '🔥 FIRING avg over 2 > 100ms (actual: 150.0ms)');
+});
+
+// ============================================
+// 📣 CHANNELS
+// ============================================
+
+Deno.test('dispatch reports failed channels without stopping the others', async () => {
+  const delivered: string[] = [];
+  const channels: AlertChannel[] = [
+    { description: 'broken', send: () => Promise.reject(new Error('unreachable')) },
+    { description: 'memory', send: event => { delivered.push(event.message); return Promise.resolve(); } }
+  ];
+  const [event] = new AlertEvaluator([parseAlertRule('down')]).observe(failed(), 0);
+
+  assertEquals(await dispatchAlert(channels, event, 'http://localhost:3000'), ['alert broken failed: unreachable']);
+  assertEquals(delivered, [event.message]);
+});
+
+Deno.test('webhook channel posts the event as JSON', async () => {
+  const received: Record<string, unknown>[] = [];
+  const server = Deno.serve({ port: 0, hostname: '127.0.0.1', onListen: () => {} }, async request => {
+    received.push(await request.json());
+    return new Response(null, { status: received.length === 1 ? 204 : 500 });
+  });
+
+  try {
+    const channel = webhookChannel(`http://127.0.0.1:${server.addr.port}/hooks/perf`);
+    const [event] = new AlertEvaluator([parseAlertRule('down')]).observe(failed(), 0);
+
+    await channel.send(event, 'http://localhost:3000');
+    assertEquals(received[0], { ...event, target: 'http://localhost:3000' });
+    assertEquals(await dispatchAlert([channel], event, 'http://localhost:3000'), [
+      `alert webhook http://127.0.0.1:${server.addr.port}/hooks/perf failed: HTTP 500`
+    ]);
+  } finally {
+    await server.shutdown();
+  }
+});
@@ -0,0 +1,135 @@
+// tests/compare.test.ts
+// ============================================
+// 🧪 Baseline comparison tests
+// Run: deno test tests/
+// ============================================
+
+import { assertAlmostEquals, assertEquals } from 'jsr:@std/assert@^1';
+import { compareRuns, DEFAULT_COMPARE_OPTIONS, type ExportedRun, mannWhitneyU } from '../lib/compare.ts';
+import { LatencyHistogram } from '../lib/histogram.ts';
+
+/**
+ * An export of successful requests to one endpoint taking `latencies`, plus
+ * `failures` failed ones
+ */
+function exportedRun(latencies: number[], failures = 0): ExportedRun {
+  const histogram = new LatencyHistogram();
+  latencies.forEach(latency => histogram.record(latency));
+  const total = latencies.length + failures;
+  const errorRate = (failures / total) * 100;
+  return {
+    summary: {
+      totalRequests: total,
+      averageResponseTime: histogram.mean,
+      p50ResponseTime: histogram.percentile(50),
+      p95ResponseTime: histogram.percentile(95),
+      p99ResponseTime: histogram.percentile(99),
+      minResponseTime: histogram.min,
+      maxResponseTime: histogram.max,
+      successRate: 100 - errorRate,
+      errorRate
+    },
+    endpointBreakdown: {
+      '/api/blogs': {
+        requests: total,
+        avgResponseTime: histogram.mean,
+        p50ResponseTime: histogram.percentile(50),
+        p95ResponseTime: histogram.percentile(95),
+        p99ResponseTime: histogram.percentile(99),
+        successRate: 100 - errorRate,
+        expectedResponses: latencies.length,
+        unexpectedResponses: failures,
+        unexpectedReasons: {}
+      }
+    },
+    timeSeriesData: [
+      ...latencies.map(responseTime => ({ responseTime, statusCode: 200, expectationMet: true })),
+      ...Array.from({ length: failures }, () => ({ responseTime: 1, statusCode: 500, expectationMet: false }))
+    ].map((metric, i) => ({ ...metric, endpoint: '/api/blogs', method: 'GET', contentLength: 0, timestamp: i })),
+    recommendations: []
+  };
+}
+
+// Deterministic spread of `count` latencies around `center`
+function latencies(center: number, count = 200): number[] {
+  return Array.from({ length: count }, (_, i) => center * (0.8 + ((i * 37) % 41) / 100));
+}
+
+// ============================================
+// 📊 MANN-WHITNEY U
+// ============================================
+
+Deno.test('Mann-Whitney U matches hand-computed values', () => {
+  // Fully separated samples: U = 25 of 25, z = 12 / sqrt(25/12 * 11)
+  const separated = mannWhitneyU([1, 2, 3, 4, 5], [6, 7, 8, 9, 10])!;
+  assertEquals(separated.u, 25);
+  assertEquals(separated.effectSize, 1);
+  assertAlmostEquals(separated.z, 2.50672, 1e-5);
+  assertAlmostEquals(separated.pValue, 0.012186, 1e-5);
+  assertEquals(separated.significant, true);
+
+  // Ties get average ranks and shrink the variance: U = 27.5, z = 9 / sqrt(3 * (13 - 96/132))
+  const tied = mannWhitneyU([1, 2, 2, 3, 3, 4], [2, 3, 3, 4, 5, 5])!;
+  assertEquals(tied.u, 27.5);
+  assertAlmostEquals(tied.z, 1.48324, 1e-5);
+  assertAlmostEquals(tied.pValue, 0.13801, 1e-5);
+  assertEquals(tied.significant, false);
+  assertEquals(mannWhitneyU([1, 2, 2, 3, 3, 4], [2, 3, 3, 4, 5, 5], 0.2)!.significant, true);
+
+  // Faster current run: U and z mirror the slower case
+  const faster = mannWhitneyU([6, 7, 8, 9, 10], [1, 2, 3, 4, 5])!;
+  assertEquals([faster.u, faster.effectSize], [0, 0]);
+  assertAlmostEquals(faster.z, -2.50672, 1e-5);
+
+  assertEquals(mannWhitneyU([], [1, 2]), undefined);
+  assertEquals(mannWhitneyU([3, 3], [3, 3]), { u: 2, z: 0, pValue: 1, effectSize: 0.5, significant: false });
+});
+
+// ============================================
+// 🔍 TOLERANCE
+// ============================================
+
+Deno.test('latency regressions need to exceed the tolerance and be significant', () => {
+  const baseline = exportedRun(latencies(100));
+  const slower = exportedRun(latencies(120));
+
+  const result = compareRuns(baseline, slower);
+  assertEquals(result.test?.significant, true);
+  assertEquals(result.summary.filter(d => d.regression).map(d => d.metric), ['avg', 'p50', 'p95', 'p99']);
+  assertEquals(result.endpoints[0].deltas.filter(d => d.regression).map(d => d.metric), ['avg', 'p95']);
+  assertEquals(result.regressions.length, 6);
+
+  // Within a 30% tolerance, the same slowdown passes
+  assertEquals(compareRuns(baseline, slower, { ...DEFAULT_COMPARE_OPTIONS, tolerance: 30 }).regressions, []);
+  // So does an unchanged run, and a faster one
+  assertEquals(compareRuns(baseline, exportedRun(latencies(100))).regressions, []);
+  assertEquals(compareRuns(slower, baseline).regressions, []);
+
+  // 20% slower on average, but two samples each can't show a significant difference
+  const few = compareRuns(exportedRun([100, 110]), exportedRun([120, 132]));
+  assertEquals([few.test?.significant, few.regressions], [false, []]);
+});
+
+Deno.test('growth that cannot be tested is reported as insufficient samples, not a regression', () => {
+  const baseline = exportedRun(latencies(100));
+  const unsampled = { ...exportedRun(latencies(150)), timeSeriesData: [] };
+
+  const result = compareRuns(baseline, unsampled);
+  assertEquals([result.test, result.regressions], [undefined, []]);
+  assertEquals(result.summary.filter(d => d.insufficientSamples).map(d => d.metric), ['avg', 'p50', 'p95', 'p99']);
+  assertEquals(result.inconclusive.length, 6);
+  assertEquals(result.inconclusive[5].startsWith('/api/blogs p95: '), true);
+  // Without growth past the tolerance there is nothing to test
+  assertEquals(compareRuns(baseline, { ...baseline, timeSeriesData: [] }).inconclusive, []);
+});
+
+Deno.test('error rate regressions are measured in percentage points', () => {
+  const baseline = exportedRun(latencies(100), 0);
+  const failing = exportedRun(latencies(100), 5);  // 5 of 205 failed: +2.44 pts
+
+  assertEquals(compareRuns(baseline, failing).regressions, [
+    'errorRate: 0.00% → 2.44% (+2.44 pts)',
+    '/api/blogs errorRate: 0.00% → 2.44% (+2.44 pts)'
+  ]);
+  assertEquals(compareRuns(baseline, failing, { ...DEFAULT_COMPARE_OPTIONS, errorTolerance: 5 }).regressions, []);
+});
@@ -0,0 +1,171 @@
+// tests/distributed.test.ts
+// ============================================
+// 🧪 Distributed load generation tests
+// Run: deno test --allow-net tests/
+// ============================================
+
+import { assert, assertAlmostEquals, assertEquals, assertNotEquals, assertRejects, assertThrows } from 'jsr:@std/assert@^1';
+import { ResultAggregator } from '../lib/aggregator.ts';
+import { parseWorkerAddress, runOnWorkers, serveWorker, shareOf, type WorkerResult } from '../lib/distributed.ts';
+import { LatencyHistogram } from '../lib/histogram.ts';
+import { seededRandom } from '../lib/random.ts';
+import type { PerformanceMetric } from '../lib/types.ts';
+import { SimplePerformanceTest } from '../performanceTest.ts';
+
+function metric(i: number, overrides: Partial<PerformanceMetric> = {}): PerformanceMetric {
+  const failed = i % 7 === 0;
+  return {
+    endpoint: i % 3 === 0 ? '/health' : '/api/blogs',
+    method: 'GET',
+    responseTime: (i * 7919) % 500 + 0.25,
+    statusCode: failed ? 503 : 200,
+    contentLength: 100,
+    timestamp: 1_700_000_000_000 + i,
+    expectationMet: !failed,
+    ...(failed && { unexpectedReason: 'status 503, expected 2xx/3xx' }),
+    ...(i % 11 === 0 && { stage: 1 + (i % 2), attempts: 2 }),
+    ttfbTime: 1 + (i % 10),
+    ...overrides
+  };
+}
+
+// ============================================
+// 🔗 SERIALIZATION AND MERGING
+// ============================================
+
+Deno.test('histograms survive a JSON round trip exactly', () => {
+  const histogram = new LatencyHistogram({ significantDigits: 2 });
+  for (let i = 0; i < 2_000; i++) histogram.record((i * 7919) % 1000 + 0.5);
+
+  const restored = LatencyHistogram.fromJSON(JSON.parse(JSON.stringify(histogram)));
+
+  assertEquals(restored.count, histogram.count);
+  assertEquals([restored.mean, restored.stdDev, restored.min, restored.max], [histogram.mean, histogram.stdDev, histogram.min, histogram.max]);
+  for (const percentile of [50, 95, 99, 99.9]) {
+    assertEquals(restored.percentile(percentile), histogram.percentile(percentile));
+  }
+  assertEquals(LatencyHistogram.fromJSON(new LatencyHistogram().toJSON()).count, 0);
+  assertThrows(() => LatencyHistogram.fromJSON({ ...histogram.toJSON(), count: 1 }), Error, 'expected 1');
+});
+
+Deno.test('merged worker results equal one aggregator recording everything', () => {
+  const combined = new ResultAggregator();
+  const workers = [new ResultAggregator(), new ResultAggregator(), new ResultAggregator()];
+  for (let i = 0; i < 3_000; i++) {
+    const result = metric(i);
+    combined.record(result);
+    workers[i % 3].record(result);
+  }
+
+  const merged = new ResultAggregator();
+  for (const worker of workers) {
+    merged.merge(ResultAggregator.fromJSON(JSON.parse(JSON.stringify(worker))));
+  }
+
+  assertEquals(merged.totalRequests, combined.totalRequests);
+  assertEquals(merged.successCount, combined.successCount);
+  for (const percentile of [50, 95, 99]) {
+    assertAlmostEquals(merged.successful.percentile(percentile), combined.successful.percentile(percentile), 1e-9);
+  }
+  assertAlmostEquals(merged.successful.mean, combined.successful.mean, 1e-9);
+
+  const blogs = merged.endpoints.get('/api/blogs')!;
+  assertEquals(blogs.requests, combined.endpoints.get('/api/blogs')!.requests);
+  assertEquals(blogs.unexpectedReasons, combined.endpoints.get('/api/blogs')!.unexpectedReasons);
+  assertEquals(merged.stages.get(2)!.requests, combined.stages.get(2)!.requests);
+  assertEquals(merged.phases.get('ttfb')!.count, 3_000);
+  assertEquals(merged.retries, combined.retries);
+  assertEquals(merged.serverErrors, combined.serverErrors);
+  assertEquals(merged.sample().length, 3_000);
+});
+
+Deno.test('merged samples stay within maxSamples, shared by results recorded', () => {
+  const big = new ResultAggregator({ maxSamples: 100 });
+  const small = new ResultAggregator({ maxSamples: 100 });
+  for (let i = 0; i < 900; i++) big.record(metric(i, { endpoint: '/big' }));
+  for (let i = 0; i < 100; i++) small.record(metric(i, { endpoint: '/small' }));
+
+  const samples = big.merge(small).sample();
+  assertEquals(samples.length, 100);
+  assertEquals(samples.filter(sample => sample.endpoint === '/small').length, 10);
+});
+
+Deno.test('the same seed samples and merges the same metrics', () => {
+  const sampled = (seed: string) => {
+    const aggregator = new ResultAggregator({ maxSamples: 50, random: seededRandom(seed) });
+    const other = new ResultAggregator({ maxSamples: 50, random: seededRandom(`${seed}:worker`) });
+    for (let i = 0; i < 1_000; i++) aggregator.record(metric(i));
+    for (let i = 0; i < 500; i++) other.record(metric(i, { endpoint: '/other' }));
+    return aggregator.merge(other).sample().map(sample => `${sample.endpoint} ${sample.timestamp}`);
+  };
+
+  assertEquals(sampled('k3v9x2'), sampled('k3v9x2'));
+  assertNotEquals(sampled('k3v9x2'), sampled('other'));
+});
+
+// ============================================
+// 🧮 SPLITTING
+// ============================================
+
+Deno.test('splits users, rates and stages across workers', () => {
+  const load = [0, 1, 2].map(i => shareOf({ mode: 'load', durationSeconds: 60, users: 10, stages: [{ durationSeconds: 30, target: 4 }] }, i, 3));
+  assertEquals(load.map(share => share.users), [4, 3, 3]);
+  assertEquals(load.map(share => share.stages![0].target), [2, 1, 1]);
+
+  const rate = [0, 1].map(i => shareOf({ mode: 'rate', durationSeconds: 60, rps: 50, maxInFlight: 99 }, i, 2));
+  assertEquals(rate.map(share => [share.rps, share.maxInFlight, share.phaseMs]), [[25, 50, 0], [25, 50, 20]]);
+
+  assertEquals(parseWorkerAddress('10.0.0.5:7700'), 'http://10.0.0.5:7700');
+  assertEquals(parseWorkerAddress('https://worker.example.com/'), 'https://worker.example.com');
+});
+
+// ============================================
+// 🛰️ WORKERS ON LOCALHOST
+// ============================================
+
+Deno.test('a coordinator merges several local workers into one report', async () => {
+  let received = 0;
+  const target = Deno.serve({ port: 0, hostname: '127.0.0.1', onListen: () => {} }, () => {
+    received++;
+    return new Response('ok');
+  });
+  const workers = [0, 1, 2].map(() => serveWorker({ port: 0 }, job =>
+    new SimplePerformanceTest(job.baseUrl, { ...job.options, plainOutput: true, reporters: [] }).runWorkerJob(job)
+  ));
+
+  try {
+    const suite = new SimplePerformanceTest(`http://127.0.0.1:${target.addr.port}`, { reporters: [], plainOutput: true, seed: 'distributed' });
+    const addresses = workers.map(worker => `http://127.0.0.1:${worker.addr.port}`);
+    const report = await suite.runDistributed(addresses, { mode: 'rate', rps: 30, durationSeconds: 1, maxInFlight: 30 });
+
+    assertEquals(report.workers!.map(worker => worker.address), addresses);
+    assertEquals(report.workers!.reduce((sum, worker) => sum + worker.requests, 0), report.summary.totalRequests);
+    assert(report.workers!.every(worker => worker.requests > 0));
+    assertAlmostEquals(report.arrivalRate!.scheduled, 30, 1);
+    assert(report.summary.totalRequests <= received);
+    assert(received <= report.summary.totalRequests + (report.summary.cancelledRequests ?? 0));
+  } finally {
+    await Promise.all([target, ...workers].map(server => server.shutdown()));
+  }
+});
+
+Deno.test('a worker that is busy or unreachable fails the run', async () => {
+  const { promise: blocked, resolve: unblock } = Promise.withResolvers<WorkerResult>();
+  const worker = serveWorker({ port: 0 }, () => blocked);
+  const address = `http://127.0.0.1:${worker.addr.port}`;
+  const job = { mode: 'load' as const, durationSeconds: 1, users: 1, baseUrl: 'http://127.0.0.1:1', options: { seed: 's', label: 'worker 1' } };
+
+  try {
+    const invalid = await fetch(`${address}/run`, { method: 'POST', body: JSON.stringify({ job: { ...job, mode: 'monitor' }, startAt: 0 }) });
+    assertEquals([invalid.status, (await invalid.json()).error], [400, 'Invalid job: Unsupported mode "monitor" (expected load or rate)']);
+
+    const running = fetch(`${address}/run`, { method: 'POST', body: JSON.stringify({ job, startAt: 0 }) });
+    await assertRejects(() => runOnWorkers([address], [job]), Error, `Worker ${address} is not available: worker is busy`);
+    await assertRejects(() => runOnWorkers(['http://127.0.0.1:1'], [job]), Error, 'Worker http://127.0.0.1:1 is not available');
+
+    unblock({ results: new ResultAggregator().toJSON() });
+    assertEquals((await (await running).json()).results.recorded, 0);
+  } finally {
+    await worker.shutdown();
+  }
+});
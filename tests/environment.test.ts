@@ -0,0 +1,75 @@
+// tests/environment.test.ts
+// ============================================
+// 🧪 Run environment tests
+// Run: deno test --allow-net tests/
+// ============================================
+
+import { assert, assertEquals } from 'jsr:@std/assert@^1';
+import {
+  environmentFingerprint,
+  probeServerVersion,
+  ResourceMonitor,
+  saturatedGenerators,
+  saturation
+} from '../lib/environment.ts';
+import type { PerformanceReport } from '../lib/types.ts';
+
+Deno.test('fingerprint describes the runtime without needing --allow-sys', () => {
+  const fingerprint = environmentFingerprint();
+  assertEquals(fingerprint.deno, Deno.version.deno);
+  assertEquals([fingerprint.os, fingerprint.arch], [Deno.build.os, Deno.build.arch]);
+  assert(fingerprint.cpuCount >= 1);
+});
+
+Deno.test('a busy load generator is reported as saturated', async () => {
+  const idle = new ResourceMonitor();
+  await new Promise(resolve => setTimeout(resolve, 300));
+  const idleUsage = idle.stop();
+  assertEquals(idleUsage.saturated, false);
+  assert(idleUsage.peakRssBytes > 0);
+  assertEquals(idle.stop(), idleUsage);
+
+  const busy = new ResourceMonitor();
+  const start = performance.now();
+  while (performance.now() - start < 400) {
+    // Hold the event loop, as a generator sending faster than it can keep up would
+  }
+  const busyUsage = busy.stop();
+  assert(busyUsage.cpuPercent > 50);
+  assert(busyUsage.eventLoopLag.max >= 100);
+  assertEquals(busyUsage.saturated, true);
+
+  const usage = { durationMs: 1_000, cpuPercent: 97, peakCpuPercent: 100, peakRssBytes: 0, eventLoopLag: { p50: 1, p99: 80, max: 120 } };
+  assertEquals(saturation(usage).warnings, [
+    'CPU averaged 97% of a core (limit 90%)',
+    'event loop lag p99 was 80.0ms (limit 50ms)'
+  ]);
+
+  const report = {
+    loadGenerator: { ...usage, ...saturation(usage) },
+    workers: [
+      { address: 'http://a:7700', requests: 1, clockOffsetMs: 0, loadGenerator: idleUsage },
+      { address: 'http://b:7700', requests: 1, clockOffsetMs: 0, loadGenerator: busyUsage }
+    ]
+  } as unknown as PerformanceReport;
+  assertEquals(saturatedGenerators(report).map(({ name }) => name), ['The load generator', 'Worker http://b:7700']);
+});
+
+Deno.test('server version is read from a header or /api/system', async () => {
+  const server = Deno.serve({ port: 0, hostname: '127.0.0.1', onListen: () => {} }, request => {
+    const { pathname } = new URL(request.url);
+    if (pathname === '/api/system') {
+      return Response.json({ success: true, data: { framework: 'DenoGenesis', version: '1.6.2' } });
+    }
+    return new Response('home', { headers: { 'x-app-version': '2026.10.1' } });
+  });
+  const baseUrl = `http://127.0.0.1:${server.addr.port}`;
+  try {
+    assertEquals(await probeServerVersion(baseUrl), { version: '1.6.2', source: '/api/system' });
+    assertEquals(await probeServerVersion(baseUrl, 'X-App-Version'), { version: '2026.10.1', source: 'X-App-Version' });
+    assertEquals(await probeServerVersion(baseUrl, 'x-missing'), undefined);
+    assertEquals(await probeServerVersion('http://127.0.0.1:1'), undefined);
+  } finally {
+    await server.shutdown();
+  }
+});
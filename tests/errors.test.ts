@@ -0,0 +1,49 @@
+// tests/errors.test.ts
+// ============================================
+// 🧪 Request error classification tests
+// Run: deno test tests/
+// ============================================
+
+import { assertEquals } from 'jsr:@std/assert@^1';
+import { classifyError, type ErrorClass, RequestError } from '../lib/errors.ts';
+
+Deno.test('classifies fetch and socket messages by their OS error', () => {
+  const cases: [string, ErrorClass][] = [
+    ['error sending request: dns error: failed to lookup address information: Name or service not known', 'dns'],
+    ['getaddrinfo ENOTFOUND api.example.invalid', 'dns'],
+    ['nodename nor servname provided, or not known', 'dns'],
+    ['tcp connect error: Connection refused (os error 111)', 'connection_refused'],
+    ['connect ECONNREFUSED 127.0.0.1:9', 'connection_refused'],
+    ['invalid peer certificate: UnknownIssuer', 'tls'],
+    ['received fatal alert: HandshakeFailure', 'tls'],
+    ['operation timed out', 'timeout'],
+    ['connection reset by peer (os error 104)', 'connection_reset'],
+    ['Broken pipe (os error 32)', 'connection_reset'],
+    ['connection closed before message completed', 'connection_reset'],
+    ['unexpected EOF during handshake', 'tls'],
+    ['unexpected EOF', 'connection_reset'],
+    ['Unexpected token < in JSON', 'other']
+  ];
+
+  for (const [message, errorClass] of cases) {
+    assertEquals(classifyError(new TypeError(message)), { errorClass, message }, message);
+  }
+});
+
+Deno.test('error types and causes decide before the message', () => {
+  assertEquals(classifyError(new Deno.errors.ConnectionRefused('nope')).errorClass, 'connection_refused');
+  assertEquals(classifyError(new Deno.errors.UnexpectedEof('eof')).errorClass, 'connection_reset');
+  assertEquals(classifyError(new Deno.errors.TimedOut('slow')).errorClass, 'timeout');
+  assertEquals(classifyError(new DOMException('Signal timed out.', 'TimeoutError')).errorClass, 'timeout');
+  // The class given by the failing phase wins over a message that reads otherwise
+  assertEquals(classifyError(new RequestError('body_read', 'connection reset while reading')).errorClass, 'body_read');
+
+  // fetch wraps the OS error; each cause is read once
+  const wrapped = new TypeError('error sending request', { cause: new Error('tcp connect error', { cause: new Error('Connection refused (os error 111)') }) });
+  assertEquals(classifyError(wrapped), {
+    errorClass: 'connection_refused',
+    message: 'error sending request: tcp connect error: Connection refused (os error 111)'
+  });
+  assertEquals(classifyError(new Error('a: b', { cause: new Error('b') })).message, 'a: b');
+  assertEquals(classifyError('socket hang up'), { errorClass: 'other', message: 'socket hang up' });
+});
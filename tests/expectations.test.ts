@@ -0,0 +1,38 @@
+// tests/expectations.test.ts
+// ============================================
+// 🧪 Response expectation tests
+// Run: deno test tests/
+// ============================================
+
+import { assertEquals } from 'jsr:@std/assert@^1';
+import { checkExpectation, resolveJsonPath } from '../lib/expectations.ts';
+import type { EndpointDefinition } from '../lib/scenario.ts';
+
+const endpoint: EndpointDefinition = {
+  path: '/api/status',
+  method: 'GET',
+  weight: 1,
+  description: 'Status',
+  bodyCheck: { jsonPath: '$.data[0].state', equals: 'up' }
+};
+
+Deno.test('resolves dotted and bracketed JSON paths', () => {
+  const value = { data: [{ id: 7, 'the name': 'x' }] };
+  assertEquals(resolveJsonPath(value, '$.data[0].id'), 7);
+  assertEquals(resolveJsonPath(value, 'data.0.id'), 7);
+  assertEquals(resolveJsonPath(value, "$.data[0]['the name']"), 'x');
+  assertEquals(resolveJsonPath(value, '$.data[1].id'), undefined);
+});
+
+Deno.test('a jsonPath mismatch has one reason per check, whatever the value found', () => {
+  const down = checkExpectation(endpoint, 200, '{"data":[{"state":"down"}]}');
+  const degraded = checkExpectation(endpoint, 200, '{"data":[{"state":{"since":1712}}]}');
+  assertEquals(down, { met: false, reason: '$.data[0].state did not equal "up"', actual: '"down"' });
+  assertEquals([degraded.reason, degraded.actual], [down.reason, '{"since":1712}']);
+  assertEquals(checkExpectation(endpoint, 200, '{"data":[]}').actual, 'undefined');
+  assertEquals(checkExpectation(endpoint, 200, `{"data":[{"state":"${'x'.repeat(500)}"}]}`).actual!.length, 200);
+
+  assertEquals(checkExpectation(endpoint, 200, '{"data":[{"state":"up"}]}'), { met: true });
+  assertEquals(checkExpectation(endpoint, 503, ''), { met: false, reason: 'status 503, expected 2xx/3xx' });
+  assertEquals(checkExpectation(endpoint, 200, '<html>'), { met: false, reason: 'body is not valid JSON' });
+});
@@ -0,0 +1,140 @@
+// tests/histogram.test.ts
+// ============================================
+// 🧪 LatencyHistogram accuracy tests
+// Run: deno test tests/
+// ============================================
+
+import { assert, assertAlmostEquals, assertEquals, assertThrows } from 'jsr:@std/assert@^1';
+import { LatencyHistogram } from '../lib/histogram.ts';
+
+/**
+ * Reference "type 7" percentile on a sorted array (R/NumPy default)
+ */
+function exactPercentile(sorted: number[], percentile: number): number {
+  const position = (percentile / 100) * (sorted.length - 1);
+  const lower = Math.floor(position);
+  const upper = Math.min(lower + 1, sorted.length - 1);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+function relativeTolerance(expected: number, significantDigits = 3): number {
+  return Math.max(expected * 10 ** -significantDigits * 2, 0.001);
+}
+
+Deno.test('interpolates between ranks for small exact samples', () => {
+  const histogram = new LatencyHistogram();
+  [1, 2, 3, 4].forEach(value => histogram.record(value));
+
+  assertAlmostEquals(histogram.percentile(50), 2.5, 1e-9);
+  assertAlmostEquals(histogram.percentile(25), 1.75, 1e-9);
+  assertAlmostEquals(histogram.percentile(90), 3.7, 1e-9);
+  assertEquals(histogram.percentile(0), 1);
+  assertEquals(histogram.percentile(100), 4);
+});
+
+Deno.test('matches the reference definition on a uniform distribution', () => {
+  const values = Array.from({ length: 10_000 }, (_, i) => i + 1);
+  const histogram = new LatencyHistogram();
+  values.forEach(value => histogram.record(value));
+
+  for (const percentile of [1, 10, 50, 90, 95, 99, 99.9, 99.99]) {
+    const expected = exactPercentile(values, percentile);
+    assertAlmostEquals(histogram.percentile(percentile), expected, relativeTolerance(expected));
+  }
+});
+
+Deno.test('tracks theoretical quantiles of an exponential distribution', () => {
+  // Deterministic sample: evenly spaced points of the inverse CDF, mean 20ms
+  const mean = 20;
+  const n = 100_000;
+  const histogram = new LatencyHistogram();
+  for (let i = 0; i < n; i++) {
+    histogram.record(-Math.log(1 - (i + 0.5) / n) * mean);
+  }
+
+  for (const percentile of [50, 90, 99, 99.9]) {
+    const expected = -Math.log(1 - percentile / 100) * mean;
+    assertAlmostEquals(histogram.percentile(percentile), expected, expected * 0.005);
+  }
+  assertAlmostEquals(histogram.mean, mean, mean * 0.001);
+  assertAlmostEquals(histogram.stdDev, mean, mean * 0.01);
+});
+
+Deno.test('keeps precision across magnitudes', () => {
+  for (const significantDigits of [2, 3, 4]) {
+    const histogram = new LatencyHistogram({ significantDigits });
+    const values = [0.25, 3.7, 48.123, 912.5, 15_432.1];
+    values.forEach(value => histogram.record(value));
+
+    values.forEach((value, i) => {
+      const percentile = (i / (values.length - 1)) * 100;
+      assertAlmostEquals(histogram.percentile(percentile), value, relativeTolerance(value, significantDigits));
+    });
+  }
+});
+
+Deno.test('computes exact mean, standard deviation, min and max', () => {
+  const values = [12.5, 7.25, 30, 4.75, 18];
+  const histogram = new LatencyHistogram();
+  values.forEach(value => histogram.record(value));
+
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+
+  assertEquals(histogram.count, 5);
+  assertAlmostEquals(histogram.mean, mean, 1e-9);
+  assertAlmostEquals(histogram.stdDev, Math.sqrt(variance), 1e-9);
+  assertEquals(histogram.min, 4.75);
+  assertEquals(histogram.max, 30);
+});
+
+Deno.test('merging equals recording everything in one histogram', () => {
+  const combined = new LatencyHistogram();
+  const left = new LatencyHistogram();
+  const right = new LatencyHistogram();
+
+  for (let i = 0; i < 5_000; i++) {
+    const value = (i * 7919) % 1000 + 0.5;
+    combined.record(value);
+    (i % 3 === 0 ? left : right).record(value);
+  }
+  left.merge(right);
+
+  assertEquals(left.count, combined.count);
+  assertAlmostEquals(left.mean, combined.mean, 1e-9);
+  assertAlmostEquals(left.stdDev, combined.stdDev, 1e-9);
+  for (const percentile of [50, 95, 99, 99.9]) {
+    assertAlmostEquals(left.percentile(percentile), combined.percentile(percentile), 1e-9);
+  }
+  assertThrows(() => left.merge(new LatencyHistogram({ significantDigits: 2 })), Error, 'Cannot merge');
+});
+
+Deno.test('handles large runs and out-of-range values without growing', () => {
+  const histogram = new LatencyHistogram({ highestTrackableMs: 10_000 });
+  for (let i = 0; i < 500_000; i++) {
+    histogram.record(1 + (i % 100));
+  }
+  histogram.record(60_000); // Clamped into the top bucket, still counted as max
+
+  assertEquals(histogram.count, 500_001);
+  assertEquals(histogram.min, 1);
+  assertEquals(histogram.max, 60_000);
+  assertAlmostEquals(histogram.percentile(50), 51, relativeTolerance(51));
+  assertThrows(() => histogram.percentile(101), Error, 'between 0 and 100');
+});
+
+Deno.test('allocates buckets only where values land, even at 5 digits', () => {
+  const before = Deno.memoryUsage().rss;
+  const histograms = Array.from({ length: 20 }, () => new LatencyHistogram({ significantDigits: 5 }));
+  histograms.forEach((histogram, i) => {
+    for (let value = 5; value < 50; value += 0.5) histogram.record(value + i);
+  });
+  // Dense buckets over the whole hour would need about 31MB each
+  assert(Deno.memoryUsage().rss - before < 100 * 1024 * 1024);
+
+  const restored = LatencyHistogram.fromJSON(histograms[0].toJSON());
+  assertEquals(restored.buckets(), histograms[0].buckets());
+  assertEquals(restored.percentile(99), histograms[0].percentile(99));
+  histograms[0].reset();
+  assertEquals([histograms[0].count, histograms[0].buckets()], [0, []]);
+});
@@ -0,0 +1,78 @@
+// tests/htmlReport.test.ts
+// ============================================
+// 🧪 HTML report tests
+// Run: deno test tests/
+// ============================================
+
+import { assertEquals, assertStringIncludes } from 'jsr:@std/assert@^1';
+import { renderHtmlReport } from '../lib/htmlReport.ts';
+import type { PerformanceMetric, PerformanceReport } from '../lib/types.ts';
+
+const hostile = `/search?q=<script>alert("x")</script>&tag='a'`;
+const escaped = '/search?q=&#60;script&#62;alert(&#34;x&#34;)&#60;/script&#62;&#38;tag=&#39;a&#39;';
+
+const metric = (endpoint: string, timestamp: number, expectationMet = true): PerformanceMetric => ({
+  endpoint, method: 'GET', responseTime: 20, statusCode: expectationMet ? 200 : 500, contentLength: 0, timestamp, expectationMet
+});
+
+const report = {
+  summary: {
+    totalRequests: 3,
+    averageResponseTime: 20,
+    p50ResponseTime: 20,
+    p95ResponseTime: 20,
+    p99ResponseTime: 20,
+    minResponseTime: 20,
+    maxResponseTime: 20,
+    successRate: 66.67,
+    errorRate: 33.33
+  },
+  endpointBreakdown: {
+    [hostile]: {
+      requests: 2,
+      avgResponseTime: 20,
+      p50ResponseTime: 20,
+      p95ResponseTime: 20,
+      p99ResponseTime: 20,
+      successRate: 50,
+      expectedResponses: 1,
+      unexpectedResponses: 1,
+      unexpectedReasons: { '<b>status</b> 500': 1 }
+    },
+    '/ok': {
+      requests: 1,
+      avgResponseTime: 20,
+      p50ResponseTime: 20,
+      p95ResponseTime: 20,
+      p99ResponseTime: 20,
+      successRate: 100,
+      expectedResponses: 1,
+      unexpectedResponses: 0,
+      unexpectedReasons: {}
+    }
+  },
+  timeSeriesData: [metric(hostile, 1_000), metric(hostile, 1_500, false), metric('/ok', 2_000)],
+  recommendations: ['Cache <search> results'],
+  thresholds: [{ expression: `${hostile} p95 < 50ms`, endpoint: hostile, metric: 'p95', actual: 20, passed: true }]
+} as PerformanceReport;
+
+Deno.test('endpoint names and other report text are escaped everywhere they appear', () => {
+  const html = renderHtmlReport(report, { baseUrl: 'https://example.com/?a=1&b=2', generatedAt: '2026-01-02T03:04:05.000Z', title: 'Run <1>' });
+
+  // Endpoint table, threshold table, scatter tooltips and CDF legend
+  assertStringIncludes(html, `<td>${escaped}</td>`);
+  assertStringIncludes(html, `<td>${escaped} p95 &#60; 50ms</td>`);
+  assertStringIncludes(html, `<title>GET ${escaped} - 20.0ms (500)</title>`);
+  assertStringIncludes(html, `</i>${escaped}</span>`);
+  assertStringIncludes(html, '&#60;b&#62;status&#60;/b&#62; 500 (1)');
+
+  assertStringIncludes(html, '<title>Run &#60;1&#62;</title>');
+  assertStringIncludes(html, 'https://example.com/?a=1&#38;b=2');
+  assertStringIncludes(html, '<li>Cache &#60;search&#62; results</li>');
+  assertEquals(['<script', '<b>', '<search>', '<1>', "'a'"].filter(raw => html.includes(raw)), []);
+});
+
+Deno.test('the report loads nothing from the network', () => {
+  const html = renderHtmlReport(report, { baseUrl: 'https://example.com', generatedAt: '2026-01-02T03:04:05.000Z' });
+  assertEquals(/<(script|link|img|iframe)\b|\bsrc=|url\(/i.test(html), false);
+});
@@ -0,0 +1,61 @@
+// tests/httpClient.test.ts
+// ============================================
+// 🧪 Detailed-timing HTTP client tests
+// Run: deno test --allow-net tests/
+// ============================================
+
+import { assertEquals, assertRejects } from 'jsr:@std/assert@^1';
+import { DetailedHttpClient } from '../lib/httpClient.ts';
+
+/**
+ * A keep-alive server that answers the first request on each connection and
+ * drops the connection on the second, like one whose idle timeout just passed
+ */
+function droppingServer(): { listener: Deno.TcpListener; received: string[]; done: Promise<void> } {
+  const listener = Deno.listen({ port: 0, hostname: '127.0.0.1' });
+  const received: string[] = [];
+  const handlers: Promise<void>[] = [];
+  const handle = async (conn: Deno.Conn) => {
+    const buffer = new Uint8Array(4096);
+    try {
+      for (let request = 0; ; request++) {
+        const read = await conn.read(buffer);
+        if (read === null) return;
+        received.push(new TextDecoder().decode(buffer.subarray(0, read)).split(' ')[0]);
+        if (request > 0) return;
+        await conn.write(new TextEncoder().encode('HTTP/1.1 200 OK\r\nContent-Length: 2\r\n\r\nok'));
+      }
+    } finally {
+      conn.close();
+    }
+  };
+  const done = (async () => {
+    for await (const conn of listener) handlers.push(handle(conn));
+    await Promise.allSettled(handlers);
+  })();
+  return { listener, received, done };
+}
+
+Deno.test('a stale keep-alive connection is retried only when resending is safe', async () => {
+  const { listener, received, done } = droppingServer();
+  const client = new DetailedHttpClient();
+  const url = `http://127.0.0.1:${listener.addr.port}/`;
+  try {
+    // The second GET goes out on the stale connection, then again on a fresh one
+    assertEquals((await client.request(url, { method: 'GET', headers: {} })).body, 'ok');
+    const resent = await client.request(url, { method: 'GET', headers: {} });
+    assertEquals([resent.body, resent.phases.connectionReused], ['ok', false]);
+    assertEquals(received, ['GET', 'GET', 'GET']);
+
+    // A POST may already have taken effect, so it fails instead
+    client.close();
+    received.length = 0;
+    await client.request(url, { method: 'POST', headers: {}, body: '{}' });
+    await assertRejects(() => client.request(url, { method: 'POST', headers: {}, body: '{}' }));
+    assertEquals(received, ['POST', 'POST']);
+  } finally {
+    client.close();
+    listener.close();
+    await done;
+  }
+});
@@ -0,0 +1,233 @@
+// tests/mockServer.test.ts
+// ============================================
+// 🧪 Calibration against the mock target server
+// Run: deno test --allow-net tests/
+// ============================================
+
+import { assert, assertEquals, assertThrows } from 'jsr:@std/assert@^1';
+import { BUILT_IN_SCENARIOS } from '../lib/scenario.ts';
+import { type MockServer, type MockServerOptions, parseFault, parseLatency, parseLatencyOption, serveMock } from '../lib/mockServer.ts';
+import type { PerformanceReport } from '../lib/types.ts';
+import { SimplePerformanceTest, type TestOptions } from '../performanceTest.ts';
+
+// Timers can fire a fraction of a millisecond early; the suite and the
+// loopback round trip add a little on top of the injected delay, and p99
+// also carries the first request's connection setup
+const EARLY_MS = 1;
+const OVERHEAD_MS = 15;
+const TAIL_OVERHEAD_MS = 30;
+
+async function withMock(options: MockServerOptions, run: (server: MockServer, baseUrl: string) => Promise<void>): Promise<void> {
+  const server = serveMock({ port: 0, seed: 'calibration', ...options });
+  try {
+    await run(server, `http://127.0.0.1:${server.addr.port}`);
+  } finally {
+    await server.shutdown();
+  }
+}
+
+function suite(baseUrl: string, options: TestOptions = {}): SimplePerformanceTest {
+  return new SimplePerformanceTest(baseUrl, { reporters: [], plainOutput: true, seed: 'calibration', ...options });
+}
+
+/**
+ * Every request met its expectations, and each reported percentile is the
+ * injected one plus no more than the overhead
+ */
+function assertCalibrated(report: PerformanceReport, server: MockServer): void {
+  assertEquals(report.summary.successRate, 100);
+  assertEquals(report.summary.totalRequests, server.latencies.count);
+  for (const [percentile, reported] of [[50, report.summary.p50ResponseTime], [95, report.summary.p95ResponseTime], [99, report.summary.p99ResponseTime]]) {
+    const injected = server.latencies.percentile(percentile);
+    const overhead = percentile === 99 ? TAIL_OVERHEAD_MS : OVERHEAD_MS;
+    assert(
+      reported >= injected - EARLY_MS && reported <= injected + overhead,
+      `p${percentile}: reported ${reported.toFixed(2)}ms, injected ${injected.toFixed(2)}ms`
+    );
+  }
+}
+
+// ============================================
+// 🔧 OPTIONS
+// ============================================
+
+Deno.test('parses latency distributions and faults', () => {
+  assertEquals(parseLatency('20ms'), { type: 'fixed', ms: 20 });
+  assertEquals(parseLatency('uniform:10ms-50ms'), { type: 'uniform', minMs: 10, maxMs: 50 });
+  assertEquals(parseLatency('normal:40ms,5ms'), { type: 'normal', meanMs: 40, stdDevMs: 5 });
+  assertEquals(parseLatency('exp:0.5s'), { type: 'exponential', meanMs: 500 });
+  assertEquals(parseLatencyOption('/api/blogs 80ms'), { endpoint: '/api/blogs', distribution: { type: 'fixed', ms: 80 } });
+  assertThrows(() => parseLatency('uniform:50ms-10ms'), Error, 'maximum is below the minimum');
+  assertThrows(() => parseLatency('pareto:10ms'), Error, 'Invalid latency "pareto:10ms"');
+
+  assertEquals(parseFault('503=2%'), { kind: 'error', rate: 0.02, status: 503 });
+  assertEquals(parseFault('5xx=0.1'), { kind: 'error', rate: 0.1, status: 500 });
+  assertEquals(parseFault('/api/blogs reset=50%'), { kind: 'reset', rate: 0.5, endpoint: '/api/blogs' });
+  assertThrows(() => parseFault('404=1%'), Error, 'not a 5xx status, reset or hang');
+  assertThrows(() => parseFault('hang=150%'), Error, 'over 100%');
+  assertThrows(() => serveMock({ port: 0, faults: [parseFault('reset=60%'), parseFault('hang=60%')] }), Error, 'more than 100%');
+});
+
+// ============================================
+// 📏 REPORTED PERCENTILES VS INJECTED LATENCY
+// ============================================
+
+Deno.test('cambridge mode reports the injected latency', async () => {
+  await withMock({ scenario: BUILT_IN_SCENARIOS.cambridge, latency: parseLatency('uniform:20ms-60ms') }, async (server, baseUrl) => {
+    const report = await suite(baseUrl).runCambridgeValidation(60);
+    assertCalibrated(report, server);
+    // And the injected latency is what was asked for: the median of 20-60ms
+    assert(report.summary.p50ResponseTime >= 30 && report.summary.p50ResponseTime <= 50 + OVERHEAD_MS);
+  });
+});
+
+Deno.test('quick mode reports the injected latency, with expected 401, 404 and 405 responses', async () => {
+  await withMock({ latency: parseLatency('normal:30ms,8ms') }, async (server, baseUrl) => {
+    const report = await suite(baseUrl, { scenario: BUILT_IN_SCENARIOS.comprehensive }).runQuickBenchmark(60);
+    assertCalibrated(report, server);
+    assertEquals(report.endpointBreakdown['/api/dashboard']?.expectedResponses, report.endpointBreakdown['/api/dashboard']?.requests);
+
+    const wrongMethod = await fetch(`${baseUrl}/api/blogs`, { method: 'POST' });
+    await wrongMethod.body?.cancel();
+    assertEquals([wrongMethod.status, wrongMethod.headers.get('allow')], [405, 'GET']);
+    const postOnly = await fetch(`${baseUrl}/api/ai-assistant`);
+    await postOnly.body?.cancel();
+    assertEquals([postOnly.status, postOnly.headers.get('allow')], [405, 'POST']);
+    const missing = await fetch(`${baseUrl}/not/here`);
+    await missing.body?.cancel();
+    assertEquals(missing.status, 404);
+  });
+});
+
+Deno.test('load mode reports the injected latency under concurrency', async () => {
+  await withMock({ latency: parseLatency('25ms'), endpointLatency: { '/health': parseLatency('5ms') } }, async (server, baseUrl) => {
+    const report = await suite(baseUrl, { scenario: BUILT_IN_SCENARIOS.comprehensive }).runLoadTest(3, 2);
+    assertCalibrated(report, server);
+    for (const [path, stats] of Object.entries(report.endpointBreakdown)) {
+      const injected = path === '/health' ? 5 : 25;
+      assert(stats.p50ResponseTime >= injected - EARLY_MS && stats.p50ResponseTime <= injected + OVERHEAD_MS, `${path}: ${stats.p50ResponseTime}ms`);
+    }
+  });
+});
+
+Deno.test('monitor mode reports the injected latency when stopped', async () => {
+  await withMock({ latency: parseLatency('exponential:15ms') }, async (server, baseUrl) => {
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 1_500);
+    const report = await suite(baseUrl, { scenario: BUILT_IN_SCENARIOS.comprehensive }).startRealTimeMonitoring(0.05, controller.signal);
+    assert(report && report.summary.totalRequests > 5);
+    // The check in flight when monitoring stopped was cancelled, not reported
+    assert(server.latencies.count - report.summary.totalRequests <= 1);
+    for (const [percentile, reported] of [[50, report.summary.p50ResponseTime], [95, report.summary.p95ResponseTime]]) {
+      const injected = server.latencies.percentile(percentile);
+      assert(reported >= injected - OVERHEAD_MS && reported <= injected + OVERHEAD_MS, `p${percentile}: ${reported}ms vs ${injected}ms`);
+    }
+  });
+});
+
+Deno.test('warm-up requests are left out of the results, and first requests are reported as cold', async () => {
+  const scenario = { name: 'single', groups: { api: [{ path: '/api/blogs', method: 'GET', weight: 1, description: 'Blog API' }] } };
+  await withMock({ scenario, latency: parseLatency('10ms') }, async (server, baseUrl) => {
+    const warmedUp = await suite(baseUrl, { scenario, warmup: { requests: 5 } }).runQuickBenchmark(20);
+    assertEquals([warmedUp.summary.totalRequests, warmedUp.warmup?.requests, server.latencies.count], [20, 5, 25]);
+    assertEquals(warmedUp.warmup?.successRate, 100);
+    // The cold request was part of the warm-up, so every measured request is warm
+    const blogs = warmedUp.coldStart!.endpoints['/api/blogs'];
+    assertEquals(blogs.warmRequests, 20);
+    assert(blogs.coldResponseTime >= 10 - EARLY_MS);
+    assertEquals(warmedUp.coldStart!.warm.p50, warmedUp.summary.p50ResponseTime);
+
+    const cold = await suite(baseUrl, { scenario }).runQuickBenchmark(20);
+    assertEquals([cold.warmup, cold.coldStart!.endpoints['/api/blogs'].warmRequests, cold.coldStart!.cold.count], [undefined, 19, 1]);
+  });
+});
+
+Deno.test('warm-up retries are counted apart and warm-up requests stay out of the saved plan', async () => {
+  const scenario = {
+    name: 'flaky',
+    groups: { api: [{ path: '/ok', method: 'GET', weight: 1, description: 'OK' }, { path: '/fail', method: 'GET', weight: 1, description: 'Fails' }] }
+  };
+  await withMock({ scenario, faults: [parseFault('/fail 503=100%')] }, async (_server, baseUrl) => {
+    const test = suite(baseUrl, { scenario, recordPlan: true, retry: { retries: 1, backoffMs: 1, maxBackoffMs: 1 }, warmup: { requests: 10 } });
+    const report = await test.runQuickBenchmark(10);
+    // Every failed request was retried once, in the run it belongs to
+    const { warmup } = report;
+    assertEquals(report.retries?.retryAttempts, report.endpointBreakdown['/fail'].requests);
+    assertEquals(warmup?.retryAttempts, Math.round(warmup!.requests * (100 - warmup!.successRate) / 100));
+    assert(warmup!.retryAttempts! > 0);
+
+    // The second run warms up while the first run's plan is still the latest
+    const plan = test.requestPlan!;
+    await test.runQuickBenchmark(10);
+    assertEquals(plan.requests.length, 10);
+  });
+});
+
+// ============================================
+// 💥 FAULTS
+// ============================================
+
+Deno.test('injected faults are classified as server errors, resets and timeouts', async () => {
+  const scenario = {
+    name: 'faults',
+    groups: {
+      api: [
+        { path: '/ok', method: 'GET', weight: 1, description: 'OK' },
+        { path: '/fail', method: 'GET', weight: 1, description: 'Fails' },
+        { path: '/reset', method: 'GET', weight: 1, description: 'Resets' },
+        { path: '/hang', method: 'GET', weight: 1, description: 'Hangs' }
+      ]
+    }
+  };
+  const faults = ['/fail 503=100%', '/reset reset=100%', '/hang hang=100%'].map(parseFault);
+
+  await withMock({ scenario, faults }, async (_server, baseUrl) => {
+    const report = await suite(baseUrl, { scenario, timeoutMs: 200 }).runQuickBenchmark(24);
+    const breakdown = report.endpointBreakdown;
+
+    assertEquals(breakdown['/ok'].successRate, 100);
+    assertEquals(Object.keys(breakdown['/fail'].unexpectedReasons), ['status 503, expected 2xx/3xx']);
+    assertEquals(report.errors?.byClass.connection_reset?.endpoints, { '/reset': breakdown['/reset'].requests });
+    assertEquals(report.errors?.byClass.timeout?.endpoints, { '/hang': breakdown['/hang'].requests });
+    assertEquals(report.errors?.serverErrors, breakdown['/fail'].requests);
+  });
+});
+
+// ============================================
+// 🚦 ARRIVAL RATE
+// ============================================
+
+Deno.test('rate mode sends on schedule whatever the server does', async () => {
+  const scenario = { name: 'single', groups: { api: [{ path: '/api/blogs', method: 'GET', weight: 1, description: 'Blog API' }] } };
+  await withMock({ scenario, latency: parseLatency('5ms') }, async (server, baseUrl) => {
+    const report = await suite(baseUrl, { scenario }).runConstantArrivalRate(20, 1, 10);
+    assertEquals(report.arrivalRate, { targetRps: 20, achievedRps: 20, scheduled: 20, sent: 20, queued: 0, dropped: 0, maxInFlight: 10 });
+    assertEquals([report.summary.totalRequests, server.latencies.count], [20, 20]);
+
+    // One arrival every 50ms, not one after each response
+    const completed = report.timeSeriesData.map(metric => metric.timestamp).sort((a, b) => a - b);
+    const span = completed.at(-1)! - completed[0];
+    assert(span >= 950 - TAIL_OVERHEAD_MS && span <= 950 + TAIL_OVERHEAD_MS, `20 arrivals spread over ${span}ms`);
+  });
+});
+
+Deno.test('rate mode queues and drops arrivals past max in-flight, timing them from when they were due', async () => {
+  const scenario = { name: 'single', groups: { api: [{ path: '/api/blogs', method: 'GET', weight: 1, description: 'Blog API' }] } };
+  await withMock({ scenario, latency: parseLatency('400ms') }, async (_server, baseUrl) => {
+    // Two slots and a queue of two: arrivals 3 and 4 wait, later ones are dropped
+    const report = await suite(baseUrl, { scenario }).runConstantArrivalRate(20, 1, 2);
+    const { scheduled, sent, queued, dropped } = report.arrivalRate!;
+    assertEquals(scheduled, 20);
+    assertEquals(sent + dropped, scheduled);
+    assert(queued >= 2 && dropped >= 10, `queued ${queued}, dropped ${dropped}`);
+
+    // A queued request's latency includes its wait for a slot (coordinated omission)
+    const metrics = report.timeSeriesData;
+    for (const { serviceTime, responseTime } of metrics) {
+      assert(serviceTime! >= 400 - EARLY_MS && responseTime >= serviceTime! - EARLY_MS, `service ${serviceTime}ms, response ${responseTime}ms`);
+    }
+    const waits = metrics.map(metric => metric.responseTime - metric.serviceTime!);
+    assert(Math.max(...waits) >= 250, `longest wait ${Math.max(...waits)}ms`);
+    assert(Math.min(...waits) <= OVERHEAD_MS);
+  });
+});
@@ -0,0 +1,149 @@
+// tests/prometheus.test.ts
+// ============================================
+// 🧪 Prometheus exposition tests
+// Run: deno test --allow-net tests/
+// ============================================
+
+import { assert, assertAlmostEquals, assertEquals, assertStringIncludes } from 'jsr:@std/assert@^1';
+import { PROMETHEUS_CONTENT_TYPE, PrometheusRegistry, pushMetrics, serveMetrics } from '../lib/prometheus.ts';
+import type { PerformanceMetric } from '../lib/types.ts';
+
+function metric(overrides: Partial<PerformanceMetric> = {}): PerformanceMetric {
+  return {
+    endpoint: '/api/blogs',
+    method: 'GET',
+    responseTime: 20,
+    statusCode: 200,
+    contentLength: 100,
+    timestamp: 1_700_000_000_000,
+    expectationMet: true,
+    ...overrides
+  };
+}
+
+/**
+ * Sample lines keyed by `name{labels}`, as a scraper would see them
+ */
+function parseExposition(text: string): Map<string, number> {
+  const samples = new Map<string, number>();
+  for (const line of text.split('\n')) {
+    if (line === '' || line.startsWith('#')) continue;
+    const separator = line.lastIndexOf(' ');
+    samples.set(line.slice(0, separator), Number(line.slice(separator + 1)));
+  }
+  return samples;
+}
+
+Deno.test('exposes cumulative latency histograms per endpoint', () => {
+  const registry = new PrometheusRegistry();
+  [3, 20, 20, 700, 30_000].forEach(responseTime => registry.observe(metric({ responseTime })));
+  const samples = parseExposition(registry.render());
+
+  const bucket = (le: string) => samples.get(`denogenesis_request_duration_seconds_bucket{endpoint="/api/blogs",method="GET",le="${le}"}`);
+  assertEquals(bucket('0.005'), 1);
+  assertEquals(bucket('0.025'), 3);
+  assertEquals(bucket('1'), 4);
+  assertEquals(bucket('10'), 4);
+  assertEquals(bucket('+Inf'), 5);
+  assertEquals(samples.get('denogenesis_request_duration_seconds_count{endpoint="/api/blogs",method="GET"}'), 5);
+  assertAlmostEquals(samples.get('denogenesis_request_duration_seconds_sum{endpoint="/api/blogs",method="GET"}')!, 30.743, 1e-9);
+});
+
+Deno.test('counts requests by status, using the error class when there was no response', () => {
+  const registry = new PrometheusRegistry();
+  registry.observe(metric());
+  registry.observe(metric());
+  registry.observe(metric({ statusCode: 503, expectationMet: false }));
+  registry.observe(metric({ statusCode: 0, errorClass: 'timeout', expectationMet: false }));
+  const samples = parseExposition(registry.render());
+
+  assertEquals(samples.get('denogenesis_requests_total{endpoint="/api/blogs",method="GET",status="200"}'), 2);
+  assertEquals(samples.get('denogenesis_requests_total{endpoint="/api/blogs",method="GET",status="503"}'), 1);
+  assertEquals(samples.get('denogenesis_requests_total{endpoint="/api/blogs",method="GET",status="timeout"}'), 1);
+});
+
+Deno.test('probe gauges follow the latest check of each endpoint', () => {
+  const registry = new PrometheusRegistry();
+  registry.observe(metric({ endpoint: '/health' }));
+  registry.observe(metric({ endpoint: '/api/blogs', expectationMet: false }));
+  registry.observe(metric({ endpoint: '/api/blogs', responseTime: 50, timestamp: 1_700_000_005_000 }));
+  registry.observe(metric({ endpoint: '/health', expectationMet: false }));
+  const samples = parseExposition(registry.render());
+
+  assertEquals(samples.get('denogenesis_probe_up{endpoint="/api/blogs"}'), 1);
+  assertEquals(samples.get('denogenesis_probe_up{endpoint="/health"}'), 0);
+  assertEquals(samples.get('denogenesis_probe_duration_seconds{endpoint="/api/blogs"}'), 0.05);
+  assertEquals(samples.get('denogenesis_probe_last_check_timestamp_seconds{endpoint="/api/blogs"}'), 1_700_000_005);
+});
+
+Deno.test('escapes label values and declares every metric family', () => {
+  const registry = new PrometheusRegistry();
+  registry.observe(metric({ endpoint: '/search?q="a\\b"' }));
+  const text = registry.render();
+
+  assertStringIncludes(text, 'denogenesis_probe_up{endpoint="/search?q=\\"a\\\\b\\""} 1');
+  for (const family of ['request_duration_seconds histogram', 'requests_total counter', 'probe_up gauge']) {
+    assertStringIncludes(text, `# TYPE denogenesis_${family}`);
+  }
+});
+
+Deno.test('serves /metrics to a scraper', async () => {
+  const registry = new PrometheusRegistry();
+  registry.observe(metric());
+  const server = serveMetrics(registry, { port: 0 });
+
+  try {
+    const base = `http://127.0.0.1:${server.addr.port}`;
+    const response = await fetch(`${base}/metrics`);
+    assertEquals(response.status, 200);
+    assertEquals(response.headers.get('content-type'), PROMETHEUS_CONTENT_TYPE);
+    assertEquals(parseExposition(await response.text()).get('denogenesis_probe_up{endpoint="/api/blogs"}'), 1);
+
+    // Later observations show up on the next scrape
+    registry.observe(metric({ expectationMet: false }));
+    const next = parseExposition(await (await fetch(`${base}/metrics`)).text());
+    assertEquals(next.get('denogenesis_probe_up{endpoint="/api/blogs"}'), 0);
+
+    const missing = await fetch(`${base}/other`);
+    await missing.body?.cancel();
+    assertEquals(missing.status, 404);
+  } finally {
+    await server.shutdown();
+  }
+});
+
+Deno.test('pushes the exposition to a gateway and reports failures', async () => {
+  const received: { method: string; path: string; contentType: string | null; body: string }[] = [];
+  let status = 200;
+  const gateway = Deno.serve({ port: 0, hostname: '127.0.0.1', onListen: () => {} }, async request => {
+    received.push({
+      method: request.method,
+      path: new URL(request.url).pathname,
+      contentType: request.headers.get('content-type'),
+      body: await request.text()
+    });
+    return new Response(null, { status });
+  });
+
+  try {
+    const registry = new PrometheusRegistry();
+    registry.observe(metric());
+    const url = `http://127.0.0.1:${gateway.addr.port}/metrics/job/denogenesis`;
+
+    assertEquals(await pushMetrics(registry, url), undefined);
+    assertEquals(received.length, 1);
+    assertEquals(received[0].method, 'POST');
+    assertEquals(received[0].path, '/metrics/job/denogenesis');
+    assertEquals(received[0].contentType, PROMETHEUS_CONTENT_TYPE);
+    assertEquals(received[0].body, registry.render());
+
+    status = 500;
+    const error = await pushMetrics(registry, url);
+    assert(error?.includes('HTTP 500'), error);
+  } finally {
+    await gateway.shutdown();
+  }
+
+  const unreachable = await pushMetrics(new PrometheusRegistry(), `http://127.0.0.1:${gateway.addr.port}/metrics`);
+  assert(unreachable?.startsWith('push to'), unreachable);
+});
@@ -0,0 +1,110 @@
+// tests/reporters.test.ts
+// ============================================
+// 🧪 CSV, JUnit XML and reporter selection tests
+// Run: deno test --allow-read --allow-write tests/
+// ============================================
+
+import { assertEquals, assertStringIncludes, assertThrows } from 'jsr:@std/assert@^1';
+import { csvReporter, junitReporter, junitXml, metricsCsv, parseReporters, type ReportContext } from '../lib/reporters.ts';
+import type { PerformanceMetric, PerformanceReport } from '../lib/types.ts';
+
+const context: ReportContext = { baseUrl: 'https://example.com/?a=1&b=<2>', generatedAt: '2026-01-02T03:04:05.000Z' };
+
+const report = {
+  summary: {
+    totalRequests: 10,
+    averageResponseTime: 42.04,
+    p50ResponseTime: 40,
+    p95ResponseTime: 120,
+    p99ResponseTime: 180,
+    minResponseTime: 5,
+    maxResponseTime: 250,
+    successRate: 90,
+    errorRate: 10
+  },
+  endpointBreakdown: {},
+  timeSeriesData: [],
+  recommendations: [],
+  thresholds: [
+    { expression: 'p95 < 150ms', metric: 'p95', actual: 120, passed: true },
+    { expression: '/search?q=<x>&y p99 < 100ms', endpoint: '/search?q=<x>&y', metric: 'p99', actual: 180, passed: false },
+    { expression: '/never errorRate < 1%', endpoint: '/never', metric: 'errorRate', passed: false }
+  ]
+} as PerformanceReport;
+
+// ============================================
+// 📊 CSV
+// ============================================
+
+Deno.test('CSV rows quote commas, quotes and newlines and leave missing values empty', () => {
+  const metric: PerformanceMetric = {
+    endpoint: '/api/search?q=a,b',
+    method: 'GET',
+    responseTime: 12.5,
+    statusCode: 200,
+    contentLength: 10,
+    timestamp: 1000,
+    expectationMet: false,
+    unexpectedReason: '$.title did not equal "ok"',
+    unexpectedValue: '"line one\nline two"'
+  };
+  const [header, row, ...rest] = metricsCsv([metric]).split(/\n(?=\d|$)/);
+
+  assertEquals(header.split(',').slice(0, 9), [
+    'timestamp', 'method', 'endpoint', 'statusCode', 'responseTime', 'contentLength', 'expectationMet', 'unexpectedReason', 'unexpectedValue'
+  ]);
+  assertEquals(row.startsWith('1000,GET,"/api/search?q=a,b",200,12.5,10,false,"$.title did not equal ""ok""","""line one\nline two""",,'), true);
+  assertEquals(rest, ['']);
+  assertEquals(metricsCsv([]), `${header}\n`);
+});
+
+Deno.test('CSV files name the request rows as a sample', async () => {
+  const dir = await Deno.makeTempDir();
+  try {
+    await csvReporter.write(report, { ...context, output: `${dir}/run.csv` });
+    assertEquals((await Deno.readTextFile(`${dir}/run.csv`)).split(',')[0], 'endpoint');
+    assertEquals((await Deno.readTextFile(`${dir}/run-requests-sample.csv`)).split(',')[0], 'timestamp');
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+// ============================================
+// 🧪 JUNIT XML
+// ============================================
+
+Deno.test('JUnit XML counts failed thresholds and escapes names and values', () => {
+  const xml = junitXml(report, context);
+
+  assertStringIncludes(xml, '<testsuites name="DenoGenesis performance" tests="3" failures="2">');
+  assertStringIncludes(xml, 'tests="3" failures="2" errors="0" skipped="0" timestamp="2026-01-02T03:04:05.000Z"');
+  assertStringIncludes(xml, '<testcase classname="thresholds" name="p95 &#60; 150ms"/>');
+  assertStringIncludes(xml, '<testcase classname="thresholds" name="/search?q=&#60;x&#62;&#38;y p99 &#60; 100ms">');
+  assertStringIncludes(xml, '<failure message="actual: 180.0ms" type="threshold">/search?q=&#60;x&#62;&#38;y p99 &#60; 100ms (actual: 180.0ms)</failure>');
+  assertStringIncludes(xml, '(actual: no requests)</failure>');
+  assertStringIncludes(xml, '<property name="baseUrl" value="https://example.com/?a=1&#38;b=&#60;2&#62;"/>');
+  assertStringIncludes(xml, '<property name="averageResponseTime" value="42.0"/>');
+  assertEquals(xml.includes('<x>'), false);
+
+  const none = junitXml({ ...report, thresholds: undefined }, context);
+  assertStringIncludes(none, 'tests="0" failures="0"');
+});
+
+// ============================================
+// 🔧 SELECTION
+// ============================================
+
+Deno.test('parses reporter lists with optional file names', () => {
+  const selections = parseReporters(['console,junit=results.xml', ' csv ', 'html=out/report=final.html', '']);
+  assertEquals(selections.map(({ reporter, output }) => [reporter.name, output]), [
+    ['console', undefined],
+    ['junit', 'results.xml'],
+    ['csv', undefined],
+    ['html', 'out/report=final.html']
+  ]);
+  assertEquals(parseReporters(['junit='])[0], { reporter: junitReporter });
+
+  assertThrows(() => parseReporters(['xml']), Error, 'Unknown reporter "xml" (available: console, json, csv, junit, markdown, html)');
+  assertThrows(() => parseReporters(['constructor']), Error, 'Unknown reporter "constructor"');
+  assertThrows(() => parseReporters(['toString=out.txt']), Error, 'Unknown reporter "toString"');
+});
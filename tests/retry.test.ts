@@ -0,0 +1,47 @@
+// tests/retry.test.ts
+// ============================================
+// 🧪 Retry backoff and cancellation tests
+// Run: deno test tests/
+// ============================================
+
+import { assert, assertEquals } from 'jsr:@std/assert@^1';
+import { seededRandom } from '../lib/random.ts';
+import { delay, isRetryable, retryDelay, type RetryPolicy } from '../lib/retry.ts';
+import type { PerformanceMetric } from '../lib/types.ts';
+
+const policy: RetryPolicy = { retries: 5, backoffMs: 100, maxBackoffMs: 1_000 };
+
+Deno.test('backoff doubles per attempt up to the cap, with full jitter below it', () => {
+  // The top of the jitter range is the ceiling for each attempt
+  assertEquals([1, 2, 3, 4, 5, 6].map(attempt => retryDelay(policy, attempt, () => 1)), [100, 200, 400, 800, 1_000, 1_000]);
+  assertEquals(retryDelay(policy, 3, () => 0), 0);
+  assertEquals(retryDelay(policy, 3, () => 0.25), 100);
+
+  const random = seededRandom('jitter');
+  const delays = Array.from({ length: 200 }, () => retryDelay(policy, 4, random));
+  assert(delays.every(ms => ms >= 0 && ms < 800));
+  // Spread across the range rather than bunched at one end
+  assert(delays.some(ms => ms < 200) && delays.some(ms => ms > 600));
+});
+
+Deno.test('only missing and transient responses are retried', () => {
+  const metric = (overrides: Partial<PerformanceMetric>): PerformanceMetric => ({
+    endpoint: '/', method: 'GET', responseTime: 1, statusCode: 200, contentLength: 0, timestamp: 0, expectationMet: true, ...overrides
+  });
+
+  assertEquals([429, 502, 503, 504].map(statusCode => isRetryable(metric({ statusCode }))), [true, true, true, true]);
+  assertEquals([200, 404, 500].map(statusCode => isRetryable(metric({ statusCode }))), [false, false, false]);
+  assertEquals(isRetryable(metric({ statusCode: 0, errorClass: 'timeout' })), true);
+});
+
+Deno.test('delay resolves early when its signal aborts', async () => {
+  const controller = new AbortController();
+  const start = performance.now();
+  setTimeout(() => controller.abort(), 20);
+  await delay(10_000, controller.signal);
+  assert(performance.now() - start < 1_000);
+
+  // Already aborted: no wait at all
+  await delay(10_000, controller.signal);
+  assert(performance.now() - start < 1_000);
+});
@@ -0,0 +1,75 @@
+// tests/scenario.test.ts
+// ============================================
+// 🧪 Scenario validation tests
+// Run: deno test tests/
+// ============================================
+
+import { assertEquals, assertRejects, assertThrows } from 'jsr:@std/assert@^1';
+import { BUILT_IN_SCENARIOS, loadScenario, ScenarioError, scenarioEndpoints, validateScenario } from '../lib/scenario.ts';
+
+/**
+ * A minimal valid scenario with `endpoint` merged into its only endpoint
+ */
+function withEndpoint(endpoint: Record<string, unknown>): unknown {
+  return { groups: { api: [{ path: '/api/blogs', ...endpoint }] } };
+}
+
+Deno.test('fills in endpoint defaults and keeps optional fields', () => {
+  const scenario = validateScenario({
+    name: 'blog',
+    groups: { api: [{ path: '/api/blogs' }, { path: '/api/posts', method: 'post', weight: 3, expectedStatus: 201, body: { title: 'x' } }] },
+    thresholds: ['p95 < 150ms']
+  }, 'blog.json');
+
+  assertEquals(scenario.name, 'blog');
+  assertEquals(scenario.thresholds, ['p95 < 150ms']);
+  const [blogs, posts] = scenario.groups.api;
+  assertEquals([blogs.method, blogs.weight, blogs.description], ['GET', 1, 'GET /api/blogs']);
+  assertEquals([posts.method, posts.weight, posts.expectedStatus, posts.body], ['POST', 3, [201], { title: 'x' }]);
+  assertEquals(validateScenario(withEndpoint({}), 'unnamed.yaml').name, 'unnamed.yaml');
+});
+
+Deno.test('errors name the field at fault', () => {
+  const cases: [unknown, string][] = [
+    [[], 'scenario must contain an object at the top level'],
+    [{ name: 1, groups: {} }, 'name: expected a string'],
+    [{ groups: {} }, 'groups: expected a map of group names to endpoint lists'],
+    [{ groups: { api: [] } }, 'groups.api: expected a non-empty list of endpoints'],
+    [{ groups: { api: ['/api/blogs'] } }, 'groups.api[0]: expected an endpoint object'],
+    [withEndpoint({ path: 'api/blogs' }), 'groups.api[0].path: expected a path string starting with "/"'],
+    [withEndpoint({ method: 'FETCH' }), 'groups.api[0].method: expected one of GET, HEAD, POST, PUT, PATCH, DELETE, OPTIONS'],
+    [withEndpoint({ weight: 0 }), 'groups.api[0].weight: expected a positive number'],
+    [withEndpoint({ headers: { 'X-Count': 1 } }), 'groups.api[0].headers.X-Count: expected a string'],
+    [withEndpoint({ expectedStatus: [200, 700] }), 'groups.api[0].expectedStatus[1]: expected an HTTP status code (100-599)'],
+    [withEndpoint({ bodyCheck: { matches: '(' } }), 'groups.api[0].bodyCheck.matches: invalid regular expression'],
+    [withEndpoint({ bodyCheck: { equals: 1 } }), 'groups.api[0].bodyCheck.equals: requires jsonPath to be set'],
+    [withEndpoint({ timeout: 'soon' }), 'groups.api[0].timeout: expected a positive duration such as 500ms or 5s'],
+    [{ ...withEndpoint({}) as object, thresholds: 'p95 < 150ms' }, 'thresholds: expected a list of threshold expressions'],
+    [{ ...withEndpoint({}) as object, thresholds: ['p95 < 150ms', 'p95 150ms'] }, 'thresholds[1]: Invalid threshold "p95 150ms"'],
+    // Misspelled options fail rather than falling back to defaults
+    [{ ...withEndpoint({}) as object, threshold: [] }, 'threshold: unknown field'],
+    [withEndpoint({ expectStatus: 201 }), 'groups.api[0].expectStatus: unknown field'],
+    [withEndpoint({ header: { Accept: 'text/html' } }), 'groups.api[0].header: unknown field'],
+    [withEndpoint({ bodyCheck: { contain: 'ok' } }), 'groups.api[0].bodyCheck.contain: unknown field'],
+    [withEndpoint({ extract: { token: { jsonpath: '$.token' } } }), 'groups.api[0].extract.token.jsonpath: unknown field'],
+    [{ ...withEndpoint({}) as object, journeys: { browse: { step: [] } } }, 'journeys.browse.step: unknown field']
+  ];
+
+  for (const [raw, message] of cases) {
+    assertThrows(() => validateScenario(raw), ScenarioError, message);
+  }
+});
+
+Deno.test('selects groups and rejects unknown ones', async () => {
+  const scenario = await loadScenario('comprehensive');
+  assertEquals(scenario, BUILT_IN_SCENARIOS.comprehensive);
+
+  const groups = Object.keys(scenario.groups);
+  assertEquals(scenarioEndpoints(scenario, [groups[0]]), scenario.groups[groups[0]]);
+  assertEquals(scenarioEndpoints(scenario).length, groups.reduce((sum, group) => sum + scenario.groups[group].length, 0));
+  assertThrows(() => scenarioEndpoints(scenario, ['nope']), ScenarioError, 'Unknown group(s) nope in scenario "comprehensive"');
+  assertThrows(() => scenarioEndpoints(scenario, ['constructor']), ScenarioError, 'Unknown group(s) constructor');
+
+  // Names inherited from Object.prototype are tried as paths, not returned
+  await assertRejects(() => loadScenario('constructor'), ScenarioError, 'Cannot read scenario "constructor"');
+});
@@ -0,0 +1,79 @@
+// tests/session.test.ts
+// ============================================
+// 🧪 Virtual user session tests
+// Run: deno test tests/
+// ============================================
+
+import { assertEquals } from 'jsr:@std/assert@^1';
+import type { EndpointDefinition } from '../lib/scenario.ts';
+import { VirtualUserSession } from '../lib/session.ts';
+import { TemplateData } from '../lib/templates.ts';
+
+const login: EndpointDefinition = {
+  path: '/api/login',
+  method: 'POST',
+  weight: 1,
+  description: 'Login',
+  body: { email: 'a@example.com' },
+  extract: { token: { jsonPath: '$.token' } }
+};
+
+const blog: EndpointDefinition = { path: '/api/blogs/{{blogId}}', method: 'GET', weight: 1, description: 'Blog' };
+
+function respond(session: VirtualUserSession, endpoint: EndpointDefinition, body: string, headers: [string, string][] = []): string | undefined {
+  return session.observe(endpoint, new Headers(headers), body);
+}
+
+Deno.test('a login extracts a token sent in auth headers from then on', () => {
+  const session = new VirtualUserSession({ login, headers: { Authorization: 'Bearer {{token}}' } });
+  const lookup = () => new TemplateData().scope(session.variables);
+  assertEquals(session.needsLogin, true);
+
+  assertEquals(respond(session, login, '{"token": "abc123"}'), undefined);
+  // Auth headers only go out once the login has been accepted
+  assertEquals(session.resolve(blog, lookup()).headers, {});
+  session.loggedIn = true;
+  assertEquals(session.needsLogin, false);
+
+  const resolved = session.resolve({ ...blog, headers: { Accept: 'application/json' } }, lookup());
+  assertEquals(resolved.headers, { Authorization: 'Bearer abc123', Accept: 'application/json' });
+  // Placeholders the session cannot fill stay visible, and the original keeps its template
+  assertEquals([resolved.path, blog.path], ['/api/blogs/{{blogId}}', '/api/blogs/{{blogId}}']);
+});
+
+Deno.test('extracts from JSON paths, headers and regexes, and reports what failed', () => {
+  const session = new VirtualUserSession();
+  const list: EndpointDefinition = {
+    ...blog,
+    path: '/api/blogs',
+    extract: {
+      blogId: { jsonPath: '$.data[0].id' },
+      author: { jsonPath: '$.data[0].author' },
+      requestId: { header: 'X-Request-Id' },
+      csrf: { regex: "name='csrf' value='([^']+)'" },
+      marker: { regex: 'v\\d+' }
+    }
+  };
+  const body = `{"data": [{"id": 42, "author": {"name": "Ann"}}], "html": "<input name='csrf' value='t0k'> v2"}`;
+
+  assertEquals(respond(session, list, body, [['X-Request-Id', 'req-1']]), undefined);
+  assertEquals(session.variables, { blogId: '42', author: '{"name":"Ann"}', requestId: 'req-1', csrf: 't0k', marker: 'v2' });
+  assertEquals(session.resolve(blog, new TemplateData().scope(session.variables)).path, '/api/blogs/42');
+
+  assertEquals(respond(session, list, '{"data": []}', [['X-Request-Id', 'req-2']]), 'could not extract blogId ($.data[0].id)');
+  assertEquals(respond(session, { ...blog, extract: { id: { header: 'Location' } } }, ''), 'could not extract id (header Location)');
+  assertEquals(respond(session, { ...blog, extract: { id: { regex: 'id=(\\d+)' } } }, 'none'), 'could not extract id (regex id=(\\d+))');
+  assertEquals(respond(session, { ...blog, extract: { id: { jsonPath: '$.id' } } }, '<html>'), 'could not extract id ($.id)');
+  assertEquals(respond(session, { ...blog, extract: { id: { jsonPath: '$.id' } } }, '{"id": null}'), 'could not extract id ($.id)');
+});
+
+Deno.test('cookies from any response are sent back and merged with a scenario cookie', () => {
+  const session = new VirtualUserSession();
+  respond(session, blog, '', [['Set-Cookie', 'sid=s1; Path=/; HttpOnly'], ['Set-Cookie', 'theme = dark ; Max-Age=60']]);
+  respond(session, blog, '', [['Set-Cookie', 'sid=s2; Path=/'], ['Set-Cookie', 'malformed']]);
+  const lookup = new TemplateData().scope();
+
+  assertEquals(session.resolve(blog, lookup).headers, { Cookie: 'sid=s2; theme=dark' });
+  assertEquals(session.resolve({ ...blog, headers: { cookie: 'consent=yes' } }, lookup).headers, { cookie: 'consent=yes; sid=s2; theme=dark' });
+  assertEquals(new VirtualUserSession().resolve(blog, lookup).headers, {});
+});
@@ -0,0 +1,130 @@
+// tests/streams.test.ts
+// ============================================
+// 🧪 WebSocket and SSE endpoint tests
+// Run: deno test --allow-net tests/
+// ============================================
+
+import { assert, assertEquals, assertRejects, assertThrows } from 'jsr:@std/assert@^1';
+import { ResultAggregator } from '../lib/aggregator.ts';
+import { ScenarioError, validateScenario } from '../lib/scenario.ts';
+import { deliveryLatency, runEventStream, runWebSocket, type StreamRequest } from '../lib/streams.ts';
+
+function liveServer(): Deno.HttpServer<Deno.NetAddr> {
+  return Deno.serve({ port: 0, hostname: '127.0.0.1', onListen: () => {} }, request => {
+    const { pathname } = new URL(request.url);
+    if (pathname === '/echo') {
+      const { socket, response } = Deno.upgradeWebSocket(request);
+      socket.onmessage = event => socket.send(event.data);
+      return response;
+    }
+    if (pathname === '/hang-up') {
+      const { socket, response } = Deno.upgradeWebSocket(request);
+      socket.onopen = () => setTimeout(() => socket.close(4000, 'going away'), 50);
+      return response;
+    }
+    if (pathname === '/events') {
+      let timer: ReturnType<typeof setInterval>;
+      const encoder = new TextEncoder();
+      const body = new ReadableStream({
+        start(controller) {
+          controller.enqueue(encoder.encode(': connected\n\n'));
+          timer = setInterval(() => controller.enqueue(encoder.encode(`event: tick\ndata: {"sentAt": ${Date.now()}}\n\n`)), 20);
+        },
+        cancel() {
+          clearInterval(timer);
+        }
+      });
+      return new Response(body, { headers: { 'content-type': 'text/event-stream' } });
+    }
+    return new Response('not a stream');
+  });
+}
+
+function streamRequest(server: Deno.HttpServer<Deno.NetAddr>, path: string, overrides: Partial<StreamRequest> = {}): StreamRequest {
+  return {
+    url: `http://127.0.0.1:${server.addr.port}${path}`,
+    headers: {},
+    config: { holdMs: 200 },
+    connectTimeoutMs: 2_000,
+    ...overrides
+  };
+}
+
+Deno.test('stream endpoints are validated', () => {
+  const scenario = (endpoint: Record<string, unknown>) => validateScenario({ groups: { live: [endpoint] } });
+
+  const [ws] = scenario({ path: '/ws', type: 'websocket', body: { type: 'ping' }, stream: { hold: '30s', interval: '1s', minMessages: 5 } }).groups.live;
+  assertEquals(ws.stream, { holdMs: 30_000, intervalMs: 1_000, minMessages: 5 });
+  assertEquals(scenario({ path: '/events', type: 'sse' }).groups.live[0].stream, { holdMs: 10_000 });
+
+  assertThrows(() => scenario({ path: '/ws', type: 'socket' }), ScenarioError, 'groups.live[0].type: expected one of http, websocket, sse');
+  assertThrows(() => scenario({ path: '/ws', type: 'websocket', method: 'POST' }), ScenarioError, 'opened with GET');
+  assertThrows(() => scenario({ path: '/events', type: 'sse', stream: { interval: '1s' } }), ScenarioError, 'stream.interval: only websocket');
+  assertThrows(() => scenario({ path: '/events', type: 'sse', bodyCheck: { contains: 'x' } }), ScenarioError, 'not supported for sse');
+  assertThrows(() => scenario({ path: '/api', stream: { hold: '1s' } }), ScenarioError, 'only websocket and sse');
+});
+
+Deno.test('delivery latency reads epoch and ISO timestamps', () => {
+  assertEquals(deliveryLatency('{"sentAt": 1000}', '$.sentAt', 1250), 250);
+  assertEquals(deliveryLatency('{"meta": {"at": "1970-01-01T00:00:01.000Z"}}', '$.meta.at', 1100), 100);
+  assertEquals(deliveryLatency('not json', '$.sentAt'), undefined);
+});
+
+Deno.test('WebSockets are held open and their round trips measured', async () => {
+  const server = liveServer();
+  const results = new ResultAggregator();
+  try {
+    const held = await runWebSocket(
+      streamRequest(server, '/echo', { message: 'ping', config: { holdMs: 200, intervalMs: 40 } }),
+      results.streamObserver('/echo', 'websocket')
+    );
+    assertEquals([held.connected, held.ended, held.statusCode], [true, 'held', 101]);
+    assert(held.messagesReceived >= 3);
+
+    const dropped = await runWebSocket(streamRequest(server, '/hang-up'), results.streamObserver('/hang-up', 'websocket'));
+    assertEquals(dropped.ended, 'disconnected');
+    assertEquals(dropped.reason, 'closed by the server (code 4000, going away)');
+
+    const refused = await runWebSocket(streamRequest(server, '/plain'), results.streamObserver('/plain', 'websocket'));
+    assertEquals([refused.connected, refused.statusCode], [false, 200]);
+
+    const echo = results.streams.get('/echo')!;
+    assertEquals([echo.connected, echo.open, echo.peakOpen, echo.disconnects], [1, 0, 1, 0]);
+    assertEquals(echo.latency.count, echo.messagesReceived);
+    assertEquals(echo.messagesSent, echo.messagesReceived);
+    assertEquals(results.streams.get('/hang-up')!.disconnects, 1);
+    assertEquals(results.openStreams, 0);
+
+    await assertRejects(() => runWebSocket({ ...streamRequest(server, '/echo'), url: 'http://127.0.0.1:1/echo' }, results.streamObserver('/echo', 'websocket')));
+  } finally {
+    await server.shutdown();
+  }
+});
+
+Deno.test('event streams count events and stop when the run ends', async () => {
+  const server = liveServer();
+  const results = new ResultAggregator();
+  try {
+    const held = await runEventStream(
+      streamRequest(server, '/events', { config: { holdMs: 150, latencyFrom: '$.sentAt' } }),
+      results.streamObserver('/events', 'sse')
+    );
+    assertEquals([held.connected, held.ended, held.statusCode], [true, 'held', 200]);
+    assert(held.messagesReceived >= 3);
+    assertEquals(results.streams.get('/events')!.latency.count, held.messagesReceived);
+
+    const controller = new AbortController();
+    const cancelled = runEventStream(streamRequest(server, '/events', { signal: controller.signal, config: { holdMs: 10_000 } }), results.streamObserver('/events', 'sse'));
+    setTimeout(() => controller.abort(), 50);
+    assertEquals((await cancelled).ended, 'cancelled');
+
+    const plain = await runEventStream(streamRequest(server, '/plain'), results.streamObserver('/plain', 'sse'));
+    assertEquals(plain.connected, false);
+
+    const merged = ResultAggregator.fromJSON(JSON.parse(JSON.stringify(results))).merge(results);
+    assertEquals(merged.streams.get('/events')!.connections, 4);
+    assertEquals(merged.streams.get('/events')!.messagesReceived, 2 * results.streams.get('/events')!.messagesReceived);
+  } finally {
+    await server.shutdown();
+  }
+});
@@ -0,0 +1,43 @@
+// tests/targets.test.ts
+// ============================================
+// 🧪 Multi-target parsing and ratio tests
+// Run: deno test tests/
+// ============================================
+
+import { assertEquals, assertThrows } from 'jsr:@std/assert@^1';
+import { describeRatio, parseTarget, parseTargets } from '../lib/targets.ts';
+
+Deno.test('targets are name=url or a bare URL named after its host', () => {
+  assertEquals(parseTarget('local=http://localhost:3000/'), { name: 'local', baseUrl: 'http://localhost:3000' });
+  assertEquals(parseTarget('eu-west.2=https://eu.example.com/api'), { name: 'eu-west.2', baseUrl: 'https://eu.example.com/api' });
+  assertEquals(parseTarget('http://localhost:3000'), { name: 'localhost:3000', baseUrl: 'http://localhost:3000' });
+  // An = inside the URL is part of the URL, not a name
+  assertEquals(parseTarget('https://example.com/?env=cloud'), { name: 'example.com', baseUrl: 'https://example.com/?env=cloud' });
+
+  assertThrows(() => parseTarget('local=/api'), Error, 'Invalid target "local=/api" (expected name=url');
+  assertThrows(() => parseTarget('staging'), Error, 'Invalid target "staging"');
+});
+
+Deno.test('target lists split on commas and need two uniquely named targets', () => {
+  assertEquals(parseTargets(['local=http://localhost:3000,staging=https://staging.example.com', 'https://cloud.example.com']), [
+    { name: 'local', baseUrl: 'http://localhost:3000' },
+    { name: 'staging', baseUrl: 'https://staging.example.com' },
+    { name: 'cloud.example.com', baseUrl: 'https://cloud.example.com' }
+  ]);
+
+  assertThrows(() => parseTargets(['local=http://localhost:3000']), Error, 'Comparing targets needs at least two --target values');
+  assertThrows(() => parseTargets([]), Error, 'at least two');
+  assertThrows(
+    () => parseTargets(['https://example.com/v1', 'https://example.com/v2']),
+    Error,
+    'Target name "example.com" is used twice; name them with name=url'
+  );
+});
+
+Deno.test('ratios read as slower, faster or the same within 5%', () => {
+  assertEquals([7.34, 1.06, 1.049, 1, 0.951, 0.5, 0.1].map(describeRatio), [
+    '7.3x slower', '1.1x slower', 'the same', 'the same', 'the same', '2.0x faster', '10.0x faster'
+  ]);
+  // A zero baseline or an empty run gives no ratio to describe
+  assertEquals([Infinity, NaN, 0, -1].map(describeRatio), ['n/a', 'n/a', 'n/a', 'n/a']);
+});
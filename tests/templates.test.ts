@@ -0,0 +1,94 @@
+// tests/templates.test.ts
+// ============================================
+// 🧪 Templates, data files and body encoding tests
+// Run: deno test tests/
+// ============================================
+
+import { assertEquals, assertStringIncludes } from 'jsr:@std/assert@^1';
+import { seededRandom } from '../lib/random.ts';
+import { encodeBody } from '../lib/requestBody.ts';
+import { type DataSet, parseCsv, renderTemplate, TemplateData } from '../lib/templates.ts';
+
+// ============================================
+// 📂 CSV
+// ============================================
+
+Deno.test('parses quoted fields with commas, quotes and newlines', () => {
+  const csv = 'email, name ,note\r\n' +
+    'a@example.com,"Smith, Ann","says ""hi"""\r\n' +
+    '\r\n' +
+    'b@example.com,Bob,"two\nlines"\n' +
+    'c@example.com,Cy';
+
+  assertEquals(parseCsv(csv), [
+    { email: 'a@example.com', name: 'Smith, Ann', note: 'says "hi"' },
+    { email: 'b@example.com', name: 'Bob', note: 'two\nlines' },
+    { email: 'c@example.com', name: 'Cy', note: '' }
+  ]);
+  assertEquals(parseCsv('id\n1\n'), [{ id: '1' }]);
+  assertEquals(parseCsv(''), []);
+});
+
+// ============================================
+// 🧩 LOOKUPS
+// ============================================
+
+const users = (order: DataSet['order']): Record<string, DataSet> => ({
+  users: { order, rows: ['a', 'b', 'c'].map(name => ({ email: `${name}@example.com`, password: name })) }
+});
+
+Deno.test('columns of one request come from the same row', () => {
+  const data = new TemplateData(users('sequential'));
+  const render = (lookup: ReturnType<TemplateData['scope']>) => renderTemplate('{{users.email}}:{{ users.password }}', lookup);
+
+  assertEquals([render(data.scope()), render(data.scope()), render(data.scope()), render(data.scope())], [
+    'a@example.com:a', 'b@example.com:b', 'c@example.com:c', 'a@example.com:a'
+  ]);
+});
+
+Deno.test('per-user rows follow the virtual user, random rows the seeded stream', () => {
+  const perUser = new TemplateData(users('per-user'));
+  assertEquals([0, 1, 4].map(userId => perUser.scope({}, userId)('users.password')), ['a', 'b', 'b']);
+  // Outside load tests there are no users, so rows are read in order
+  assertEquals([perUser.scope()('users.password'), perUser.scope()('users.password')], ['a', 'b']);
+
+  const picks = (seed: string) => {
+    const data = new TemplateData(users('random'), seededRandom(seed));
+    return Array.from({ length: 8 }, () => data.scope()('users.password'));
+  };
+  assertEquals(picks('rows'), picks('rows'));
+});
+
+Deno.test('variables win over data sets, and inherited names are not values', () => {
+  const data = new TemplateData(users('sequential'));
+  const lookup = data.scope({ 'users.email': 'override@example.com', token: 'abc' }, 7);
+
+  assertEquals([lookup('users.email'), lookup('token'), lookup('user')], ['override@example.com', 'abc', '7']);
+  assertEquals([lookup('sequence'), lookup('sequence'), data.scope()('sequence')], ['1', '1', '2']);
+  assertEquals([lookup('constructor'), lookup('toString'), lookup('constructor.name'), lookup('users.constructor')], [
+    undefined, undefined, undefined, undefined
+  ]);
+  assertEquals(renderTemplate('/api/{{constructor}}/{{missing}}', lookup), '/api/{{constructor}}/{{missing}}');
+});
+
+// ============================================
+// 📦 BODIES
+// ============================================
+
+Deno.test('encodes JSON, text, form and multipart bodies', async () => {
+  assertEquals(await encodeBody(undefined), {});
+  assertEquals(await encodeBody('raw=1'), { body: 'raw=1' });
+  assertEquals(await encodeBody({ title: 'x', tags: ['a'] }), { body: '{"title":"x","tags":["a"]}', contentType: 'application/json' });
+  assertEquals(await encodeBody('"quoted"', 'json'), { body: '"\\"quoted\\""', contentType: 'application/json' });
+  assertEquals(await encodeBody({ n: 1 }, 'text'), { body: '{"n":1}', contentType: 'text/plain;charset=UTF-8' });
+  assertEquals(await encodeBody({ q: 'a b&c', tag: ['x', 'y'], page: 2 }, 'form'), {
+    body: 'q=a+b%26c&tag=x&tag=y&page=2',
+    contentType: 'application/x-www-form-urlencoded'
+  });
+
+  const multipart = await encodeBody({ title: 'Report', upload: { filename: 'a.txt', content: 'hello', contentType: 'text/plain' } }, 'multipart');
+  const boundary = multipart.contentType!.match(/^multipart\/form-data; ?boundary=(.+)$/)![1];
+  assertStringIncludes(multipart.body!, `--${boundary}\r\nContent-Disposition: form-data; name="title"\r\n\r\nReport\r\n`);
+  assertStringIncludes(multipart.body!, 'name="upload"; filename="a.txt"\r\nContent-Type: text/plain\r\n\r\nhello\r\n');
+  assertStringIncludes(multipart.body!, `--${boundary}--`);
+});
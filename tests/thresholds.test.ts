@@ -0,0 +1,133 @@
+// tests/thresholds.test.ts
+// ============================================
+// 🧪 Pass/fail threshold tests
+// Run: deno test --allow-net tests/
+// ============================================
+
+import { assert, assertEquals, assertThrows } from 'jsr:@std/assert@^1';
+import { parseLatency, serveMock } from '../lib/mockServer.ts';
+import { evaluateThresholds, formatMetric, parseThreshold } from '../lib/thresholds.ts';
+import type { PerformanceReport } from '../lib/types.ts';
+import { SimplePerformanceTest } from '../performanceTest.ts';
+
+const report = {
+  summary: {
+    totalRequests: 200,
+    averageResponseTime: 42,
+    p50ResponseTime: 40,
+    p95ResponseTime: 120,
+    p99ResponseTime: 180,
+    minResponseTime: 5,
+    maxResponseTime: 250,
+    percentiles: { p50: 40, p95: 120, p99: 180, 'p99.9': 240 },
+    successRate: 99.5,
+    errorRate: 0.5
+  },
+  endpointBreakdown: {
+    '/api/blogs': {
+      requests: 100,
+      avgResponseTime: 60,
+      p50ResponseTime: 55,
+      p95ResponseTime: 150,
+      p99ResponseTime: 200,
+      successRate: 99,
+      expectedResponses: 99,
+      unexpectedResponses: 1,
+      unexpectedReasons: {}
+    }
+  },
+  timeSeriesData: [],
+  recommendations: []
+} as PerformanceReport;
+
+// ============================================
+// 🔧 PARSING
+// ============================================
+
+Deno.test('parses metrics, aliases, units and endpoints', () => {
+  assertEquals(parseThreshold(' p95 < 150ms '), { expression: 'p95 < 150ms', metric: 'p95', operator: '<', value: 150 });
+  assertEquals(parseThreshold('median<=0.2s'), { expression: 'median<=0.2s', metric: 'p50', operator: '<=', value: 200 });
+  assertEquals(parseThreshold('errors < 1%').metric, 'errorRate');
+  assertEquals(parseThreshold('success >= 99.5%'), { expression: 'success >= 99.5%', metric: 'successRate', operator: '>=', value: 99.5 });
+  assertEquals(parseThreshold('P99.9 < 300').metric, 'p99.9');
+  assertEquals(parseThreshold('requests > 100').value, 100);
+  assertEquals(parseThreshold('/api/blogs p99 < 300ms'), {
+    expression: '/api/blogs p99 < 300ms', endpoint: '/api/blogs', metric: 'p99', operator: '<', value: 300
+  });
+});
+
+Deno.test('rejects malformed thresholds and mismatched units', () => {
+  assertThrows(() => parseThreshold('p95 150ms'), Error, 'Invalid threshold "p95 150ms"');
+  assertThrows(() => parseThreshold('api/blogs p95 < 1ms'), Error, 'Invalid threshold');
+  assertThrows(() => parseThreshold('latency < 100ms'), Error, 'Unknown threshold metric "latency"');
+  assertThrows(() => parseThreshold('p101 < 100ms'), Error, 'percentiles run from p0 to p100');
+  assertThrows(() => parseThreshold('errorRate < 5ms'), Error, 'errorRate is a percentage');
+  assertThrows(() => parseThreshold('p95 < 5%'), Error, 'p95 is not a percentage');
+});
+
+// ============================================
+// 🚦 EVALUATION
+// ============================================
+
+Deno.test('evaluates overall and per-endpoint thresholds against a report', () => {
+  const results = evaluateThresholds(report, [
+    'p95 < 150ms',
+    'p99 < 150ms',
+    'avg <= 42ms',
+    'errorRate < 1%',
+    'successRate > 99.5%',
+    'p99.9 < 250ms',
+    '/api/blogs p95 < 200ms',
+    '/api/blogs errorRate < 0.5%',
+    '/api/blogs requests >= 100'
+  ].map(parseThreshold));
+
+  assertEquals(results.map(({ passed }) => passed), [true, false, true, true, false, true, true, false, true]);
+  assertEquals(results.map(({ actual }) => actual), [120, 180, 42, 0.5, 99.5, 240, 150, 1, 100]);
+  assertEquals(results[6], { expression: '/api/blogs p95 < 200ms', endpoint: '/api/blogs', metric: 'p95', actual: 150, passed: true });
+});
+
+Deno.test('a threshold on an endpoint that was never requested fails without a value', () => {
+  assertEquals(evaluateThresholds(report, [parseThreshold('/api/blog p95 < 200ms')]), [
+    { expression: '/api/blog p95 < 200ms', endpoint: '/api/blog', metric: 'p95', passed: false }
+  ]);
+});
+
+Deno.test('formats metric values with their unit', () => {
+  assertEquals([formatMetric('p95', 123.456), formatMetric('errorRate', 0.5), formatMetric('requests', 200)], ['123.5ms', '0.50%', '200']);
+});
+
+// ============================================
+// 📏 FROM A RUN
+// ============================================
+
+Deno.test('any percentile and per-endpoint min, max and stdDev are evaluated from the run', async () => {
+  const scenario = { name: 'single', groups: { api: [{ path: '/api/blogs', method: 'GET', weight: 1, description: 'Blog API' }] } };
+  const server = serveMock({ port: 0, seed: 'thresholds', scenario, latency: parseLatency('uniform:5ms-15ms') });
+  const expressions = [
+    'p97 < 1000ms',
+    'p99.90 < 1000ms',
+    '/api/blogs p97 < 1000ms',
+    '/api/blogs min > 1ms',
+    '/api/blogs max < 1000ms',
+    '/api/blogs stdDev < 1000ms',
+    'p97 < 1ms'
+  ];
+  try {
+    const report = await new SimplePerformanceTest(`http://127.0.0.1:${server.addr.port}`, {
+      reporters: [],
+      plainOutput: true,
+      scenario,
+      thresholds: expressions.map(parseThreshold)
+    }).runQuickBenchmark(20);
+
+    const results = report.thresholds!;
+    assertEquals(results.map(({ passed }) => passed), [true, true, true, true, true, true, false]);
+    assert(results.every(({ actual }) => actual !== undefined));
+    assertEquals(results[1].metric, 'p99.9');
+    assert(report.summary.percentiles?.p97 !== undefined);
+    assertEquals(results[4].actual, report.endpointBreakdown['/api/blogs'].maxResponseTime);
+  } finally {
+    await server.shutdown();
+  }
+});